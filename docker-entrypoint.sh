@@ -15,16 +15,37 @@ echo "======================================"
 # or leave empty if those services are not needed
 export OLLAMA_URL="${VITE_OLLAMA_URL:-}"
 export OPENWEBUI_URL="${VITE_OPENWEBUI_URL:-}"
+export FETCH_RELAY_SECRET="${FETCH_RELAY_SECRET:-}"
+# nginx resolves relayed hosts at request time; default to the container's DNS server
+export FETCH_RELAY_RESOLVER="${FETCH_RELAY_RESOLVER:-$(awk '/^nameserver/ { print $2; exit }' /etc/resolv.conf)}"
+export FETCH_RELAY_RESOLVER="${FETCH_RELAY_RESOLVER:-127.0.0.11}"
 
 echo "📋 Configuration:"
 echo "   - Ollama URL: $OLLAMA_URL"
 echo "   - OpenWebUI URL: $OPENWEBUI_URL"
+if [ -n "$FETCH_RELAY_SECRET" ]; then
+  echo "   - Fetch relay: enabled for ${FETCH_RELAY_HOSTS:-(no hosts)}"
+else
+  echo "   - Fetch relay: disabled"
+fi
 
 # Substitute environment variables in nginx config
 echo "🔧 Configuring nginx..."
-envsubst '${OLLAMA_URL} ${OPENWEBUI_URL}' < /etc/nginx/conf.d/default.conf > /tmp/nginx.conf.tmp
+envsubst '${OLLAMA_URL} ${OPENWEBUI_URL} ${FETCH_RELAY_SECRET} ${FETCH_RELAY_RESOLVER}' < /etc/nginx/conf.d/default.conf > /tmp/nginx.conf.tmp
 mv /tmp/nginx.conf.tmp /etc/nginx/conf.d/default.conf
 
+# Fetch relay allowlist: "api.example.com" or "*.example.com", comma or space separated; "*" allows any host
+set -f
+: > /etc/nginx/relay-hosts.map
+for host in $(echo "${FETCH_RELAY_HOSTS:-}" | tr ',' ' '); do
+  if [ "$host" = "*" ]; then
+    echo "~. 1;" >> /etc/nginx/relay-hosts.map
+  else
+    echo "$host 1;" >> /etc/nginx/relay-hosts.map
+  fi
+done
+set +f
+
 # Create runtime config for the PWA
 # This allows the app to read runtime configuration
 echo "📝 Creating runtime config..."
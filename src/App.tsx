@@ -14,6 +14,7 @@ import { TasksPage } from './components/tasks/TasksPage.js';
 import { SettingsPage } from './components/settings/SettingsPage.js';
 import { LoginPage } from './components/auth/LoginPage.js';
 import { HelpPage } from './components/help/HelpPage.js';
+import { UsagePage } from './components/usage/UsagePage.js';
 
 export function App() {
   const orchRef = useRef<Orchestrator | null>(null);
@@ -109,6 +110,7 @@ export function App() {
           <Route path="chat" element={<ChatPage />} />
           <Route path="files" element={<FilesPage />} />
           <Route path="tasks" element={<TasksPage />} />
+          <Route path="usage" element={<UsagePage />} />
           <Route path="settings" element={<SettingsPage />} />
           <Route path="help" element={<HelpPage />} />
           <Route path="*" element={<Navigate to="/chat" replace />} />
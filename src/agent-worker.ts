@@ -9,11 +9,54 @@
 // Instead of Claude Agent SDK in a Linux container, we use raw Anthropic
 // API calls with a tool-use loop.
 
-import type { WorkerInbound, WorkerOutbound, InvokePayload, CompactPayload, ConversationMessage, ThinkingLogEntry, TokenUsage } from './types.js';
+import type { WorkerInbound, WorkerOutbound, InvokePayload, CompactPayload, ContentBlock, ConversationMessage, FallbackAttempt, ModelCapabilities, RunBudget, ThinkingLogEntry, TokenUsage, ToolDefinition, ToolPolicy } from './types.js';
 import { TOOL_DEFINITIONS } from './tools.js';
-import { ANTHROPIC_API_URL, ANTHROPIC_API_VERSION, FETCH_MAX_RESPONSE, MEMORY_FILE } from './config.js';
-import { readGroupFile, writeGroupFile, listGroupFiles } from './storage.js';
+import {
+  buildToolProtocolPrompt,
+  formatToolCall,
+  formatToolResult,
+  parseToolArguments,
+  parseToolCallText,
+  type TextToolCall,
+} from './tool-protocol.js';
+import {
+  ANTHROPIC_API_URL,
+  ANTHROPIC_API_VERSION,
+  FETCH_MAX_RESPONSE,
+  FETCH_MAX_REDIRECTS,
+  MEMORY_FILE,
+  PROVIDER_LABELS,
+  PROVIDER_MAX_RETRIES,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+  SERIAL_TOOLS,
+  TOOL_CONCURRENCY,
+  DEFAULT_TOOL_CONCURRENCY,
+  DEFAULT_RUN_BUDGET,
+  DELEGATE_RUN_BUDGET,
+  MAX_DELEGATE_DEPTH,
+  JS_SANDBOX_DEFAULT_TIMEOUT,
+  JS_SANDBOX_MAX_TIMEOUT,
+} from './config.js';
+import type { Provider } from './config.js';
+import {
+  readGroupFile,
+  writeGroupFile,
+  listGroupFiles,
+  listGroupEntries,
+  statGroupEntry,
+  deleteGroupEntry,
+  moveGroupEntry,
+  copyGroupEntry,
+} from './storage.js';
 import { executeShell } from './shell.js';
+import { loadCustomTools, runCustomTool } from './custom-tools.js';
+import { runJavaScript } from './sandbox.js';
+import { checkRequest, credentialFor, policyRestricts, relayRequest } from './network-policy.js';
+import { extractPage } from './html-extract.js';
+import { applyEdits, formatEntries, sliceLines } from './file-tools.js';
+import { diffStats, unifiedDiff } from './diff.js';
+import { searchFiles } from './search.js';
 import { ulid } from './ulid.js';
 
 // ---------------------------------------------------------------------------
@@ -31,257 +74,462 @@ self.onmessage = async (event: MessageEvent<WorkerInbound>) => {
       await handleCompact(payload as CompactPayload);
       break;
     case 'cancel':
-      // TODO: AbortController-based cancellation
+      handleCancel((payload as { groupId: string }).groupId);
       break;
+    case 'tool-decision': {
+      const { requestId, approved } = payload as { requestId: string; approved: boolean };
+      pendingApprovals.get(requestId)?.(approved);
+      break;
+    }
+    case 'mcp-result': {
+      const { requestId, output } = payload as { requestId: string; output: string };
+      pendingMcpCalls.get(requestId)?.(output);
+      break;
+    }
   }
 };
 
-// Shell emulator needs no boot — it's pure JS over OPFS
+// ---------------------------------------------------------------------------
+// Run tracking — one AbortController per group
+// ---------------------------------------------------------------------------
+
+interface ActiveRun {
+  controller: AbortController;
+  /** Text streamed so far, saved as a partial transcript on cancel */
+  partial: string;
+  /** Policy per tool for this run; unlisted tools run automatically */
+  toolPolicies: Record<string, ToolPolicy>;
+  budget: RunBudgetTracker;
+}
+
+const activeRuns = new Map<string, ActiveRun>();
+
+function startRun(
+  groupId: string,
+  { toolPolicies = {}, budget = DEFAULT_RUN_BUDGET }: { toolPolicies?: Record<string, ToolPolicy>; budget?: RunBudget } = {},
+): AbortSignal {
+  activeRuns.get(groupId)?.controller.abort();
+  const run: ActiveRun = {
+    controller: new AbortController(),
+    partial: '',
+    toolPolicies,
+    budget: new RunBudgetTracker(groupId, budget),
+  };
+  activeRuns.set(groupId, run);
+  return run.controller.signal;
+}
+
+function endRun(groupId: string, signal: AbortSignal): void {
+  // A newer run may have replaced this one — only remove our own
+  if (activeRuns.get(groupId)?.controller.signal === signal) {
+    activeRuns.delete(groupId);
+  }
+}
+
+function handleCancel(groupId: string): void {
+  const run = activeRuns.get(groupId);
+  if (!run) return;
+  log(groupId, 'info', 'Cancelling', 'Stop requested by user');
+  run.controller.abort();
+}
+
+/** Report the outcome of an aborted run with whatever text was produced. */
+function postCancelled(groupId: string): void {
+  const partial = activeRuns.get(groupId)?.partial.trim() ?? '';
+  log(groupId, 'info', 'Cancelled', partial ? `Partial response: ${partial.length} chars` : 'No response text yet');
+  post({ type: 'cancelled', payload: { groupId, partial } });
+}
 
 // ---------------------------------------------------------------------------
-// Agent invocation — tool-use loop
+// Run budget — model calls, tokens, wall-clock time and tool calls per run
 // ---------------------------------------------------------------------------
 
-async function handleInvoke(payload: InvokePayload): Promise<void> {
-  const { groupId, messages, systemPrompt, apiKey, model, maxTokens, provider, ollamaUrl, openWebUIUrl, openWebUIKey } = payload;
+const BUDGET_UNITS: Record<keyof RunBudget, string> = {
+  maxIterations: 'model calls',
+  maxTokens: 'tokens',
+  maxSeconds: 'seconds',
+  maxToolCalls: 'tool calls',
+};
 
-  post({ type: 'typing', payload: { groupId } });
-  log(groupId, 'info', 'Starting', `Provider: ${provider} · Model: ${model} · Max tokens: ${maxTokens}`);
+/** Fractions of a limit at which usage is reported in the activity log */
+const BUDGET_WARNINGS = [0.5, 0.8];
 
-  if (provider === 'openwebui') {
-    await handleOpenWebUIInvoke(groupId, messages, systemPrompt, model, maxTokens, openWebUIUrl || '/api/openwebui', openWebUIKey || '');
-    return;
+/**
+ * Tracks one run against its budget. Every tool-use loop asks it before
+ * each model call and each batch of tool calls, so the limits are enforced
+ * the same way for every provider.
+ */
+class RunBudgetTracker {
+  private used: RunBudget = { maxIterations: 0, maxTokens: 0, maxSeconds: 0, maxToolCalls: 0 };
+  private readonly startedAt = Date.now();
+  private readonly warned = new Map<keyof RunBudget, number>();
+  private readonly toolCounts = new Map<string, number>();
+  private exhausted: keyof RunBudget | null = null;
+
+  constructor(
+    private readonly target: LogTarget,
+    private readonly budget: RunBudget,
+    /** The run that started this one; model calls, tokens and tool calls made here count there too */
+    private readonly parent?: RunBudgetTracker,
+  ) {}
+
+  /** Model calls started so far */
+  get iterations(): number {
+    return this.used.maxIterations;
   }
 
-  if (provider === 'ollama') {
-    await handleOllamaInvoke(groupId, messages, systemPrompt, model, maxTokens, ollamaUrl || '/api/ollama');
-    return;
+  /** Start another model call; false once any limit is used up. */
+  nextIteration(): boolean {
+    if (!this.withinLimits()) return false;
+    if (this.used.maxIterations >= this.budget.maxIterations) return this.stop('maxIterations');
+    this.charge('maxIterations', 1);
+    return true;
   }
 
-  // Default: Anthropic
-  await handleAnthropicInvoke(groupId, messages, systemPrompt, apiKey, model, maxTokens);
-}
+  /** Count the tokens of a finished model call. */
+  addTokens(tokens: number): void {
+    this.charge('maxTokens', tokens);
+  }
 
-async function handleAnthropicInvoke(
-  groupId: string,
-  messages: ConversationMessage[],
-  systemPrompt: string,
-  apiKey: string,
-  model: string,
-  maxTokens: number
-): Promise<void> {
+  /** Reserve a turn's tool calls; false if they would exceed the budget. */
+  allowToolCalls(calls: { name: string }[]): boolean {
+    if (!this.withinLimits()) return false;
+    if (this.used.maxToolCalls + calls.length > this.budget.maxToolCalls) return this.stop('maxToolCalls');
+    for (const call of calls) {
+      this.toolCounts.set(call.name, (this.toolCounts.get(call.name) ?? 0) + 1);
+    }
+    this.charge('maxToolCalls', calls.length);
+    return true;
+  }
 
-  try {
-    let currentMessages: ConversationMessage[] = [...messages];
-    let iterations = 0;
-    const maxIterations = 25; // Safety limit to prevent infinite loops
+  /** Final message for a run that stopped on its budget. */
+  summary(): string {
+    const limit = this.exhausted ?? 'maxIterations';
+    const tools = [...this.toolCounts].map(([name, n]) => `${name} ×${n}`).join(', ');
+    return [
+      `⏸️ Stopped: this run reached its limit of ${this.budget[limit].toLocaleString()} ${BUDGET_UNITS[limit]}.`,
+      '',
+      `Used: ${this.describeUsage()}`,
+      ...(tools ? [`Tools run: ${tools}`] : []),
+      ...(this.parent ? [] : ['', 'Send a follow-up message to let it continue, or raise the run budget in Settings.']),
+    ].join('\n');
+  }
 
-    while (iterations < maxIterations) {
-      iterations++;
+  /**
+   * Budget for a sub-agent: `limits`, capped by what this run has left of
+   * each of its own limits.
+   */
+  child(target: LogTarget, limits: RunBudget): RunBudgetTracker {
+    this.used.maxSeconds = Math.floor((Date.now() - this.startedAt) / 1000);
+    const left = (key: keyof RunBudget) => Math.min(limits[key], Math.max(0, this.budget[key] - this.used[key]));
+    return new RunBudgetTracker(target, {
+      maxIterations: left('maxIterations'),
+      maxTokens: left('maxTokens'),
+      maxSeconds: left('maxSeconds'),
+      maxToolCalls: left('maxToolCalls'),
+    }, this);
+  }
 
-      const body = {
-        model,
-        max_tokens: maxTokens,
-        cache_control: { type: 'ephemeral' },
-        system: systemPrompt,
-        messages: currentMessages,
-        tools: TOOL_DEFINITIONS,
-      };
-
-      log(groupId, 'api-call', `API call #${iterations}`, `${currentMessages.length} messages in context`);
-
-      const res = await fetch(ANTHROPIC_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': ANTHROPIC_API_VERSION,
-          'anthropic-dangerous-direct-browser-access': 'true',
-        },
-        body: JSON.stringify(body),
-      });
+  /** Count usage against this run and every run above it. */
+  private charge(key: 'maxIterations' | 'maxTokens' | 'maxToolCalls', amount: number): void {
+    this.used[key] += amount;
+    this.report();
+    this.parent?.charge(key, amount);
+  }
 
-      if (!res.ok) {
-        const errBody = await res.text();
-        throw new Error(`Anthropic API error ${res.status}: ${errBody}`);
-      }
+  private withinLimits(): boolean {
+    this.used.maxSeconds = Math.floor((Date.now() - this.startedAt) / 1000);
+    if (this.exhausted) return false;
+    if (this.used.maxSeconds >= this.budget.maxSeconds) return this.stop('maxSeconds');
+    if (this.used.maxTokens >= this.budget.maxTokens) return this.stop('maxTokens');
+    return true;
+  }
 
-      const result = await res.json();
-
-      // Emit token usage
-      if (result.usage) {
-        post({
-          type: 'token-usage',
-          payload: {
-            groupId,
-            inputTokens: result.usage.input_tokens || 0,
-            outputTokens: result.usage.output_tokens || 0,
-            cacheReadTokens: result.usage.cache_read_input_tokens || 0,
-            cacheCreationTokens: result.usage.cache_creation_input_tokens || 0,
-            contextLimit: getContextLimit(model),
-          },
-        });
-      }
+  private stop(limit: keyof RunBudget): false {
+    this.exhausted = limit;
+    log(this.target, 'info', 'Run budget used up', `${BUDGET_UNITS[limit]} limit reached · ${this.describeUsage()}`);
+    return false;
+  }
 
-      // Log any text blocks in the response (intermediate reasoning)
-      for (const block of result.content) {
-        if (block.type === 'text' && block.text) {
-          const preview = block.text.length > 200 ? block.text.slice(0, 200) + '…' : block.text;
-          log(groupId, 'text', 'Response text', preview);
-        }
+  /** Log each limit once as it passes 50% and 80%. */
+  private report(): void {
+    for (const key of Object.keys(BUDGET_UNITS) as (keyof RunBudget)[]) {
+      const fraction = this.used[key] / this.budget[key];
+      const level = BUDGET_WARNINGS.filter((w) => fraction >= w).pop();
+      if (level && level > (this.warned.get(key) ?? 0)) {
+        this.warned.set(key, level);
+        log(
+          this.target,
+          'info',
+          'Run budget',
+          `${Math.round(level * 100)}% of ${BUDGET_UNITS[key]} used (${this.used[key].toLocaleString()}/${this.budget[key].toLocaleString()})`,
+        );
       }
+    }
+  }
 
-      if (result.stop_reason === 'tool_use') {
-        // Execute all tool calls
-        const toolResults = [];
-        for (const block of result.content) {
-          if (block.type === 'tool_use') {
-            const inputPreview = JSON.stringify(block.input);
-            const inputShort = inputPreview.length > 300 ? inputPreview.slice(0, 300) + '…' : inputPreview;
-            log(groupId, 'tool-call', `Tool: ${block.name}`, inputShort);
-
-            post({
-              type: 'tool-activity',
-              payload: { groupId, tool: block.name, status: 'running' },
-            });
-
-            const output = await executeTool(block.name, block.input, groupId);
-
-            const outputStr = typeof output === 'string' ? output : JSON.stringify(output);
-            const outputShort = outputStr.length > 500 ? outputStr.slice(0, 500) + '…' : outputStr;
-            log(groupId, 'tool-result', `Result: ${block.name}`, outputShort);
-
-            post({
-              type: 'tool-activity',
-              payload: { groupId, tool: block.name, status: 'done' },
-            });
-
-            toolResults.push({
-              type: 'tool_result' as const,
-              tool_use_id: block.id,
-              content: typeof output === 'string'
-                ? output.slice(0, 100_000)
-                : JSON.stringify(output).slice(0, 100_000),
-            });
-          }
-        }
+  private describeUsage(): string {
+    return (Object.keys(BUDGET_UNITS) as (keyof RunBudget)[])
+      .map((key) => `${this.used[key].toLocaleString()}/${this.budget[key].toLocaleString()} ${BUDGET_UNITS[key]}`)
+      .join(' · ');
+  }
+}
 
-        // Continue the conversation with tool results
-        currentMessages.push({ role: 'assistant', content: result.content });
-        currentMessages.push({ role: 'user', content: toolResults as any });
+function runBudget(groupId: string): RunBudgetTracker {
+  const run = activeRuns.get(groupId);
+  if (!run) throw new Error('No active run for this group');
+  return run.budget;
+}
 
-        // Re-signal typing between tool iterations
-        post({ type: 'typing', payload: { groupId } });
-      } else {
-        // Final response — extract text
-        const text = result.content
-          .filter((b: { type: string }) => b.type === 'text')
-          .map((b: { text: string }) => b.text)
-          .join('');
+/** Post a model call's token usage and count it against the run budget. */
+function reportUsage(scope: AgentScope, usage: TokenUsage): void {
+  scope.budget.addTokens(usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheCreationTokens);
+  post({ type: 'token-usage', payload: scope.agentPath.length > 0 ? { ...usage, subAgent: true } : usage });
+}
 
-        // Strip internal tags (matching NanoClaw pattern)
-        const cleaned = text.replace(/<internal>[\s\S]*?<\/internal>/g, '').trim();
+// Shell emulator needs no boot — it's pure JS over OPFS
 
-        post({ type: 'response', payload: { groupId, text: cleaned || '(no response)' } });
+// ---------------------------------------------------------------------------
+// Provider requests — retry transient failures with backoff
+// ---------------------------------------------------------------------------
 
-        // look for manual minimax:tool_call markers and auto-execute
-        const manual = cleaned.match(/minimax:tool_call\s+(https?:\/\/\S+)/i);
-        if (manual) {
-          const url = manual[1];
-          try {
-            const r = await fetch(url);
-            const txt = await r.text();
-            let extra = txt;
-            try {
-              const obj = JSON.parse(txt);
-              if (obj && Array.isArray(obj.prices)) {
-                const vals: number[] = obj.prices
-                  .map((p: any) => (Array.isArray(p) ? Number(p[1]) : NaN))
-                  .filter((n: number) => !isNaN(n));
-                if (vals.length) extra += '\n\nSparkline: ' + makeSparkline(vals);
-              }
-            } catch {}
-            post({ type: 'response', payload: { groupId, text: `[Tool fetch result from ${url}]:\n${extra}` } });
-          } catch (err) {
-            post({ type: 'response', payload: { groupId, text: `[Tool fetch error]: ${err}` } });
-          }
-        }
+/** Rate limits, overload, timeouts and gateway errors are worth retrying */
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504, 529]);
 
-        return;
+/** A provider request that failed; `retryable` failures may succeed elsewhere. */
+class ProviderError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * POST to a provider, retrying network failures and retryable statuses with
+ * exponential backoff. A `retry-after` hint from the server is honoured; one
+ * longer than RETRY_MAX_DELAY_MS gives up so the fallback chain can take over.
+ */
+async function fetchWithRetry(
+  target: LogTarget,
+  label: string,
+  url: string,
+  init: RequestInit,
+  signal: AbortSignal,
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let reason: string;
+    let retryAfter: number | null = null;
+
+    try {
+      const res = await fetch(url, { ...init, signal });
+      if (res.ok) return res;
+
+      const errBody = await res.text().catch(() => '');
+      const error = `${label} API error ${res.status}: ${errBody}`;
+      if (!RETRYABLE_STATUSES.has(res.status) && !/overloaded/i.test(errBody)) {
+        throw new ProviderError(error, false);
+      }
+      retryAfter = retryAfterMs(res.headers);
+      if (attempt >= PROVIDER_MAX_RETRIES || (retryAfter !== null && retryAfter > RETRY_MAX_DELAY_MS)) {
+        throw new ProviderError(error, true);
       }
+      reason = `HTTP ${res.status}`;
+    } catch (err: unknown) {
+      if (signal.aborted || err instanceof ProviderError) throw err;
+      // fetch() itself rejected — offline, DNS, CORS or a dropped connection
+      const message = err instanceof Error ? err.message : String(err);
+      if (attempt >= PROVIDER_MAX_RETRIES) {
+        throw new ProviderError(`${label} request failed: ${message}`, true);
+      }
+      reason = message;
     }
 
-    // If we hit max iterations
-    post({
-      type: 'response',
-      payload: {
-        groupId,
-        text: '⚠️ Reached maximum tool-use iterations (25). Stopping to avoid excessive API usage.',
-      },
-    });
-  } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : String(err);
-    post({ type: 'error', payload: { groupId, error: message } });
+    const backoff = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+    const delay = retryAfter ?? Math.round(backoff * (0.5 + Math.random() / 2));
+    log(target, 'info', 'Retrying', `${label}: ${reason} — attempt ${attempt + 2}/${PROVIDER_MAX_RETRIES + 1} in ${(delay / 1000).toFixed(1)}s`);
+    await sleep(delay, signal);
   }
 }
 
+/** Parse `retry-after-ms` or `retry-after` (seconds or an HTTP date). */
+function retryAfterMs(headers: Headers): number | null {
+  const ms = Number(headers.get('retry-after-ms'));
+  if (ms > 0) return ms;
+
+  const value = headers.get('retry-after');
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 // ---------------------------------------------------------------------------
-// Context compaction — ask Claude to summarize the conversation
+// Agent invocation — tool-use loop
 // ---------------------------------------------------------------------------
 
-async function handleCompact(payload: CompactPayload): Promise<void> {
-  const { groupId, messages, systemPrompt, apiKey, model, maxTokens, provider, ollamaUrl, openWebUIUrl, openWebUIKey } = payload;
+async function handleInvoke(payload: InvokePayload): Promise<void> {
+  const { groupId, provider, model, maxTokens, capabilities, fallbacks = [], toolPolicies, budget } = payload;
 
   post({ type: 'typing', payload: { groupId } });
-  log(groupId, 'info', 'Compacting context', `Summarizing ${messages.length} messages (${provider})`);
+  log(groupId, 'info', 'Starting', `Provider: ${provider} · Model: ${model} · Max tokens: ${maxTokens}`);
 
-  // For Ollama and OpenWebUI, just return the messages as-is (no compaction for now)
-  if (provider === 'ollama' || provider === 'openwebui') {
-    post({ type: 'compact-done', payload: { groupId, summary: `Compaction not yet supported for ${provider}` } });
-    return;
+  // The primary provider first, then the fallback chain in order
+  const attempts: FallbackAttempt[] = [{ provider, model, maxTokens, capabilities }, ...fallbacks];
+
+  const signal = startRun(groupId, { toolPolicies, budget });
+  try {
+    // Built-in tools, then the connected MCP servers' and the group's own
+    const builtIn = [...TOOL_DEFINITIONS, ...(payload.mcpTools ?? [])];
+    const custom = await loadCustomTools(groupId, builtIn.map((t) => t.name));
+    for (const error of custom.errors) log(groupId, 'info', 'Custom tool skipped', error);
+    const tools = [...builtIn, ...custom.tools];
+
+    // Tool-use steps of failed attempts, which the next provider picks up from
+    const steps: ConversationMessage[] = [];
+    for (let i = 0; ; i++) {
+      const attempt = attempts[i];
+      const label = `${PROVIDER_LABELS[attempt.provider]} · ${attempt.model}`;
+      const scope: AgentScope = { groupId, signal, budget: runBudget(groupId), tools, agentPath: [], payload, attempt, transcript: [] };
+      try {
+        const { text, transcript } = await invokeProvider(scope, [...payload.messages, ...steps], payload.systemPrompt);
+        log(groupId, 'info', 'Answered by', label);
+        steps.push(...transcript);
+        post({ type: 'response', payload: { groupId, text, transcript: steps.length > 0 ? steps : undefined } });
+        return;
+      } catch (err: unknown) {
+        const next = attempts[i + 1];
+        if (signal.aborted || !next || !(err instanceof ProviderError) || !err.retryable) throw err;
+
+        const nextLabel = `${PROVIDER_LABELS[next.provider]} · ${next.model}`;
+        log(groupId, 'info', 'Failing over', `${label} failed: ${err.message.slice(0, 200)} → trying ${nextLabel}`);
+        if (scope.transcript.length > 0) {
+          // Starting over would run the same tools again
+          log(groupId, 'info', 'No restart', `${scope.transcript.length / 2} tool step(s) already ran; ${nextLabel} continues after them`);
+          steps.push(...scope.transcript);
+        }
+        // Text streamed by the failed provider is discarded
+        const run = activeRuns.get(groupId);
+        if (run) run.partial = '';
+        post({ type: 'failover', payload: { groupId, provider: next.provider, model: next.model } });
+      }
+    }
+  } catch (err: unknown) {
+    if (signal.aborted) {
+      postCancelled(groupId);
+      return;
+    }
+    const message = err instanceof Error ? err.message : String(err);
+    post({ type: 'error', payload: { groupId, error: message } });
+  } finally {
+    endRun(groupId, signal);
   }
+}
 
-  // Anthropic compaction
-  await compactAnthropic(groupId, messages, systemPrompt, apiKey, model, maxTokens);
+/** Final text of a run and the tool-use steps that led to it */
+interface InvokeResult {
+  text: string;
+  /** Assistant tool_use / user tool_result pairs, in Anthropic block form */
+  transcript: ConversationMessage[];
 }
 
-async function compactAnthropic(
-  groupId: string,
+/**
+ * What one tool-use loop runs with. The main agent gets the full toolset and
+ * the run's budget; sub-agents started by `delegate` get their own.
+ */
+interface AgentScope {
+  groupId: string;
+  signal: AbortSignal;
+  budget: RunBudgetTracker;
+  tools: ToolDefinition[];
+  /** Sub-agent ids, outermost first; empty for the main agent */
+  agentPath: string[];
+  /** Credentials and endpoints of the run */
+  payload: InvokePayload;
+  /** Provider and model serving the run */
+  attempt: FallbackAttempt;
+  /** Tool-use steps taken so far; they outlive a failed provider, whose tools must not run twice */
+  transcript: ConversationMessage[];
+}
+
+type ToolUseBlock = Extract<ContentBlock, { type: 'tool_use' }>;
+type ToolResultBlock = Extract<ContentBlock, { type: 'tool_result' }>;
+
+/** One tool-use round in provider-neutral form. */
+function toolStep(text: string | null | undefined, uses: ToolUseBlock[], results: ToolResultBlock[]): ConversationMessage[] {
+  return [
+    { role: 'assistant', content: text ? [{ type: 'text', text }, ...uses] : uses },
+    { role: 'user', content: results },
+  ];
+}
+
+/** Run the tool-use loop against the scope's provider. */
+function invokeProvider(scope: AgentScope, messages: ConversationMessage[], systemPrompt: string): Promise<InvokeResult> {
+  const { apiKey, ollamaUrl, openWebUIUrl, openWebUIKey, openAIUrl, openAIKey } = scope.payload;
+  const { provider, model, maxTokens, capabilities } = scope.attempt;
+
+  switch (provider) {
+    case 'openwebui': {
+      const endpoint = `${openWebUIUrl || '/api/openwebui'}/api/chat/completions`;
+      return handleChatCompletionsInvoke(scope, messages, systemPrompt, model, maxTokens, capabilities, endpoint, openWebUIKey || '', provider);
+    }
+    case 'openai': {
+      const endpoint = `${(openAIUrl || '').replace(/\/+$/, '')}/chat/completions`;
+      return handleChatCompletionsInvoke(scope, messages, systemPrompt, model, maxTokens, capabilities, endpoint, openAIKey || '', provider);
+    }
+    case 'ollama':
+      return handleOllamaInvoke(scope, messages, systemPrompt, model, maxTokens, capabilities, ollamaUrl || '/api/ollama');
+    default:
+      return handleAnthropicInvoke(scope, messages, systemPrompt, apiKey, model, maxTokens, capabilities);
+  }
+}
+
+async function handleAnthropicInvoke(
+  scope: AgentScope,
   messages: ConversationMessage[],
   systemPrompt: string,
   apiKey: string,
   model: string,
-  maxTokens: number
-): Promise<void> {
-  try {
-    const compactSystemPrompt = [
-      systemPrompt,
-      '',
-      '## COMPACTION TASK',
-      '',
-      'The conversation context is getting large. Produce a concise summary of the conversation so far.',
-      'Include key facts, decisions, user preferences, and any important context.',
-      'The summary will replace the full conversation history to stay within token limits.',
-      'Be thorough but concise — aim for the essential information only.',
-    ].join('\n');
-
-    const compactMessages: ConversationMessage[] = [
-      ...messages,
-      {
-        role: 'user' as const,
-        content: 'Please provide a concise summary of our entire conversation so far. Include all key facts, decisions, code discussed, and important context. This summary will replace the full history.',
-      },
-    ];
+  maxTokens: number,
+  capabilities: ModelCapabilities,
+): Promise<InvokeResult> {
+  const { groupId, signal, budget } = scope;
+  let currentMessages: ConversationMessage[] = [...messages];
+  const transcript = scope.transcript;
+  while (budget.nextIteration()) {
+    signal.throwIfAborted();
 
     const body = {
       model,
-      max_tokens: Math.min(maxTokens, 4096),
+      max_tokens: maxTokens,
       cache_control: { type: 'ephemeral' },
-      system: compactSystemPrompt,
-      messages: compactMessages,
+      system: systemPrompt,
+      messages: currentMessages,
+      tools: scope.tools.map(({ name, description, input_schema }) => ({ name, description, input_schema })),
+      stream: true,
     };
 
-    const res = await fetch(ANTHROPIC_API_URL, {
+    log(scope, 'api-call', `API call #${budget.iterations}`, `${currentMessages.length} messages in context`);
+
+    const res = await fetchWithRetry(scope, 'Anthropic', ANTHROPIC_API_URL, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -290,25 +538,486 @@ async function compactAnthropic(
         'anthropic-dangerous-direct-browser-access': 'true',
       },
       body: JSON.stringify(body),
-    });
+    }, signal);
+
+    const result = await readAnthropicStream(res, scope);
 
-    if (!res.ok) {
-      const errBody = await res.text();
-      throw new Error(`Anthropic API error ${res.status}: ${errBody}`);
+    // Emit token usage
+    if (result.usage) {
+      reportUsage(scope, {
+        groupId,
+        inputTokens: result.usage.input_tokens || 0,
+        outputTokens: result.usage.output_tokens || 0,
+        cacheReadTokens: result.usage.cache_read_input_tokens || 0,
+        cacheCreationTokens: result.usage.cache_creation_input_tokens || 0,
+        contextLimit: capabilities.contextWindow,
+        provider: 'anthropic',
+        model,
+      });
     }
 
-    const result = await res.json();
-    const summary = result.content
-      .filter((b: { type: string }) => b.type === 'text')
-      .map((b: { text: string }) => b.text)
-      .join('');
+    // Log any text blocks in the response (intermediate reasoning)
+    for (const block of result.content) {
+      if (block.type === 'text' && block.text) {
+        const preview = block.text.length > 200 ? block.text.slice(0, 200) + '…' : block.text;
+        log(scope, 'text', 'Response text', preview);
+      }
+    }
+
+    if (result.stop_reason === 'tool_use') {
+      // Execute all tool calls; independent ones run concurrently
+      const turn = await runTurnTools(scope, result.calls);
+      if (!turn) break;
+
+      // Continue the conversation with tool results
+      currentMessages.push({ role: 'assistant', content: result.content });
+      currentMessages.push({ role: 'user', content: turn.results });
+      transcript.push(...currentMessages.slice(-2));
+
+      // Re-signal typing between tool iterations
+      post({ type: 'typing', payload: { groupId } });
+    } else {
+      // Final response — extract text
+      const text = result.content
+        .map((b) => (b.type === 'text' ? b.text : ''))
+        .join('');
+
+      // Strip internal tags (matching NanoClaw pattern)
+      const cleaned = text.replace(/<internal>[\s\S]*?<\/internal>/g, '').trim();
+
+      return { text: cleaned || '(no response)', transcript };
+    }
+  }
+
+  // The run budget is used up
+  return { text: budget.summary(), transcript };
+}
+
+// ---------------------------------------------------------------------------
+// Context compaction — ask the model to summarize the conversation
+// ---------------------------------------------------------------------------
+
+async function handleCompact(payload: CompactPayload): Promise<void> {
+  const { groupId, messages, systemPrompt, apiKey, model, maxTokens, provider, ollamaUrl, openWebUIUrl, openWebUIKey, openAIUrl, openAIKey } = payload;
+
+  post({ type: 'typing', payload: { groupId } });
+  log(groupId, 'info', 'Compacting context', `Summarizing ${messages.length} messages (${provider})`);
+
+  const compactSystemPrompt = [
+    systemPrompt,
+    '',
+    '## COMPACTION TASK',
+    '',
+    'The conversation context is getting large. Produce a concise summary of the conversation so far.',
+    'Include key facts, decisions, user preferences, and any important context.',
+    'The summary will replace the full conversation history to stay within token limits.',
+    'Be thorough but concise — aim for the essential information only.',
+  ].join('\n');
+
+  const compactMessages: ConversationMessage[] = [
+    ...messages,
+    {
+      role: 'user' as const,
+      content: 'Please provide a concise summary of our entire conversation so far. Include all key facts, decisions, code discussed, and important context. This summary will replace the full history.',
+    },
+  ];
+
+  const summaryTokens = Math.min(maxTokens, 4096);
+
+  const signal = startRun(groupId);
+  try {
+    let summary: string;
+    if (provider === 'openwebui') {
+      const endpoint = `${openWebUIUrl || '/api/openwebui'}/api/chat/completions`;
+      summary = await summarizeChatCompletions(groupId, compactMessages, compactSystemPrompt, model, summaryTokens, endpoint, openWebUIKey || '', PROVIDER_LABELS.openwebui, signal);
+    } else if (provider === 'openai') {
+      const endpoint = `${(openAIUrl || '').replace(/\/+$/, '')}/chat/completions`;
+      summary = await summarizeChatCompletions(groupId, compactMessages, compactSystemPrompt, model, summaryTokens, endpoint, openAIKey || '', PROVIDER_LABELS.openai, signal);
+    } else if (provider === 'ollama') {
+      summary = await summarizeOllama(groupId, compactMessages, compactSystemPrompt, model, summaryTokens, ollamaUrl || '/api/ollama', signal);
+    } else {
+      summary = await summarizeAnthropic(groupId, compactMessages, compactSystemPrompt, apiKey, model, summaryTokens, signal);
+    }
+
+    summary = summary.trim();
+    if (!summary) {
+      throw new Error('the model returned an empty summary');
+    }
 
     log(groupId, 'info', 'Compaction complete', `Summary: ${summary.length} chars`);
     post({ type: 'compact-done', payload: { groupId, summary } });
   } catch (err: unknown) {
+    if (signal.aborted) {
+      postCancelled(groupId);
+      return;
+    }
     const message = err instanceof Error ? err.message : String(err);
     post({ type: 'error', payload: { groupId, error: `Compaction failed: ${message}` } });
+  } finally {
+    endRun(groupId, signal);
+  }
+}
+
+/** Flatten structured content blocks into plain text for text-only chat APIs. */
+function flattenContent(content: ConversationMessage['content']): string {
+  if (typeof content === 'string') return content;
+  return content
+    .map((block) => {
+      switch (block.type) {
+        case 'text':
+          return block.text;
+        case 'tool_use':
+          return formatToolCall(block.name, block.input);
+        case 'tool_result':
+          return formatToolResult(null, block.content);
+      }
+    })
+    .join('\n\n');
+}
+
+type ChatToolCall = { id: string; type: string; function: { name: string; arguments: string } };
+type ChatMessage = { role: string; content: string | null; tool_calls?: ChatToolCall[]; tool_call_id?: string };
+
+/**
+ * Convert Anthropic-style history into chat-completions messages. Replayed
+ * tool steps become `tool_calls` and `tool` messages, or plain text when the
+ * model has no native tool calling.
+ */
+function toChatMessages(messages: ConversationMessage[], nativeTools: boolean): ChatMessage[] {
+  const out: ChatMessage[] = [];
+  for (const m of messages) {
+    if (typeof m.content === 'string' || !nativeTools) {
+      out.push({ role: m.role, content: flattenContent(m.content) });
+      continue;
+    }
+
+    const text = m.content.flatMap((b) => (b.type === 'text' ? [b.text] : [])).join('');
+    const calls: ChatToolCall[] = m.content.flatMap((b) =>
+      b.type === 'tool_use'
+        ? [{ id: b.id, type: 'function', function: { name: b.name, arguments: JSON.stringify(b.input) } }]
+        : [],
+    );
+    if (calls.length > 0) {
+      out.push({ role: 'assistant', content: text || null, tool_calls: calls });
+    } else if (text) {
+      out.push({ role: m.role, content: text });
+    }
+    for (const b of m.content) {
+      if (b.type === 'tool_result') out.push({ role: 'tool', tool_call_id: b.tool_use_id, content: b.content });
+    }
+  }
+  return out;
+}
+
+async function summarizeAnthropic(
+  groupId: string,
+  messages: ConversationMessage[],
+  systemPrompt: string,
+  apiKey: string,
+  model: string,
+  maxTokens: number,
+  signal: AbortSignal,
+): Promise<string> {
+  const res = await fetchWithRetry(groupId, 'Anthropic', ANTHROPIC_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': ANTHROPIC_API_VERSION,
+      'anthropic-dangerous-direct-browser-access': 'true',
+    },
+    body: JSON.stringify({
+      model,
+      max_tokens: maxTokens,
+      cache_control: { type: 'ephemeral' },
+      system: systemPrompt,
+      messages,
+    }),
+  }, signal);
+
+  const result = await res.json();
+  return (result.content || [])
+    .filter((b: { type: string }) => b.type === 'text')
+    .map((b: { text: string }) => b.text)
+    .join('');
+}
+
+async function summarizeChatCompletions(
+  groupId: string,
+  messages: ConversationMessage[],
+  systemPrompt: string,
+  model: string,
+  maxTokens: number,
+  endpoint: string,
+  apiKey: string,
+  label: string,
+  signal: AbortSignal,
+): Promise<string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+  const res = await fetchWithRetry(groupId, label, endpoint, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        ...messages.map((m) => ({ role: m.role, content: flattenContent(m.content) })),
+      ],
+      max_tokens: maxTokens,
+      stream: false,
+    }),
+  }, signal);
+
+  const result = await res.json();
+  return result.choices?.[0]?.message?.content || '';
+}
+
+async function summarizeOllama(
+  groupId: string,
+  messages: ConversationMessage[],
+  systemPrompt: string,
+  model: string,
+  maxTokens: number,
+  ollamaUrl: string,
+  signal: AbortSignal,
+): Promise<string> {
+  const baseUrl = ollamaUrl.replace(/\/api\/(tags|models)\/?$/, '').replace(/\/+$/, '');
+
+  const res = await fetchWithRetry(groupId, 'Ollama', `${baseUrl}/api/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        ...messages.map((m) => ({ role: m.role, content: flattenContent(m.content) })),
+      ],
+      stream: false,
+      options: { num_predict: maxTokens },
+    }),
+  }, signal);
+
+  const result = await res.json();
+  return result.message?.content || '';
+}
+
+// ---------------------------------------------------------------------------
+// Tool calls — run the independent calls of one turn concurrently
+// ---------------------------------------------------------------------------
+
+const BUILT_IN_TOOLS: ReadonlySet<string> = new Set(TOOL_DEFINITIONS.map((tool) => tool.name));
+
+/**
+ * Whether a call changes state and must run alone: the built-in tools in
+ * SERIAL_TOOLS, and MCP and custom tools unless declared read-only.
+ */
+function runsAlone(scope: AgentScope, name: string): boolean {
+  if (SERIAL_TOOLS.has(name)) return true;
+  if (BUILT_IN_TOOLS.has(name)) return false;
+  return !scope.tools.find((tool) => tool.name === name)?.readOnly;
+}
+
+/**
+ * Execute the tool calls of one model turn. Calls between two state-changing
+ * tools run concurrently, up to each tool's cap; state-changing tools run
+ * alone and in the order the model asked for them, so every call sees the
+ * same state it would have seen sequentially. Outputs come back in the
+ * order of `calls`.
+ */
+async function runToolCalls(scope: AgentScope, calls: ToolUseBlock[]): Promise<string[]> {
+  const outputs: string[] = new Array(calls.length);
+  let batch: number[] = [];
+
+  const flush = async () => {
+    const indices = batch;
+    batch = [];
+    if (indices.length === 0) return;
+    if (indices.length > 1) {
+      const names = indices.map((i) => calls[i].name).join(', ');
+      log(scope, 'info', `Running ${indices.length} tools in parallel`, names);
+    }
+
+    const byTool = new Map<string, number[]>();
+    for (const i of indices) {
+      byTool.set(calls[i].name, [...(byTool.get(calls[i].name) ?? []), i]);
+    }
+    await Promise.all(
+      [...byTool].map(([name, toolIndices]) =>
+        runPool(toolIndices, TOOL_CONCURRENCY[name] ?? DEFAULT_TOOL_CONCURRENCY, async (i) => {
+          outputs[i] = await runToolCall(scope, calls[i]);
+        }),
+      ),
+    );
+  };
+
+  for (let i = 0; i < calls.length; i++) {
+    if (runsAlone(scope, calls[i].name)) {
+      await flush();
+      outputs[i] = await runToolCall(scope, calls[i]);
+    } else {
+      batch.push(i);
+    }
+  }
+  await flush();
+
+  return outputs;
+}
+
+/** A tool call as the model sent it; `error` is set when its arguments did not parse */
+type PendingToolCall = TextToolCall & { id: string };
+
+function pendingCall(id: string, name: string, args: unknown): PendingToolCall {
+  const parsed = parseToolArguments(args);
+  return 'error' in parsed ? { id, name, input: {}, error: parsed.error } : { id, name, input: parsed.input };
+}
+
+/**
+ * Tool calls the model wrote into its text — models without native tool
+ * calling, and some that ignore the `tools` parameter, answer this way.
+ */
+function writtenToolCalls(scope: AgentScope, content: string | null | undefined): { text: string; calls: PendingToolCall[] } {
+  const parsed = parseToolCallText(content || '', scope.tools);
+  if (parsed.calls.length > 0) {
+    log(scope, 'info', 'Tool calls in text', `Parsed ${parsed.calls.length} call(s) from the response`);
+  }
+  return { text: parsed.text, calls: parsed.calls.map((call) => ({ ...call, id: ulid() })) };
+}
+
+/**
+ * Run one turn's tool calls. Calls whose arguments could not be parsed are
+ * not run: the model gets the parse error back and is asked to resend them.
+ * Returns null when the calls would exceed the run budget.
+ */
+async function runTurnTools(
+  scope: AgentScope,
+  calls: PendingToolCall[],
+): Promise<{ uses: ToolUseBlock[]; results: ToolResultBlock[] } | null> {
+  const uses: ToolUseBlock[] = calls.map(({ id, name, input }) => ({ type: 'tool_use', id, name, input }));
+  const runnable = uses.filter((_, i) => !calls[i].error);
+  if (!scope.budget.allowToolCalls(runnable)) return null;
+
+  const outputs = await runToolCalls(scope, runnable);
+  let next = 0;
+  const results: ToolResultBlock[] = calls.map((call) => {
+    if (!call.error) return { type: 'tool_result', tool_use_id: call.id, content: outputs[next++] };
+    log(scope, 'info', 'Malformed tool call', `${call.name}: ${call.error}`);
+    return {
+      type: 'tool_result',
+      tool_use_id: call.id,
+      content:
+        `Error: the arguments for ${call.name} are not valid JSON (${call.error}), so the tool was not run. ` +
+        'Send the call again with arguments that are a JSON object matching its parameters.',
+    };
+  });
+  return { uses, results };
+}
+
+/** Tool results as a user message, for models using the text protocol. */
+function formatTurnResults(turn: { uses: ToolUseBlock[]; results: ToolResultBlock[] }): string {
+  return turn.results.map((r, i) => formatToolResult(turn.uses[i].name, r.content)).join('\n\n');
+}
+
+/** Resolvers for tool calls waiting on the user, by request ID */
+const pendingApprovals = new Map<string, (approved: boolean) => void>();
+
+/**
+ * Ask the main thread to approve a tool call and wait for the decision.
+ * Rejects if the run is cancelled while waiting.
+ */
+function requestApproval(groupId: string, call: ToolUseBlock, signal: AbortSignal): Promise<boolean> {
+  signal.throwIfAborted();
+  const requestId = ulid();
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      pendingApprovals.delete(requestId);
+      reject(signal.reason);
+    };
+    pendingApprovals.set(requestId, (approved) => {
+      pendingApprovals.delete(requestId);
+      signal.removeEventListener('abort', onAbort);
+      resolve(approved);
+    });
+    signal.addEventListener('abort', onAbort, { once: true });
+    post({ type: 'tool-approval', payload: { requestId, groupId, tool: call.name, input: call.input } });
+  });
+}
+
+/** Resolvers for MCP tool calls running on the main thread, by request ID */
+const pendingMcpCalls = new Map<string, (output: string) => void>();
+
+/**
+ * Call an MCP server's tool. Connections live on the main thread, which
+ * holds the servers' credentials; this waits for its answer.
+ */
+function callMcpTool(groupId: string, tool: string, input: Record<string, unknown>, signal: AbortSignal): Promise<string> {
+  signal.throwIfAborted();
+  const requestId = ulid();
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      pendingMcpCalls.delete(requestId);
+      reject(signal.reason);
+    };
+    pendingMcpCalls.set(requestId, (output) => {
+      pendingMcpCalls.delete(requestId);
+      signal.removeEventListener('abort', onAbort);
+      resolve(output);
+    });
+    signal.addEventListener('abort', onAbort, { once: true });
+    post({ type: 'mcp-call', payload: { requestId, groupId, tool, input } });
+  });
+}
+
+/** Run `fn` over `items` with at most `limit` calls in flight. */
+async function runPool<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, async () => {
+    while (next < items.length) {
+      await fn(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+async function runToolCall(scope: AgentScope, call: ToolUseBlock): Promise<string> {
+  const { groupId, signal } = scope;
+  signal.throwIfAborted();
+  const inputPreview = JSON.stringify(call.input);
+  const inputShort = inputPreview.length > 300 ? inputPreview.slice(0, 300) + '…' : inputPreview;
+  log(scope, 'tool-call', `Tool: ${call.name}`, inputShort);
+
+  const policy = activeRuns.get(groupId)?.toolPolicies[call.name] ?? 'auto';
+  if (policy === 'deny') {
+    log(scope, 'tool-result', `Denied: ${call.name}`, 'Blocked by the tool policy');
+    return `Tool call denied: ${call.name} is disabled by the user's tool policy. Do not retry it; continue without it.`;
+  }
+  if (policy === 'ask') {
+    log(scope, 'info', 'Awaiting approval', call.name);
+    const approved = await requestApproval(groupId, call, signal);
+    if (!approved) {
+      log(scope, 'tool-result', `Denied: ${call.name}`, 'Denied by the user');
+      return `Tool call denied: the user declined to run ${call.name} with these arguments. Do not retry it unless the user asks.`;
+    }
   }
+
+  post({
+    type: 'tool-activity',
+    payload: { groupId, tool: call.name, status: 'running' },
+  });
+
+  const output = await executeTool(call.name, call.input, scope);
+
+  const outputStr = typeof output === 'string' ? output : JSON.stringify(output);
+  const outputShort = outputStr.length > 500 ? outputStr.slice(0, 500) + '…' : outputStr;
+  log(scope, 'tool-result', `Result: ${call.name}`, outputShort);
+
+  post({
+    type: 'tool-activity',
+    payload: { groupId, tool: call.name, status: 'done' },
+  });
+
+  return outputStr.slice(0, 100_000);
 }
 
 // ---------------------------------------------------------------------------
@@ -318,8 +1027,9 @@ async function compactAnthropic(
 async function executeTool(
   name: string,
   input: Record<string, unknown>,
-  groupId: string,
+  scope: AgentScope,
 ): Promise<string> {
+  const { groupId, signal } = scope;
   try {
     switch (name) {
       case 'bash': {
@@ -328,6 +1038,7 @@ async function executeTool(
           groupId,
           {},
           Math.min((input.timeout as number) || 30, 120),
+          signal,
         );
         let output = result.stdout;
         if (result.stderr) output += (output ? '\n' : '') + result.stderr;
@@ -337,32 +1048,156 @@ async function executeTool(
         return output || '(no output)';
       }
 
-      case 'read_file':
-        return await readGroupFile(groupId, input.path as string);
+      case 'read_file': {
+        const content = await readGroupFile(groupId, input.path as string);
+        const offset = input.offset as number | undefined;
+        const limit = input.limit as number | undefined;
+        const lineNumbers = (input.line_numbers as boolean | undefined) ?? (offset !== undefined || limit !== undefined);
+        if (offset === undefined && limit === undefined && !lineNumbers) return content;
+        return sliceLines(content, { offset, limit, lineNumbers });
+      }
+
+      case 'edit_file': {
+        const path = input.path as string;
+        const before = await readGroupFile(groupId, path);
+        let result: ReturnType<typeof applyEdits>;
+        try {
+          result = applyEdits(before, input.edits);
+        } catch (err: unknown) {
+          return `Error: ${err instanceof Error ? err.message : String(err)} ${path} was not changed.`;
+        }
+        await writeGroupFile(groupId, path, result.content);
+
+        const diff = unifiedDiff(before, result.content, path);
+        const { added, removed } = diffStats(diff);
+        const summary = `${result.replacements} ${result.replacements === 1 ? 'replacement' : 'replacements'}, +${added} −${removed} lines`;
+        log(scope, 'info', `Edited ${path}`, summary, { diff });
+        return `Edited ${path}: ${summary}.`;
+      }
 
       case 'write_file':
         await writeGroupFile(groupId, input.path as string, input.content as string);
         return `Written ${(input.content as string).length} bytes to ${input.path}`;
 
       case 'list_files': {
-        const entries = await listGroupFiles(groupId, (input.path as string) || '.');
-        return entries.length > 0 ? entries.join('\n') : '(empty directory)';
+        const dirPath = (input.path as string) || '.';
+        const recursive = (input.recursive as boolean | undefined) ?? false;
+        const details = (input.details as boolean | undefined) ?? recursive;
+        if (!recursive && !details) {
+          const entries = await listGroupFiles(groupId, dirPath);
+          return entries.length > 0 ? entries.join('\n') : '(empty directory)';
+        }
+        return formatEntries(await listGroupEntries(groupId, dirPath, recursive), details);
+      }
+
+      case 'delete_file': {
+        const path = input.path as string;
+        const entry = await statGroupEntry(groupId, path);
+        if (!entry) return `Error: no such file or directory: ${path}`;
+        if (entry.kind === 'file') {
+          await deleteGroupEntry(groupId, path);
+          return `Deleted ${entry.path}`;
+        }
+        const contents = await listGroupEntries(groupId, path, true);
+        if (contents.length > 0 && !input.recursive) {
+          return `Error: ${entry.path} is not empty (${contents.length} entries). Set recursive to delete it with everything in it.`;
+        }
+        await deleteGroupEntry(groupId, path, true);
+        const files = contents.filter((e) => e.kind === 'file').length;
+        return `Deleted ${entry.path}${files > 0 ? ` and the ${files} ${files === 1 ? 'file' : 'files'} in it` : ''}`;
+      }
+
+      case 'move_file':
+      case 'copy_file': {
+        const from = input.from as string;
+        const overwrite = (input.overwrite as boolean | undefined) ?? false;
+        const move = name === 'move_file';
+        try {
+          const path = await (move ? moveGroupEntry : copyGroupEntry)(groupId, from, input.to as string, overwrite);
+          return `${move ? 'Moved' : 'Copied'} ${from} to ${path}`;
+        } catch (err: unknown) {
+          const message = err instanceof Error ? err.message : String(err);
+          return `Error: ${message}${message.startsWith('Already exists') ? '. Set overwrite to replace it.' : ''}`;
+        }
+      }
+
+      case 'search_files': {
+        const globs = (value: unknown) => (value === undefined ? [] : Array.isArray(value) ? value.map(String) : [String(value)]);
+        try {
+          return await searchFiles(groupId, {
+            pattern: input.pattern as string,
+            literal: input.literal as boolean | undefined,
+            ignoreCase: input.ignore_case as boolean | undefined,
+            path: input.path as string | undefined,
+            include: globs(input.include),
+            exclude: globs(input.exclude),
+            context: input.context as number | undefined,
+            maxResults: input.max_results as number | undefined,
+          }, signal);
+        } catch (err: unknown) {
+          if (signal.aborted) throw err;
+          return `Error: ${err instanceof Error ? err.message : String(err)}`;
+        }
       }
 
       case 'fetch_url': {
-        const fetchRes = await fetch(input.url as string, {
-          method: (input.method as string) || 'GET',
-          headers: input.headers as Record<string, string> | undefined,
-          body: input.body as string | undefined,
-        });
+        const policy = scope.payload.networkPolicy;
+        let url = new URL(input.url as string);
+        let method = ((input.method as string) || 'GET').toUpperCase();
+        let body = input.body as string | undefined;
+        const blocked = checkRequest(url, method, policy);
+        if (blocked) return `Error: request blocked — ${blocked}.`;
+
+        // With a policy or stored credentials, redirects are followed here
+        // rather than by the browser: each target is checked before it is
+        // requested, and every hop only gets its own host's credentials.
+        const checkRedirects = policyRestricts(policy) || (scope.payload.credentials?.length ?? 0) > 0;
+        let fetchRes: Response;
+        let relayed: boolean;
+        for (let redirects = 0; ; redirects++) {
+          // Stored credentials win over headers the model sent
+          const credential = credentialFor(url, scope.payload.credentials);
+          const headers = new Headers(input.headers as Record<string, string> | undefined);
+          for (const [name, value] of Object.entries(credential?.headers ?? {})) headers.set(name, value);
+          if (credential) log(scope, 'info', 'Credentials', `Attached stored headers for ${credential.host}`);
+
+          ({ res: fetchRes, relayed } = await sendFetch(scope, url, {
+            method,
+            headers,
+            body,
+            redirect: checkRedirects ? 'manual' : 'follow',
+            signal,
+          }));
+          if (fetchRes.type === 'opaqueredirect') {
+            return `Error: ${url.host} answered with a redirect. The browser hides where it leads, so it cannot be checked against the network policy and stored credentials — fetch the final URL directly.`;
+          }
+          // The relay reports redirects instead of passing them on, so they are always followed here
+          const status = (relayed && Number(fetchRes.headers.get('x-relay-status'))) || fetchRes.status;
+          const location = relayed
+            ? fetchRes.headers.get('x-relay-location')
+            : status >= 300 && status < 400 ? fetchRes.headers.get('location') : null;
+          if (!location || !(checkRedirects || relayed)) break;
+
+          if (redirects >= FETCH_MAX_REDIRECTS) return `Error: gave up after ${FETCH_MAX_REDIRECTS} redirects (last: ${url.href}).`;
+          const next = new URL(location, url);
+          if (status === 303 || ((status === 301 || status === 302) && method === 'POST')) {
+            method = 'GET';
+            body = undefined;
+          }
+          const blockedRedirect = checkRequest(next, method, policy);
+          if (blockedRedirect) return `Error: ${url.href} redirected to ${next.href}, which is blocked — ${blockedRedirect}.`;
+          url = next;
+        }
+        const pageUrl = fetchRes.redirected ? fetchRes.url : url.href;
         const rawText = await fetchRes.text();
         const contentType = fetchRes.headers.get('content-type') || '';
-        const status = `[HTTP ${fetchRes.status}]\n`;
+        const status = `[HTTP ${fetchRes.status}${relayed ? ' via relay' : ''}]\n`;
 
-        // Strip HTML to reduce token usage
-        let body = rawText;
-        if (contentType.includes('html') || rawText.trimStart().startsWith('<')) {
-          body = stripHtml(rawText);
+        // HTML pages come back as their main content in Markdown, or their links, unless raw HTML is asked for
+        const format = (input.format as string) || 'markdown';
+        const isHtml = contentType.includes('html') || (!contentType.includes('xml') && /^\s*<(!doctype html|html)/i.test(rawText));
+        if (isHtml && format !== 'html') {
+          return status + formatPage(rawText, pageUrl, format === 'links');
         }
 
         // If the response looks like JSON with a `prices` array, generate a sparkline
@@ -382,7 +1217,7 @@ async function executeTool(
           // ignore parse errors
         }
 
-        return status + body.slice(0, FETCH_MAX_RESPONSE) + extra;
+        return status + truncate(rawText, FETCH_MAX_RESPONSE) + extra;
       }
 
       case 'read_memory': {
@@ -428,25 +1263,24 @@ async function executeTool(
         return `Task created successfully.\nSchedule: ${taskData.schedule}\nPrompt: ${taskData.prompt}`;
       }
 
-      case 'javascript': {
-        try {
-          // Indirect eval: (0, eval)(...) runs in global scope and
-          // naturally returns the value of the last expression —
-          // no explicit `return` needed.
-          const code = input.code as string;
-          const result = (0, eval)(`"use strict";\n${code}`);
-          if (result === undefined) return '(no return value)';
-          if (result === null) return 'null';
-          if (typeof result === 'object') {
-            try { return JSON.stringify(result, null, 2); } catch { /* fall through */ }
-          }
-          return String(result);
-        } catch (err: unknown) {
-          return `JavaScript error: ${err instanceof Error ? err.message : String(err)}`;
-        }
-      }
+      case 'javascript':
+        return await runJavaScript(
+          input.code as string,
+          Math.min((input.timeout as number) || JS_SANDBOX_DEFAULT_TIMEOUT, JS_SANDBOX_MAX_TIMEOUT),
+          signal,
+        );
+
+      case 'delegate':
+        return await runDelegate(scope, input);
 
       default:
+        if (scope.payload.mcpTools?.some((tool) => tool.name === name)) {
+          return await callMcpTool(groupId, name, input, signal);
+        }
+        // Any other tool in scope is defined in the group's workspace
+        if (scope.tools.some((tool) => tool.name === name)) {
+          return await runCustomTool(groupId, name, input, scope.payload.networkPolicy, signal);
+        }
         return `Unknown tool: ${name}`;
     }
   } catch (err: unknown) {
@@ -455,11 +1289,55 @@ async function executeTool(
 }
 
 // ---------------------------------------------------------------------------
-// Convert Anthropic tools to OpenAI-compatible format for Ollama/OpenWebUI
+// Sub-agents — the delegate tool
+// ---------------------------------------------------------------------------
+
+const SUB_AGENT_PROMPT = [
+  'You are a sub-agent working on one task for another agent.',
+  'You cannot ask questions: make reasonable assumptions and state them.',
+  'Use your tools as needed. When you are done, reply with a complete, self-contained report — it is the only part of your work the other agent sees.',
+].join('\n');
+
+/**
+ * Run a task in a sub-agent: a fresh conversation with its own system
+ * prompt, a subset of the caller's tools and a budget carved from the
+ * caller's. It uses the caller's provider and tool loop; only its final
+ * report comes back.
+ */
+async function runDelegate(scope: AgentScope, input: Record<string, unknown>): Promise<string> {
+  const task = typeof input.task === 'string' ? input.task.trim() : '';
+  if (!task) return 'Error: delegate needs a "task" describing the work.';
+
+  const requested = Array.isArray(input.tools) ? input.tools.map(String) : null;
+  const agentPath = [...scope.agentPath, ulid()];
+  const tools = scope.tools.filter((tool) =>
+    (!requested || requested.includes(tool.name)) &&
+    (tool.name !== 'delegate' || agentPath.length < MAX_DELEGATE_DEPTH),
+  );
+
+  const sub: AgentScope = {
+    ...scope,
+    tools,
+    agentPath,
+    budget: scope.budget.child({ groupId: scope.groupId, agentPath }, DELEGATE_RUN_BUDGET),
+    transcript: [],
+  };
+  const instructions = typeof input.instructions === 'string' ? input.instructions.trim() : '';
+  const systemPrompt = instructions ? `${SUB_AGENT_PROMPT}\n\n${instructions}` : SUB_AGENT_PROMPT;
+
+  log(sub, 'info', 'Sub-agent started', task);
+  log(sub, 'info', 'Tools', tools.length > 0 ? tools.map((t) => t.name).join(', ') : 'none');
+  const { text } = await invokeProvider(sub, [{ role: 'user', content: task }], systemPrompt);
+  log(sub, 'info', 'Sub-agent finished', `${sub.budget.iterations} model call(s) · ${text.length} chars`);
+  return text;
+}
+
+// ---------------------------------------------------------------------------
+// Convert Anthropic tools to OpenAI-compatible format for Ollama/OpenWebUI/OpenAI
 // ---------------------------------------------------------------------------
 
-function toOpenAITools(): { type: 'function'; function: { name: string; description: string; parameters: object } }[] {
-  return TOOL_DEFINITIONS.map(tool => ({
+function toOpenAITools(tools: ToolDefinition[]): { type: 'function'; function: { name: string; description: string; parameters: object } }[] {
+  return tools.map(tool => ({
     type: 'function' as const,
     function: {
       name: tool.name,
@@ -469,155 +1347,126 @@ function toOpenAITools(): { type: 'function'; function: { name: string; descript
   }));
 }
 
+/** Models without native tool calling get the tools described in the system prompt instead. */
+function withToolProtocol(systemPrompt: string, capabilities: ModelCapabilities, tools: ToolDefinition[]): string {
+  return capabilities.tools ? systemPrompt : `${systemPrompt}\n\n${buildToolProtocolPrompt(tools)}`;
+}
+
 // ---------------------------------------------------------------------------
-// Open WebUI provider handler
+// OpenAI chat-completions handler (Open WebUI and OpenAI-compatible servers)
 // ---------------------------------------------------------------------------
 
-async function handleOpenWebUIInvoke(
-  groupId: string,
+async function handleChatCompletionsInvoke(
+  scope: AgentScope,
   messages: ConversationMessage[],
   systemPrompt: string,
   model: string,
   maxTokens: number,
-  openWebUIUrl: string,
-  apiKey: string
-): Promise<void> {
-  try {
-    type OpenAIMessage = { role: string; content: string | null; tool_calls?: { id: string; type: string; function: { name: string; arguments: string } }[] };
-    const openAIMessages: OpenAIMessage[] = [
-      { role: 'system', content: systemPrompt },
-      ...messages.map((m) => ({
-        role: m.role,
-        content: typeof m.content === 'string' ? m.content : JSON.stringify(m.content),
-      })),
-    ];
-
-    const tools = toOpenAITools();
-    let iterations = 0;
-    const maxIterations = 25;
-
-    while (iterations < maxIterations) {
-      iterations++;
-
-      log(groupId, 'api-call', `OpenWebUI call #${iterations}`, `${openAIMessages.length} messages`);
-
-      const res = await fetch(`${openWebUIUrl}/api/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model,
-          messages: openAIMessages,
-          max_tokens: maxTokens,
-          tools,
-        }),
-      });
-
-      if (!res.ok) {
-        const errBody = await res.text();
-        throw new Error(`OpenWebUI API error ${res.status}: ${errBody}`);
-      }
-
-      const result = await res.json();
-      const message = result.choices?.[0]?.message;
-
-      if (!message) {
-        throw new Error('No message in response');
-      }
-
-      // Emit token usage if available
-      if (result.usage) {
-        post({
-          type: 'token-usage',
-          payload: {
-            groupId,
-            inputTokens: result.usage.prompt_tokens || 0,
-            outputTokens: result.usage.completion_tokens || 0,
-            cacheReadTokens: 0,
-            cacheCreationTokens: 0,
-            contextLimit: getContextLimit(model),
-          },
-        });
-      }
-
-      const toolCalls = message.tool_calls;
-
-      if (toolCalls && toolCalls.length > 0) {
-        // Execute tool calls
-        const toolResults: { tool_call_id: string; role: string; content: string }[] = [];
-
-        for (const tc of toolCalls) {
-          const toolName = tc.function.name;
-          // Arguments can be a string or already an object
-          const toolArgs = typeof tc.function.arguments === 'string'
-            ? JSON.parse(tc.function.arguments)
-            : tc.function.arguments;
-
-          const inputPreview = JSON.stringify(toolArgs);
-          const inputShort = inputPreview.length > 300 ? inputPreview.slice(0, 300) + '…' : inputPreview;
-          log(groupId, 'tool-call', `Tool: ${toolName}`, inputShort);
-
-          post({
-            type: 'tool-activity',
-            payload: { groupId, tool: toolName, status: 'running' },
-          });
-
-          const output = await executeTool(toolName, toolArgs, groupId);
-
-          const outputStr = typeof output === 'string' ? output : JSON.stringify(output);
-          const outputShort = outputStr.length > 500 ? outputStr.slice(0, 500) + '…' : outputStr;
-          log(groupId, 'tool-result', `Result: ${toolName}`, outputShort);
-
-          post({
-            type: 'tool-activity',
-            payload: { groupId, tool: toolName, status: 'done' },
-          });
+  capabilities: ModelCapabilities,
+  endpoint: string,
+  apiKey: string,
+  provider: Provider,
+): Promise<InvokeResult> {
+  const { groupId, signal, budget } = scope;
+  const label = PROVIDER_LABELS[provider];
+  const openAIMessages: ChatMessage[] = [
+    { role: 'system', content: withToolProtocol(systemPrompt, capabilities, scope.tools) },
+    ...toChatMessages(messages, capabilities.tools),
+  ];
+  const transcript = scope.transcript;
+
+  // Models without native tool calling reject requests that carry tools
+  const tools = capabilities.tools ? toOpenAITools(scope.tools) : undefined;
+  while (budget.nextIteration()) {
+    signal.throwIfAborted();
+
+    log(scope, 'api-call', `${label} call #${budget.iterations}`, `${openAIMessages.length} messages`);
+
+    // Local servers (LM Studio, llama.cpp) usually run without a key
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const res = await fetchWithRetry(scope, label, endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: openAIMessages,
+        max_tokens: maxTokens,
+        tools,
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+    }, signal);
 
-          toolResults.push({
-            tool_call_id: tc.id,
-            role: 'tool',
-            content: outputStr.slice(0, 100_000),
-          });
-        }
+    const result = await readOpenAIStream(res, scope);
+    const message = result.choices?.[0]?.message;
 
-        // Add assistant message with tool_calls and tool results to conversation
-        openAIMessages.push({
-          role: 'assistant',
-          content: message.content || null,
-          tool_calls: toolCalls,
-        });
+    if (!message) {
+      throw new Error('No message in response');
+    }
 
-        for (const tr of toolResults) {
-          openAIMessages.push(tr as OpenAIMessage);
-        }
+    // Emit token usage if available
+    if (result.usage) {
+      reportUsage(scope, {
+        groupId,
+        inputTokens: result.usage.prompt_tokens || 0,
+        outputTokens: result.usage.completion_tokens || 0,
+        cacheReadTokens: 0,
+        cacheCreationTokens: 0,
+        contextLimit: capabilities.contextWindow,
+        provider,
+        model,
+      });
+    }
 
-        // Re-signal typing between tool iterations
-        post({ type: 'typing', payload: { groupId } });
-      } else {
-        // No tool calls - return final response
-        const responseText = message.content || '';
-        const preview = responseText.length > 200 ? responseText.slice(0, 200) + '…' : responseText;
-        log(groupId, 'text', 'Response', preview);
+    const toolCalls = message.tool_calls;
+    const written = toolCalls?.length ? null : writtenToolCalls(scope, message.content);
+
+    if (toolCalls && toolCalls.length > 0) {
+      // Execute tool calls; independent ones run concurrently
+      const turn = await runTurnTools(
+        scope,
+        toolCalls.map((tc) => pendingCall(tc.id, tc.function.name, tc.function.arguments)),
+      );
+      if (!turn) break;
+
+      // Add assistant message with tool_calls and tool results to conversation
+      openAIMessages.push({
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: toolCalls,
+      });
 
-        post({ type: 'response', payload: { groupId, text: responseText || '(no response)' } });
-        return;
+      for (const r of turn.results) {
+        openAIMessages.push({ role: 'tool', tool_call_id: r.tool_use_id, content: r.content });
       }
+      transcript.push(...toolStep(message.content, turn.uses, turn.results));
+
+      // Re-signal typing between tool iterations
+      post({ type: 'typing', payload: { groupId } });
+    } else if (written && written.calls.length > 0) {
+      const turn = await runTurnTools(scope, written.calls);
+      if (!turn) break;
+
+      // Text protocol: the calls stay in the assistant's text, results come back as a user message
+      openAIMessages.push({ role: 'assistant', content: message.content });
+      openAIMessages.push({ role: 'user', content: formatTurnResults(turn) });
+      transcript.push(...toolStep(written.text, turn.uses, turn.results));
+
+      post({ type: 'typing', payload: { groupId } });
+    } else {
+      // No tool calls - return final response
+      const responseText = message.content || '';
+      const preview = responseText.length > 200 ? responseText.slice(0, 200) + '…' : responseText;
+      log(scope, 'text', 'Response', preview);
+
+      return { text: responseText || '(no response)', transcript };
     }
-
-    // Max iterations reached
-    post({
-      type: 'response',
-      payload: {
-        groupId,
-        text: '⚠️ Reached maximum tool-use iterations (25). Stopping to avoid excessive API usage.',
-      },
-    });
-  } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : String(err);
-    post({ type: 'error', payload: { groupId, error: message } });
   }
+
+  // The run budget is used up
+  return { text: budget.summary(), transcript };
 }
 
 // ---------------------------------------------------------------------------
@@ -625,152 +1474,294 @@ async function handleOpenWebUIInvoke(
 // ---------------------------------------------------------------------------
 
 async function handleOllamaInvoke(
-  groupId: string,
+  scope: AgentScope,
   messages: ConversationMessage[],
   systemPrompt: string,
   model: string,
   maxTokens: number,
-  ollamaUrl: string
-): Promise<void> {
-  try {
-    type OllamaMessage = { role: string; content: string; tool_calls?: { id: string; function: { name: string; arguments: string } }[] };
-    // Convert messages to Ollama format
-    const ollamaMessages: OllamaMessage[] = [
-      { role: 'system', content: systemPrompt },
-      ...messages.map(m => ({
-        role: m.role,
-        content: typeof m.content === 'string' ? m.content : JSON.stringify(m.content),
+  capabilities: ModelCapabilities,
+  ollamaUrl: string,
+): Promise<InvokeResult> {
+  const { groupId, signal, budget } = scope;
+  type OllamaMessage = { role: string; content: string; tool_calls?: { id?: string; function: { name: string; arguments: string | Record<string, unknown> } }[] };
+  // Convert messages to Ollama format — tool arguments are objects, not JSON strings
+  const ollamaMessages: OllamaMessage[] = [
+    { role: 'system', content: withToolProtocol(systemPrompt, capabilities, scope.tools) },
+    ...toChatMessages(messages, capabilities.tools).map((m) => ({
+      role: m.role,
+      content: m.content ?? '',
+      tool_calls: m.tool_calls?.map((tc) => ({
+        function: { name: tc.function.name, arguments: JSON.parse(tc.function.arguments) },
       })),
-    ];
+    })),
+  ];
+  const transcript = scope.transcript;
 
-    // Clean up ollamaUrl in case the user provided /api/tags or /api/models
-    const baseUrl = ollamaUrl.replace(/\/api\/(tags|models)\/?$/, '').replace(/\/+$/, '');
-    const tools = toOpenAITools();
+  // Clean up ollamaUrl in case the user provided /api/tags or /api/models
+  const baseUrl = ollamaUrl.replace(/\/api\/(tags|models)\/?$/, '').replace(/\/+$/, '');
+  // Models without native tool calling reject requests that carry tools
+  const tools = capabilities.tools ? toOpenAITools(scope.tools) : undefined;
 
-    let iterations = 0;
-    const maxIterations = 25;
+  while (budget.nextIteration()) {
+    signal.throwIfAborted();
 
-    while (iterations < maxIterations) {
-      iterations++;
+    log(scope, 'api-call', `Ollama call #${budget.iterations}`, `${ollamaMessages.length} messages`);
 
-      log(groupId, 'api-call', `Ollama call #${iterations}`, `${ollamaMessages.length} messages`);
+    const res = await fetchWithRetry(scope, 'Ollama', `${baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        messages: ollamaMessages,
+        stream: true,
+        tools,
+        options: { num_predict: maxTokens },
+      }),
+    }, signal);
+
+    const result = await readOllamaStream(res, scope);
+    const message = result.message;
+
+    if (!message) {
+      throw new Error('No message in response');
+    }
 
-      const res = await fetch(`${baseUrl}/api/chat`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model,
-          messages: ollamaMessages,
-          stream: false,
-          tools,
-          options: { num_predict: maxTokens },
-        }),
+    // Emit token usage if available
+    if (typeof result.prompt_eval_count === 'number') {
+      reportUsage(scope, {
+        groupId,
+        inputTokens: result.prompt_eval_count || 0,
+        outputTokens: result.eval_count || 0,
+        cacheReadTokens: 0,
+        cacheCreationTokens: 0,
+        contextLimit: capabilities.contextWindow,
+        provider: 'ollama',
+        model,
       });
+    }
 
-      if (!res.ok) {
-        const errBody = await res.text();
-        throw new Error(`Ollama API error ${res.status}: ${errBody}`);
-      }
-
-      const result = await res.json();
-      const message = result.message;
+    const toolCalls = message.tool_calls;
+    const written = toolCalls?.length ? null : writtenToolCalls(scope, message.content);
+
+    if (toolCalls && toolCalls.length > 0) {
+      // Execute tool calls; independent ones run concurrently.
+      // Ollama doesn't always assign call IDs; the transcript needs them to pair results
+      const turn = await runTurnTools(
+        scope,
+        toolCalls.map((tc) => pendingCall(tc.id || ulid(), tc.function.name, tc.function.arguments)),
+      );
+      if (!turn) break;
+
+      // Add assistant message with tool_calls and tool results to conversation
+      ollamaMessages.push({
+        role: 'assistant',
+        content: message.content || '',
+        tool_calls: toolCalls,
+      });
 
-      if (!message) {
-        throw new Error('No message in response');
+      for (const r of turn.results) {
+        ollamaMessages.push({ role: 'tool', content: r.content });
       }
+      transcript.push(...toolStep(message.content, turn.uses, turn.results));
 
-      // Emit token usage if available
-      if (typeof result.prompt_eval_count === 'number') {
-        post({
-          type: 'token-usage',
-          payload: {
-            groupId,
-            inputTokens: result.prompt_eval_count || 0,
-            outputTokens: result.eval_count || 0,
-            cacheReadTokens: 0,
-            cacheCreationTokens: 0,
-            contextLimit: getContextLimit(model),
-          },
-        });
-      }
+      // Re-signal typing between tool iterations
+      post({ type: 'typing', payload: { groupId } });
+    } else if (written && written.calls.length > 0) {
+      const turn = await runTurnTools(scope, written.calls);
+      if (!turn) break;
 
-      const toolCalls = message.tool_calls;
+      // Text protocol: the calls stay in the assistant's text, results come back as a user message
+      ollamaMessages.push({ role: 'assistant', content: message.content || '' });
+      ollamaMessages.push({ role: 'user', content: formatTurnResults(turn) });
+      transcript.push(...toolStep(written.text, turn.uses, turn.results));
 
-      if (toolCalls && toolCalls.length > 0) {
-        // Execute tool calls
-        const toolResults: { role: string; content: string }[] = [];
+      post({ type: 'typing', payload: { groupId } });
+    } else {
+      // No tool calls - return final response
+      const responseText = message.content || '';
 
-        for (const tc of toolCalls) {
-          const toolName = tc.function.name;
-          // Arguments can be a string or already an object
-          const toolArgs = typeof tc.function.arguments === 'string'
-            ? JSON.parse(tc.function.arguments)
-            : tc.function.arguments;
+      // Log the response
+      const preview = responseText.length > 200 ? responseText.slice(0, 200) + '…' : responseText;
+      log(scope, 'text', 'Response', preview);
 
-          const inputPreview = JSON.stringify(toolArgs);
-          const inputShort = inputPreview.length > 300 ? inputPreview.slice(0, 300) + '…' : inputPreview;
-          log(groupId, 'tool-call', `Tool: ${toolName}`, inputShort);
+      return { text: responseText || '(no response)', transcript };
+    }
+  }
 
-          post({
-            type: 'tool-activity',
-            payload: { groupId, tool: toolName, status: 'running' },
-          });
+  // The run budget is used up
+  return { text: budget.summary(), transcript };
+}
 
-          const output = await executeTool(toolName, toolArgs, groupId);
+// ---------------------------------------------------------------------------
+// Streaming — reassemble provider streams into their non-streaming shapes
+// ---------------------------------------------------------------------------
+//
+// Each reader posts `response-delta` events as text arrives and returns an
+// object shaped like the provider's regular JSON body, so the tool-use loops
+// above don't need to know whether the response was streamed.
+
+function emitDelta(scope: AgentScope, text: string): void {
+  // Sub-agents work out of sight; only their final report reaches the chat
+  if (scope.agentPath.length > 0) return;
+  const { groupId } = scope;
+  const run = activeRuns.get(groupId);
+  if (run) run.partial += text;
+  post({ type: 'response-delta', payload: { groupId, text } });
+}
 
-          const outputStr = typeof output === 'string' ? output : JSON.stringify(output);
-          const outputShort = outputStr.length > 500 ? outputStr.slice(0, 500) + '…' : outputStr;
-          log(groupId, 'tool-result', `Result: ${toolName}`, outputShort);
+/** Split a response body into lines (handles \r\n and partial chunks). */
+async function* readLines(res: Response): AsyncGenerator<string> {
+  if (!res.body) throw new Error('Response has no body to stream');
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      yield buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+    }
+  }
+  if (buffer) yield buffer;
+}
 
-          post({
-            type: 'tool-activity',
-            payload: { groupId, tool: toolName, status: 'done' },
-          });
+/** Yield the `data:` payload of each server-sent event. */
+async function* readSSE(res: Response): AsyncGenerator<string> {
+  let data: string[] = [];
+  for await (const line of readLines(res)) {
+    if (line === '') {
+      if (data.length > 0) yield data.join('\n');
+      data = [];
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+  if (data.length > 0) yield data.join('\n');
+}
 
-          toolResults.push({
-            role: 'tool',
-            content: outputStr.slice(0, 100_000),
-          });
+/** Anthropic Messages API SSE (`stream: true`). */
+async function readAnthropicStream(res: Response, scope: AgentScope) {
+  const content: (Extract<ContentBlock, { type: 'text' }> | ToolUseBlock)[] = [];
+  const partialJson: Record<number, string> = {};
+  const calls: PendingToolCall[] = [];
+  const usage: Record<string, number> = {};
+  let stopReason: string | null = null;
+
+  for await (const data of readSSE(res)) {
+    const event = JSON.parse(data);
+    switch (event.type) {
+      case 'message_start':
+        Object.assign(usage, event.message?.usage);
+        break;
+      case 'content_block_start':
+        content[event.index] = { ...event.content_block };
+        if (event.content_block.type === 'tool_use') partialJson[event.index] = '';
+        break;
+      case 'content_block_delta': {
+        const block = content[event.index];
+        if (event.delta.type === 'text_delta' && block?.type === 'text') {
+          block.text += event.delta.text;
+          emitDelta(scope, event.delta.text);
+        } else if (event.delta.type === 'input_json_delta') {
+          partialJson[event.index] += event.delta.partial_json;
         }
-
-        // Add assistant message with tool_calls and tool results to conversation
-        ollamaMessages.push({
-          role: 'assistant',
-          content: message.content || '',
-          tool_calls: toolCalls,
-        });
-
-        for (const tr of toolResults) {
-          ollamaMessages.push(tr);
+        break;
+      }
+      case 'content_block_stop': {
+        const block = content[event.index];
+        if (block?.type === 'tool_use') {
+          // Arguments that don't parse go back to the model instead of failing the run
+          const call = pendingCall(block.id, block.name, partialJson[event.index]);
+          block.input = call.input;
+          calls.push(call);
         }
+        break;
+      }
+      case 'message_delta':
+        stopReason = event.delta?.stop_reason ?? stopReason;
+        Object.assign(usage, event.usage);
+        break;
+      case 'error':
+        // Overload mid-stream can't be retried in place, but another provider may answer
+        throw new ProviderError(
+          `Anthropic stream error: ${event.error?.message || data}`,
+          event.error?.type === 'overloaded_error',
+        );
+    }
+  }
 
-        // Re-signal typing between tool iterations
-        post({ type: 'typing', payload: { groupId } });
-      } else {
-        // No tool calls - return final response
-        const responseText = message.content || '';
-
-        // Log the response
-        const preview = responseText.length > 200 ? responseText.slice(0, 200) + '…' : responseText;
-        log(groupId, 'text', 'Response', preview);
+  return { content: content.filter(Boolean), calls, stop_reason: stopReason, usage };
+}
 
-        post({ type: 'response', payload: { groupId, text: responseText || '(no response)' } });
-        return;
-      }
+/** OpenAI-style chat-completion chunks (OpenWebUI). */
+async function readOpenAIStream(res: Response, scope: AgentScope) {
+  let text = '';
+  const toolCalls: { id: string; type: string; function: { name: string; arguments: string } }[] = [];
+  let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+
+  for await (const data of readSSE(res)) {
+    if (data === '[DONE]') break;
+    const chunk = JSON.parse(data);
+    if (chunk.error) throw new Error(chunk.error.message || JSON.stringify(chunk.error));
+    if (chunk.usage) usage = chunk.usage;
+
+    const delta = chunk.choices?.[0]?.delta;
+    if (!delta) continue;
+    if (delta.content) {
+      text += delta.content;
+      emitDelta(scope, delta.content);
     }
+    for (const tc of delta.tool_calls ?? []) {
+      const idx = tc.index ?? toolCalls.length;
+      const call = toolCalls[idx] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+      if (tc.id) call.id = tc.id;
+      if (tc.function?.name) call.function.name += tc.function.name;
+      if (tc.function?.arguments) call.function.arguments += tc.function.arguments;
+    }
+  }
 
-    // Max iterations reached
-    post({
-      type: 'response',
-      payload: {
-        groupId,
-        text: '⚠️ Reached maximum tool-use iterations (25). Stopping to avoid excessive API usage.',
+  const calls = toolCalls.filter(Boolean);
+  return {
+    choices: [{
+      message: {
+        role: 'assistant',
+        content: text || null,
+        tool_calls: calls.length > 0 ? calls : undefined,
       },
-    });
-  } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : String(err);
-    post({ type: 'error', payload: { groupId, error: message } });
+    }],
+    usage,
+  };
+}
+
+/** Ollama `/api/chat` NDJSON stream. */
+async function readOllamaStream(res: Response, scope: AgentScope) {
+  let text = '';
+  const toolCalls: { id: string; function: { name: string; arguments: string } }[] = [];
+  let final: { prompt_eval_count?: number; eval_count?: number } = {};
+
+  for await (const line of readLines(res)) {
+    if (!line.trim()) continue;
+    const chunk = JSON.parse(line);
+    if (chunk.error) throw new Error(`Ollama stream error: ${chunk.error}`);
+    const part = chunk.message;
+    if (part?.content) {
+      text += part.content;
+      emitDelta(scope, part.content);
+    }
+    if (part?.tool_calls) toolCalls.push(...part.tool_calls);
+    if (chunk.done) final = chunk;
   }
+
+  return {
+    ...final,
+    message: {
+      role: 'assistant',
+      content: text,
+      tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+    },
+  };
 }
 
 // ---------------------------------------------------------------------------
@@ -782,9 +1773,31 @@ function post(message: WorkerOutbound): void {
 }
 
 /**
- * Extract readable text from HTML, stripping tags, scripts, styles, and
- * collapsing whitespace.  Runs in the worker (no DOM), so we use regex.
+ * Send a fetch_url request, retrying it through the fetch relay when the
+ * browser blocks it (CORS) and a relay is configured. Only GET and HEAD are
+ * retried: a blocked response may still have been processed by the server,
+ * and sending a write twice could repeat it.
  */
+async function sendFetch(scope: AgentScope, url: URL, init: RequestInit): Promise<{ res: Response; relayed: boolean }> {
+  try {
+    return { res: await fetch(url, init), relayed: false };
+  } catch (err: unknown) {
+    // CORS and network failures both reject with a bare TypeError
+    const relay = scope.payload.relay;
+    if (scope.signal.aborted || !relay || !(err instanceof TypeError)) throw err;
+    const method = (init.method || 'GET').toUpperCase();
+    if (method !== 'GET' && method !== 'HEAD') {
+      throw new Error(
+        `${method} ${url.host} failed (${err.message}), probably blocked by CORS. ` +
+        'The fetch relay was not used because the server may already have processed the request; check before sending it again.',
+      );
+    }
+    log(scope, 'info', 'Fetch relay', `Direct request to ${url.host} failed (${err.message}) — retrying through ${relay.url}`);
+    const request = relayRequest(relay, url, new Headers(init.headers));
+    return { res: await fetch(request.url, { ...init, headers: request.headers }), relayed: true };
+  }
+}
+
 /**
  * Generate a simple unicode sparkline for an array of numbers.
  * Uses the eight-block characters ▁▂▃▄▅▆▇█ to represent relative heights.
@@ -803,41 +1816,39 @@ function makeSparkline(values: number[]): string {
     .join('');
 }
 
-function stripHtml(html: string): string {
-  let text = html;
-  // Remove script/style/noscript blocks entirely
-  text = text.replace(/<(script|style|noscript|svg|head)[^>]*>[\s\S]*?<\/\1>/gi, '');
-  // Remove HTML comments
-  text = text.replace(/<!--[\s\S]*?-->/g, '');
-  // Remove all tags
-  text = text.replace(/<[^>]+>/g, ' ');
-  // Decode common HTML entities
-  text = text.replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&nbsp;/g, ' ')
-    .replace(/&#\d+;/g, '');
-  // Collapse whitespace
-  text = text.replace(/[ \t]+/g, ' ').replace(/\n\s*\n/g, '\n').trim();
-  return text;
+/** Title, metadata and either the main content as Markdown or the outgoing links of a page */
+function formatPage(html: string, pageUrl: string, linksOnly: boolean): string {
+  const page = extractPage(html, pageUrl);
+  const header = [
+    page.title && `Title: ${page.title}`,
+    `URL: ${page.url}`,
+    ...Object.entries(page.metadata).map(([key, value]) => `${key}: ${value}`),
+  ].filter(Boolean).join('\n');
+
+  if (linksOnly) {
+    const links = page.links.map((link) => `- [${link.text || link.url}](${link.url})`).join('\n');
+    return `${header}\n\n${page.links.length} links:\n${truncate(links, FETCH_MAX_RESPONSE)}`;
+  }
+  return `${header}\n\n${truncate(page.markdown || '(no readable content)', FETCH_MAX_RESPONSE)}`;
 }
 
-/** Map model names to their context window limits (tokens). */
-function getContextLimit(_model: string): number {
-  // The actual session context window — 200k tokens for Claude Sonnet/Opus.
-  return 200_000;
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}\n\n...(truncated, ${text.length - max} more characters)` : text;
 }
 
+/** A group's main agent, or an agent in it; sub-agents' entries carry their path */
+type LogTarget = string | Pick<AgentScope, 'groupId' | 'agentPath'>;
+
 function log(
-  groupId: string,
+  target: LogTarget,
   kind: ThinkingLogEntry['kind'],
   label: string,
   detail?: string,
+  extra?: Pick<ThinkingLogEntry, 'diff'>,
 ): void {
+  const { groupId, agentPath } = typeof target === 'string' ? { groupId: target, agentPath: [] } : target;
   post({
     type: 'thinking-log',
-    payload: { groupId, kind, timestamp: Date.now(), label, detail },
+    payload: { groupId, kind, timestamp: Date.now(), label, detail, ...extra, ...(agentPath.length > 0 && { agentPath }) },
   });
 }
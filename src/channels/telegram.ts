@@ -2,7 +2,7 @@
 // OpenWebClaw — Telegram Bot API Channel
 // ---------------------------------------------------------------------------
 
-import type { Channel, InboundMessage } from '../types.js';
+import type { Channel, InboundMessage, ToolApprovalRequest } from '../types.js';
 import {
   TELEGRAM_API_BASE,
   TELEGRAM_MAX_LENGTH,
@@ -10,6 +10,12 @@ import {
 } from '../config.js';
 
 type MessageCallback = (msg: InboundMessage) => void;
+type StopCallback = (groupId: string) => void;
+/** Answers an approval prompt from a chat; returns whether the answer was taken */
+type ApprovalCallback = (requestId: string, approved: boolean, groupId: string) => boolean;
+
+/** Longest tool input shown in an approval prompt */
+const APPROVAL_INPUT_PREVIEW = 1500;
 
 /**
  * Telegram channel using the Bot API via fetch().
@@ -22,6 +28,8 @@ export class TelegramChannel implements Channel {
   private offset = 0;
   private abortController: AbortController | null = null;
   private messageCallback: MessageCallback | null = null;
+  private stopCallback: StopCallback | null = null;
+  private approvalCallback: ApprovalCallback | null = null;
   private running = false;
 
   /**
@@ -85,6 +93,26 @@ export class TelegramChannel implements Channel {
     }
   }
 
+  /**
+   * Ask the chat to approve a tool call with inline Approve / Deny buttons.
+   * Sent as plain text — tool arguments would break Markdown parsing.
+   */
+  async requestApproval(request: ToolApprovalRequest): Promise<void> {
+    const chatId = request.groupId.replace(/^tg:/, '');
+    const input = JSON.stringify(request.input, null, 2);
+    const preview = input.length > APPROVAL_INPUT_PREVIEW ? input.slice(0, APPROVAL_INPUT_PREVIEW) + '…' : input;
+    await this.apiCall('sendMessage', {
+      chat_id: chatId,
+      text: `🔐 Approve tool call?\n\nTool: ${request.tool}\n${preview}`,
+      reply_markup: {
+        inline_keyboard: [[
+          { text: '✅ Approve', callback_data: `approve:${request.requestId}` },
+          { text: '❌ Deny', callback_data: `deny:${request.requestId}` },
+        ]],
+      },
+    });
+  }
+
   /**
    * Send a typing indicator.
    */
@@ -105,6 +133,20 @@ export class TelegramChannel implements Channel {
     this.messageCallback = callback;
   }
 
+  /**
+   * Register callback for the /stop command (cancel the running agent).
+   */
+  onStop(callback: StopCallback): void {
+    this.stopCallback = callback;
+  }
+
+  /**
+   * Register callback for answers to approval prompts.
+   */
+  onApproval(callback: ApprovalCallback): void {
+    this.approvalCallback = callback;
+  }
+
   /**
    * Check if the channel is configured and running.
    */
@@ -149,6 +191,11 @@ export class TelegramChannel implements Channel {
   }
 
   private handleUpdate(update: TelegramUpdate): void {
+    if (update.callback_query) {
+      this.handleCallbackQuery(update.callback_query);
+      return;
+    }
+
     const msg = update.message;
     if (!msg) return;
 
@@ -190,6 +237,12 @@ Whitelist: \`${Array.from(this.registeredChatIds).join(', ') || '(empty)'}\``,
     // Ignore unregistered chats
     if (!this.registeredChatIds.has(chatId)) return;
 
+    // Handle /stop command — cancel the in-flight agent run for this chat
+    if (msg.text === '/stop') {
+      this.stopCallback?.(`tg:${chatId}`);
+      return;
+    }
+
     // Extract message content
     const content =
       msg.text ||
@@ -216,6 +269,36 @@ Whitelist: \`${Array.from(this.registeredChatIds).join(', ') || '(empty)'}\``,
     });
   }
 
+  private handleCallbackQuery(query: TelegramCallbackQuery): void {
+    const chatId = query.message ? String(query.message.chat.id) : '';
+    const match = query.data?.match(/^(approve|deny):(.+)$/);
+    if (!match || !this.registeredChatIds.has(chatId)) {
+      this.apiCall('answerCallbackQuery', { callback_query_id: query.id }).catch(console.error);
+      return;
+    }
+
+    const approved = match[1] === 'approve';
+    if (!this.approvalCallback?.(match[2], approved, `tg:${chatId}`)) {
+      // Already decided, or the request belongs to another chat
+      this.apiCall('answerCallbackQuery', {
+        callback_query_id: query.id,
+        text: 'This request is no longer waiting for an answer here',
+      }).catch(console.error);
+      return;
+    }
+    this.apiCall('answerCallbackQuery', {
+      callback_query_id: query.id,
+      text: approved ? 'Approved' : 'Denied',
+    }).catch(console.error);
+
+    // Replace the buttons with the decision so the prompt can't be answered twice
+    this.apiCall('editMessageText', {
+      chat_id: chatId,
+      message_id: query.message!.message_id,
+      text: `${query.message!.text ?? ''}\n\n${approved ? '✅ Approved' : '❌ Denied'}`,
+    }).catch(console.error);
+  }
+
   private async apiCall(method: string, body: Record<string, unknown>): Promise<unknown> {
     const res = await fetch(`${TELEGRAM_API_BASE}${this.token}/${method}`, {
       method: 'POST',
@@ -264,6 +347,13 @@ function sleep(ms: number): Promise<void> {
 interface TelegramUpdate {
   update_id: number;
   message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+}
+
+interface TelegramCallbackQuery {
+  id: string;
+  data?: string;
+  message?: TelegramMessage;
 }
 
 interface TelegramMessage {
@@ -5,7 +5,7 @@
 import { useState, useEffect, useRef } from 'react';
 import {
   Link, Wrench, ClipboardList, MessageSquare, Info,
-  ChevronDown, ChevronUp, X, TerminalSquare, Zap,
+  ChevronDown, ChevronUp, ChevronRight, X, TerminalSquare, Zap, Bot, Route,
 } from 'lucide-react';
 import type { LucideIcon } from 'lucide-react';
 import type { ThinkingLogEntry } from '../../types.js';
@@ -32,6 +32,9 @@ const kindLabel: Record<string, string> = {
   'info':        'info',
 };
 
+/** Label of the entry logged when fetch_url falls back to the fetch relay */
+const RELAY_LABEL = 'Fetch relay';
+
 function formatTime(ts: number): string {
   return new Date(ts).toLocaleTimeString([], {
     hour: '2-digit',
@@ -40,9 +43,152 @@ function formatTime(ts: number): string {
   });
 }
 
+/** An entry, or a sub-agent with the entries it logged, in the order they started */
+type LogNode =
+  | { type: 'entry'; entry: ThinkingLogEntry; index: number }
+  | { type: 'agent'; id: string; children: LogNode[] };
+
+/** Nest entries under the sub-agents that logged them, following `agentPath`. */
+function buildTree(entries: ThinkingLogEntry[]): LogNode[] {
+  const root: LogNode[] = [];
+  const agents = new Map<string, LogNode[]>();
+  entries.forEach((entry, index) => {
+    let list = root;
+    for (const id of entry.agentPath ?? []) {
+      let children = agents.get(id);
+      if (!children) {
+        children = [];
+        agents.set(id, children);
+        list.push({ type: 'agent', id, children });
+      }
+      list = children;
+    }
+    list.push({ type: 'entry', entry, index });
+  });
+  return root;
+}
+
+/** Entries directly in a sub-agent node, not in its own sub-agents */
+function ownEntries(nodes: LogNode[]): ThinkingLogEntry[] {
+  return nodes.flatMap((node) => (node.type === 'entry' ? [node.entry] : []));
+}
+
+interface LogNodesProps {
+  nodes: LogNode[];
+  expandedDetails: Set<number>;
+  onToggleDetail: (index: number) => void;
+  openAgents: Set<string>;
+  onToggleAgent: (id: string) => void;
+}
+
+function LogNodes({ nodes, ...props }: LogNodesProps) {
+  return (
+    <>
+      {nodes.map((node) =>
+        node.type === 'entry' ? (
+          <LogEntryCard
+            key={node.index}
+            entry={node.entry}
+            isExpanded={props.expandedDetails.has(node.index)}
+            onToggle={() => props.onToggleDetail(node.index)}
+          />
+        ) : (
+          <SubAgentNode key={node.id} node={node} {...props} />
+        ),
+      )}
+    </>
+  );
+}
+
+function SubAgentNode({ node, ...props }: { node: Extract<LogNode, { type: 'agent' }> } & Omit<LogNodesProps, 'nodes'>) {
+  const own = ownEntries(node.children);
+  const task = own.find((e) => e.label === 'Sub-agent started')?.detail ?? 'Sub-agent';
+  const done = own.some((e) => e.label === 'Sub-agent finished');
+  const steps = own.filter((e) => e.kind === 'api-call' || e.kind === 'tool-call').length;
+  const isOpen = props.openAgents.has(node.id);
+
+  return (
+    <div className="rounded-lg border border-base-300/30 text-xs">
+      <button
+        className="w-full flex items-center gap-2 px-2.5 py-2 text-left hover:bg-base-200/50 transition-colors rounded-lg"
+        onClick={() => props.onToggleAgent(node.id)}
+      >
+        {isOpen
+          ? <ChevronDown className="w-3 h-3 shrink-0 text-base-content/50" />
+          : <ChevronRight className="w-3 h-3 shrink-0 text-base-content/50" />}
+        <Bot className="w-3.5 h-3.5 shrink-0 text-base-content/60" />
+        <span className="font-medium truncate text-base-content/80" title={task}>{task}</span>
+        <span className="ml-auto text-[10px] text-base-content/40 shrink-0 flex items-center gap-1">
+          {!done && <span className="loading loading-spinner loading-xs" />}
+          {steps} {steps === 1 ? 'step' : 'steps'}
+        </span>
+      </button>
+      {isOpen && (
+        <div className="ml-3 pl-2 pr-1 pb-1.5 border-l border-base-300/60 space-y-1">
+          <LogNodes nodes={node.children} {...props} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function LogEntryCard({ entry, isExpanded, onToggle }: { entry: ThinkingLogEntry; isExpanded: boolean; onToggle: () => void }) {
+  const KindIcon = entry.label === RELAY_LABEL ? Route : kindIcons[entry.kind] || Info;
+  const label    = entry.label === RELAY_LABEL ? 'relay' : kindLabel[entry.kind] || entry.kind;
+  const hasLong  = (entry.detail?.length ?? 0) > 100;
+
+  return (
+    <div className="rounded-lg bg-base-200/50 border border-base-300/30 px-2.5 py-2 text-xs">
+      <div className="flex items-start gap-2">
+        {/* icon */}
+        <div className="mt-0.5 shrink-0 w-5 h-5 rounded-md bg-base-300/60 flex items-center justify-center">
+          <KindIcon className="w-3 h-3 text-base-content/60" />
+        </div>
+
+        <div className="flex-1 min-w-0">
+          {/* top row: kind pill + label + timestamp */}
+          <div className="flex items-center gap-1.5 mb-0.5">
+            <span className="rounded px-1 py-0 bg-base-300/70 text-[9px] font-mono uppercase text-base-content/50 leading-4 shrink-0">
+              {label}
+            </span>
+            <span className="font-medium truncate text-base-content/80">{entry.label}</span>
+            <span className="ml-auto text-[10px] text-base-content/30 shrink-0">
+              {formatTime(entry.timestamp)}
+            </span>
+          </div>
+
+          {/* detail */}
+          {entry.detail && (
+            <div>
+              <div
+                className={`font-mono text-[10px] text-base-content/50 break-all leading-relaxed ${
+                  hasLong && !isExpanded ? 'line-clamp-2' : ''
+                }`}
+              >
+                {entry.detail}
+              </div>
+              {hasLong && (
+                <button
+                  className="mt-0.5 flex items-center gap-0.5 text-[10px] text-base-content/40 hover:text-base-content/70 transition-colors"
+                  onClick={onToggle}
+                >
+                  {isExpanded
+                    ? <><ChevronUp className="w-3 h-3" /> less</>
+                    : <><ChevronDown className="w-3 h-3" /> more</>}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export function ActivityLog({ entries }: Props) {
   const [isOpen, setIsOpen]                   = useState(false);
   const [expandedDetails, setExpandedDetails] = useState<Set<number>>(new Set());
+  const [openAgents, setOpenAgents]           = useState<Set<string>>(new Set());
   const scrollRef                             = useRef<HTMLDivElement>(null);
 
   // Auto-scroll to bottom on new entries
@@ -60,6 +206,14 @@ export function ActivityLog({ entries }: Props) {
     });
   }
 
+  function toggleAgent(id: string) {
+    setOpenAgents(prev => {
+      const next = new Set(prev);
+      next.has(id) ? next.delete(id) : next.add(id);
+      return next;
+    });
+  }
+
   // ── Collapsed toggle button ──────────────────────────────────────────────
   if (!isOpen) {
     return (
@@ -81,6 +235,8 @@ export function ActivityLog({ entries }: Props) {
   // ── Open panel ───────────────────────────────────────────────────────────
   const apiCalls  = entries.filter(e => e.kind === 'api-call').length;
   const toolCalls = entries.filter(e => e.kind === 'tool-call').length;
+  const relayed   = entries.filter(e => e.label === RELAY_LABEL).length;
+  const tree      = buildTree(entries);
 
   return (
     <div className="fixed right-4 top-14 bottom-4 w-80 sm:w-96 z-50 flex flex-col">
@@ -111,6 +267,12 @@ export function ActivityLog({ entries }: Props) {
             <Wrench className="w-3 h-3" />
             {toolCalls} {toolCalls === 1 ? 'tool' : 'tools'}
           </span>
+          {relayed > 0 && (
+            <span className="flex items-center gap-1">
+              <Route className="w-3 h-3" />
+              {relayed} relayed
+            </span>
+          )}
           <span className="ml-auto">{entries.length} total</span>
         </div>
 
@@ -125,62 +287,13 @@ export function ActivityLog({ entries }: Props) {
               <p className="text-xs">No activity yet</p>
             </div>
           ) : (
-            entries.map((entry, idx) => {
-              const KindIcon     = kindIcons[entry.kind] || Info;
-              const label        = kindLabel[entry.kind]  || entry.kind;
-              const isExpanded   = expandedDetails.has(idx);
-              const hasLong      = (entry.detail?.length ?? 0) > 100;
-
-              return (
-                <div
-                  key={idx}
-                  className="rounded-lg bg-base-200/50 border border-base-300/30 px-2.5 py-2 text-xs"
-                >
-                  <div className="flex items-start gap-2">
-                    {/* icon */}
-                    <div className="mt-0.5 shrink-0 w-5 h-5 rounded-md bg-base-300/60 flex items-center justify-center">
-                      <KindIcon className="w-3 h-3 text-base-content/60" />
-                    </div>
-
-                    <div className="flex-1 min-w-0">
-                      {/* top row: kind pill + label + timestamp */}
-                      <div className="flex items-center gap-1.5 mb-0.5">
-                        <span className="rounded px-1 py-0 bg-base-300/70 text-[9px] font-mono uppercase text-base-content/50 leading-4 shrink-0">
-                          {label}
-                        </span>
-                        <span className="font-medium truncate text-base-content/80">{entry.label}</span>
-                        <span className="ml-auto text-[10px] text-base-content/30 shrink-0">
-                          {formatTime(entry.timestamp)}
-                        </span>
-                      </div>
-
-                      {/* detail */}
-                      {entry.detail && (
-                        <div>
-                          <div
-                            className={`font-mono text-[10px] text-base-content/50 break-all leading-relaxed ${
-                              hasLong && !isExpanded ? 'line-clamp-2' : ''
-                            }`}
-                          >
-                            {entry.detail}
-                          </div>
-                          {hasLong && (
-                            <button
-                              className="mt-0.5 flex items-center gap-0.5 text-[10px] text-base-content/40 hover:text-base-content/70 transition-colors"
-                              onClick={() => toggleDetail(idx)}
-                            >
-                              {isExpanded
-                                ? <><ChevronUp className="w-3 h-3" /> less</>
-                                : <><ChevronDown className="w-3 h-3" /> more</>}
-                            </button>
-                          )}
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              );
-            })
+            <LogNodes
+              nodes={tree}
+              expandedDetails={expandedDetails}
+              onToggleDetail={toggleDetail}
+              openAgents={openAgents}
+              onToggleAgent={toggleAgent}
+            />
           )}
         </div>
       </div>
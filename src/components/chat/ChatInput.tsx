@@ -7,10 +7,11 @@ import { ArrowUp, Square } from 'lucide-react';
 
 interface Props {
   onSend: (text: string) => void;
+  onStop: () => void;
   disabled: boolean;
 }
 
-export function ChatInput({ onSend, disabled }: Props) {
+export function ChatInput({ onSend, onStop, disabled }: Props) {
   const [text, setText] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -60,8 +61,9 @@ export function ChatInput({ onSend, disabled }: Props) {
           {disabled ? (
             <button
               className="w-9 h-9 flex items-center justify-center rounded-full bg-base-content text-base-100 hover:opacity-80 transition-opacity"
-              disabled
-              aria-label="Thinking"
+              onClick={onStop}
+              aria-label="Stop generating"
+              title="Stop"
             >
               <Square className="w-4 h-4 fill-current" />
             </button>
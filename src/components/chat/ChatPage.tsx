@@ -4,8 +4,9 @@
 
 import { useEffect, useRef } from 'react';
 import { X, MessageSquare, Globe, MapPin, GitBranch, Cpu, Wrench, RefreshCw, Send } from 'lucide-react';
-import { useOrchestratorStore } from '../../stores/orchestrator-store.js';
+import { getOrchestrator, useOrchestratorStore } from '../../stores/orchestrator-store.js';
 import { MessageList } from './MessageList.js';
+import { MessageBubble } from './MessageBubble.js';
 import { ChatInput } from './ChatInput.js';
 import { TypingIndicator } from './TypingIndicator.js';
 import { ToolActivity } from './ToolActivity.js';
@@ -90,12 +91,15 @@ const PIPELINE_STEPS = [
 export function ChatPage() {
   const messages = useOrchestratorStore((s) => s.messages);
   const isTyping = useOrchestratorStore((s) => s.isTyping);
+  const streamingText = useOrchestratorStore((s) => s.streamingText);
+  const activeGroupId = useOrchestratorStore((s) => s.activeGroupId);
   const toolActivity = useOrchestratorStore((s) => s.toolActivity);
   const activityLog = useOrchestratorStore((s) => s.activityLog);
-  const orchState = useOrchestratorStore((s) => s.state);
+  const orchState = useOrchestratorStore((s) => s.groupStates[s.activeGroupId] ?? 'idle');
   const tokenUsage = useOrchestratorStore((s) => s.tokenUsage);
   const error = useOrchestratorStore((s) => s.error);
   const sendMessage = useOrchestratorStore((s) => s.sendMessage);
+  const stop = useOrchestratorStore((s) => s.stop);
   const loadHistory = useOrchestratorStore((s) => s.loadHistory);
 
   const bottomRef = useRef<HTMLDivElement>(null);
@@ -103,7 +107,7 @@ export function ChatPage() {
   // Scroll to bottom on new messages
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isTyping]);
+  }, [messages, isTyping, streamingText]);
 
   // Load history on mount
   useEffect(() => {
@@ -174,12 +178,29 @@ export function ChatPage() {
           <MessageList messages={messages} />
 
           {activityLog
-            .filter((e) => e.kind === 'tool-call' || e.kind === 'tool-result' || e.kind === 'api-call')
+            .filter((e) => e.groupId === activeGroupId && !e.agentPath)
+            .filter((e) => e.kind === 'tool-call' || e.kind === 'tool-result' || e.kind === 'api-call' || e.diff)
             .map((entry, idx) => (
               <LogBubble key={`${idx}-${entry.timestamp}`} entry={entry} />
             ))}
 
-          {isTyping && <TypingIndicator />}
+          {streamingText && (
+            <MessageBubble
+              streaming
+              message={{
+                id: 'streaming',
+                groupId: activeGroupId,
+                sender: getOrchestrator().getAssistantName(),
+                content: streamingText,
+                timestamp: Date.now(),
+                channel: 'browser',
+                isFromMe: true,
+                isTrigger: false,
+              }}
+            />
+          )}
+
+          {isTyping && !streamingText && <TypingIndicator />}
           {toolActivity && (
             <ToolActivity tool={toolActivity.tool} status={toolActivity.status} />
           )}
@@ -214,6 +235,7 @@ export function ChatPage() {
         {/* Input */}
         <ChatInput
           onSend={sendMessage}
+          onStop={stop}
           disabled={orchState !== 'idle'}
         />
       </div>
@@ -14,7 +14,8 @@ function formatTokens(n: number): string {
 }
 
 export function ContextBar({ usage }: Props) {
-  const total = usage.inputTokens + usage.outputTokens;
+  const total =
+    usage.inputTokens + usage.cacheReadTokens + usage.cacheCreationTokens + usage.outputTokens;
   const pct = Math.min((total / usage.contextLimit) * 100, 100);
 
   let colorClass = 'bg-success';
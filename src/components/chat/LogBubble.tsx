@@ -1,4 +1,4 @@
-import { Wrench, ClipboardList, ChevronDown, ChevronUp, TerminalSquare, Info, Link, Zap } from 'lucide-react';
+import { Wrench, ClipboardList, ChevronDown, ChevronUp, TerminalSquare, Info, Link, Zap, FilePen } from 'lucide-react';
 import { useState } from 'react';
 import type { ThinkingLogEntry } from '../../types.js';
 
@@ -6,8 +6,62 @@ interface Props {
     entry: ThinkingLogEntry;
 }
 
+/** A unified diff with added and removed lines coloured */
+function DiffView({ diff }: { diff: string }) {
+    return (
+        <pre className="p-3 bg-base-300/20 max-h-80 overflow-auto text-[11px] font-mono leading-relaxed scrollbar-thin">
+            {diff.split('\n').map((line, i) => {
+                const tone = line.startsWith('+++') || line.startsWith('---')
+                    ? 'text-base-content/40'
+                    : line.startsWith('@@')
+                        ? 'text-info/70'
+                        : line.startsWith('+')
+                            ? 'bg-success/10 text-success'
+                            : line.startsWith('-')
+                                ? 'bg-error/10 text-error'
+                                : 'text-base-content/70';
+                return <div key={i} className={`whitespace-pre ${tone}`}>{line || ' '}</div>;
+            })}
+        </pre>
+    );
+}
+
 export function LogBubble({ entry }: Props) {
     const [isExpanded, setIsExpanded] = useState(false);
+    const [showDiff, setShowDiff] = useState(true);
+
+    if (entry.diff) {
+        return (
+            <div className="flex w-full py-1 bg-base-100 group animate-in fade-in slide-in-from-bottom-2 duration-300">
+                <div className="flex w-full max-w-3xl mx-auto px-4 gap-4">
+                    <div className="flex-shrink-0 w-8 h-8 flex items-center justify-center opacity-30">
+                        <FilePen className="w-4 h-4" />
+                    </div>
+                    <div className="flex-1 min-w-0 flex flex-col">
+                        <div className="inline-flex flex-col gap-1 w-full max-w-2xl px-4 py-2 bg-base-200/30 rounded-2xl border border-base-300/40 text-[13px]">
+                            <button
+                                onClick={() => setShowDiff(!showDiff)}
+                                className="flex items-center gap-2 text-base-content/40 font-medium text-[10px] uppercase tracking-wider"
+                            >
+                                <FilePen className="w-3 h-3" />
+                                <span>
+                                    File Edit:
+                                    <span className="text-base-content/70 ml-1 normal-case">{entry.label.replace(/^Edited /, '')}</span>
+                                </span>
+                                {entry.detail && <span className="normal-case tracking-normal text-base-content/40">{entry.detail}</span>}
+                                {showDiff ? <ChevronUp className="w-3 h-3 ml-auto" /> : <ChevronDown className="w-3 h-3 ml-auto" />}
+                            </button>
+                            {showDiff && (
+                                <div className="mt-1 rounded-xl overflow-hidden border border-base-300/50 shadow-inner">
+                                    <DiffView diff={entry.diff} />
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        );
+    }
 
     if (entry.kind === 'info' || entry.kind === 'text') return null;
 
@@ -6,7 +6,7 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeRaw from 'rehype-raw';
 import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
-import { FileText, Bot, User, Copy, Check, Edit2, RefreshCw, ThumbsUp, ThumbsDown } from 'lucide-react';
+import { FileText, Bot, User, Copy, Check, Edit2, RefreshCw, ThumbsUp, ThumbsDown, ChevronLeft, ChevronRight } from 'lucide-react';
 import type { StoredMessage } from '../../types.js';
 import { useOrchestratorStore } from '../../stores/orchestrator-store.js';
 import { useFileViewerStore } from '../../stores/file-viewer-store.js';
@@ -54,19 +54,24 @@ const sanitizeSchema = {
 
 interface Props {
   message: StoredMessage;
+  /** True while the text is still arriving from the provider */
+  streaming?: boolean;
 }
 
 function formatTime(ts: number): string {
   return new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 }
 
-export function MessageBubble({ message }: Props) {
+export function MessageBubble({ message, streaming = false }: Props) {
   const isAssistant = message.isFromMe;
   const senderName = isAssistant ? getSenderName(message) : 'You';
   const [copied, setCopied] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editContent, setEditContent] = useState(message.content);
   const editMessage = useOrchestratorStore((s) => s.editMessage);
+  const regenerate = useOrchestratorStore((s) => s.regenerate);
+  const siblings = useOrchestratorStore((s) => s.branches[message.id]);
+  const busy = useOrchestratorStore((s) => (s.groupStates[message.groupId] ?? 'idle') !== 'idle');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   useEffect(() => {
@@ -133,6 +138,7 @@ export function MessageBubble({ message }: Props) {
           {/* Header */}
           <div className="flex items-center gap-2 mb-1">
             <span className="font-semibold text-sm text-base-content">{senderName}</span>
+            {streaming && <span className="loading loading-dots loading-xs text-base-content/40" />}
           </div>
 
           {/* Message Content */}
@@ -251,35 +257,45 @@ export function MessageBubble({ message }: Props) {
           </div>
 
           {/* Action Buttons */}
-          <div className={`flex items-center gap-1 mt-2 ${isEditing ? 'hidden' : 'opacity-0 group-hover:opacity-100 transition-opacity'}`}>
-            {isAssistant ? (
-              <>
+          <div className={`flex items-center gap-1 mt-2 ${isEditing || streaming ? 'hidden' : ''}`}>
+            {siblings && <BranchSwitcher messageId={message.id} siblings={siblings} disabled={busy} />}
+            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              {isAssistant ? (
+                <>
+                  <button
+                    onClick={handleCopy}
+                    className="p-1.5 text-base-content/50 hover:text-base-content hover:bg-base-200 rounded-md transition-colors"
+                    title="Copy"
+                  >
+                    {copied ? <Check className="w-4 h-4 text-success" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                  {!message.isSummary && (
+                    <button
+                      onClick={() => regenerate(message.id)}
+                      disabled={busy}
+                      className="p-1.5 text-base-content/50 hover:text-base-content hover:bg-base-200 rounded-md transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                      title="Regenerate"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button className="p-1.5 text-base-content/50 hover:text-base-content hover:bg-base-200 rounded-md transition-colors" title="Good response">
+                    <ThumbsUp className="w-4 h-4" />
+                  </button>
+                  <button className="p-1.5 text-base-content/50 hover:text-base-content hover:bg-base-200 rounded-md transition-colors" title="Bad response">
+                    <ThumbsDown className="w-4 h-4" />
+                  </button>
+                </>
+              ) : (
                 <button
-                  onClick={handleCopy}
+                  onClick={handleEdit}
                   className="p-1.5 text-base-content/50 hover:text-base-content hover:bg-base-200 rounded-md transition-colors"
-                  title="Copy"
+                  title="Edit"
                 >
-                  {copied ? <Check className="w-4 h-4 text-success" /> : <Copy className="w-4 h-4" />}
-                </button>
-                <button className="p-1.5 text-base-content/50 hover:text-base-content hover:bg-base-200 rounded-md transition-colors" title="Regenerate">
-                  <RefreshCw className="w-4 h-4" />
-                </button>
-                <button className="p-1.5 text-base-content/50 hover:text-base-content hover:bg-base-200 rounded-md transition-colors" title="Good response">
-                  <ThumbsUp className="w-4 h-4" />
-                </button>
-                <button className="p-1.5 text-base-content/50 hover:text-base-content hover:bg-base-200 rounded-md transition-colors" title="Bad response">
-                  <ThumbsDown className="w-4 h-4" />
+                  <Edit2 className="w-4 h-4" />
                 </button>
-              </>
-            ) : (
-              <button
-                onClick={handleEdit}
-                className="p-1.5 text-base-content/50 hover:text-base-content hover:bg-base-200 rounded-md transition-colors"
-                title="Edit"
-              >
-                <Edit2 className="w-4 h-4" />
-              </button>
-            )}
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -287,6 +303,36 @@ export function MessageBubble({ message }: Props) {
   );
 }
 
+// "< 2/3 >" switcher between the versions of a message
+function BranchSwitcher({ messageId, siblings, disabled }: { messageId: string; siblings: string[]; disabled: boolean }) {
+  const switchBranch = useOrchestratorStore((s) => s.switchBranch);
+  const index = siblings.indexOf(messageId);
+  const buttonClass =
+    'p-1 text-base-content/50 hover:text-base-content hover:bg-base-200 rounded-md transition-colors disabled:opacity-30 disabled:pointer-events-none';
+
+  return (
+    <div className="flex items-center text-xs text-base-content/60 mr-1">
+      <button
+        onClick={() => switchBranch(siblings[index - 1])}
+        disabled={disabled || index <= 0}
+        className={buttonClass}
+        title="Previous version"
+      >
+        <ChevronLeft className="w-4 h-4" />
+      </button>
+      <span className="tabular-nums">{index + 1}/{siblings.length}</span>
+      <button
+        onClick={() => switchBranch(siblings[index + 1])}
+        disabled={disabled || index >= siblings.length - 1}
+        className={buttonClass}
+        title="Next version"
+      >
+        <ChevronRight className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
 // Clickable inline file link that opens the global file viewer
 function FileLink({ path }: { path: string }) {
   const openFile = useFileViewerStore((s) => s.openFile);
@@ -0,0 +1,46 @@
+// ---------------------------------------------------------------------------
+// OpenWebClaw — Tool approval modal
+// ---------------------------------------------------------------------------
+
+import { ShieldAlert } from 'lucide-react';
+import { useOrchestratorStore } from '../../stores/orchestrator-store.js';
+
+/**
+ * Asks the user to approve a tool call the agent paused on. Shown on every
+ * page; requests are answered one at a time, oldest first.
+ */
+export function ToolApprovalModal() {
+  const request = useOrchestratorStore((s) => s.pendingApprovals[0]);
+  const queued = useOrchestratorStore((s) => s.pendingApprovals.length);
+  const resolveApproval = useOrchestratorStore((s) => s.resolveApproval);
+
+  if (!request) return null;
+
+  return (
+    <dialog className="modal modal-open">
+      <div className="modal-box max-w-lg border border-base-300 shadow-xl rounded-2xl">
+        <h3 className="font-semibold text-lg flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5" /> Approve tool call?
+        </h3>
+        <p className="pt-3 text-sm text-base-content/70">
+          The assistant wants to run <span className="font-mono font-semibold">{request.tool}</span> in{' '}
+          <span className="font-mono">{request.groupId}</span>.
+        </p>
+        <pre className="mt-3 max-h-64 overflow-auto rounded-lg bg-base-200 p-3 text-xs whitespace-pre-wrap break-all">
+          {JSON.stringify(request.input, null, 2)}
+        </pre>
+        {queued > 1 && (
+          <p className="pt-2 text-xs text-base-content/50">{queued - 1} more waiting</p>
+        )}
+        <div className="modal-action">
+          <button className="btn btn-ghost" onClick={() => resolveApproval(request.requestId, false)}>
+            Deny
+          </button>
+          <button className="btn btn-primary" onClick={() => resolveApproval(request.requestId, true)}>
+            Approve
+          </button>
+        </div>
+      </div>
+    </dialog>
+  );
+}
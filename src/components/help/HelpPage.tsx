@@ -10,6 +10,7 @@ import {
   Layers,
   ShieldCheck,
   CalendarClock,
+  BarChart3,
   FolderOpen,
   Send,
   Zap,
@@ -126,8 +127,8 @@ export function HelpPage() {
         <Section icon={MessageSquare} title="Getting Started">
           <ol className="list-decimal list-inside space-y-2">
             <li>
-              Open <strong>Settings</strong> and choose your AI provider (Anthropic, Ollama, or
-              OpenWebUI).
+              Open <strong>Settings</strong> and choose your AI provider (Anthropic, Ollama,
+              OpenWebUI, or any OpenAI-compatible server).
             </li>
             <li>Paste your API key or base URL for the chosen provider.</li>
             <li>Pick a model from the dropdown (or type one manually).</li>
@@ -146,6 +147,7 @@ export function HelpPage() {
           <table className="w-full text-left">
             <tbody>
               <Row label="Streaming" desc="Responses appear word-by-word as the model generates them." />
+              <Row label="Edit & Regenerate" desc="Editing a message or regenerating a reply starts a new branch; the original is kept. Switch between versions with the < 1/2 > arrows under the message." />
               <Row label="Minimize Overhead" desc="Summarizes the current conversation to reduce token usage while preserving context." />
               <Row label="Clean" desc="Clears all messages and starts a fresh session." />
               <Row label="Activity Panel" desc="Shows real-time agent thinking, tool calls, and API events. Click the terminal icon (bottom-right)." />
@@ -169,27 +171,43 @@ export function HelpPage() {
               />
               <Row
                 label="javascript"
-                desc="Evaluates arbitrary JS in a sandboxed iframe context for quick computations, data transformations, or browser API access."
+                desc="Evaluates JS in a disposable sandbox worker for quick computations and data transformations. No network, storage or workspace access; console output is captured, buffers are capped at 512 MB per run and runs are stopped after a timeout."
               />
               <Row
                 label="read_file"
-                desc="Reads a file from the OPFS workspace by path."
+                desc="Reads a file from the OPFS workspace by path — all of it, or a range of lines with line numbers."
               />
               <Row
                 label="write_file"
                 desc="Writes or overwrites a file in the OPFS workspace."
               />
+              <Row
+                label="edit_file"
+                desc="Changes part of a file by exact string replacement, several edits at a time. An edit whose text is missing or matches more than once is refused and nothing changes. Each edit shows as a diff in the chat."
+              />
               <Row
                 label="list_files"
-                desc="Lists files and directories inside the workspace."
+                desc="Lists files and directories inside the workspace — one directory, or everything below it with file sizes and modification times."
+              />
+              <Row
+                label="delete_file"
+                desc="Deletes a file or directory. A directory that still has files in it is only deleted when the agent asks for a recursive delete."
+              />
+              <Row
+                label="move_file / copy_file"
+                desc="Moves, renames or copies a file or a whole directory. Nothing at the destination is replaced unless the agent asks to overwrite it."
               />
               <Row
                 label="search_files"
-                desc="Searches file contents with a text or regex pattern."
+                desc="Searches every file in the workspace, subdirectories included, for a regex or literal text, with glob filters for which files to look in. Returns paths with line numbers and optional context lines."
+              />
+              <Row
+                label="fetch_url"
+                desc="Fetches a URL (subject to CORS). HTML pages come back as Markdown — title, metadata and the main content with its links, without navigation and ads — or, on request, as raw HTML or just the page's links."
               />
               <Row
-                label="http_request"
-                desc="Fetches a URL and returns the response body (subject to CORS)."
+                label="delegate"
+                desc="Hands a subtask to a sub-agent with a fresh context, its own instructions, a subset of the tools and a smaller budget. Only its final report comes back; its steps appear nested in the Activity panel."
               />
             </tbody>
           </table>
@@ -197,6 +215,43 @@ export function HelpPage() {
             The agent decides which tools to invoke automatically based on your request. You can see
             every tool call in the Activity panel.
           </p>
+          <p className="text-xs text-base-content/50 mt-2">
+            Under <strong>Settings → Tool Permissions</strong> each tool can run automatically, ask first or
+            never run — for all chats or for a single chat. "Ask first" pauses the agent until you approve the
+            call in the browser, or with the inline buttons in Telegram.
+          </p>
+          <p className="text-xs text-base-content/50 mt-2">
+            Each run is limited by a budget of model calls, tokens, seconds and tool calls, set under{' '}
+            <strong>Settings → Run Budgets</strong>. Scheduled tasks get a stricter default. When a run hits a
+            limit it stops with a summary of what it used; reply to let it continue.
+          </p>
+          <p className="text-xs text-base-content/50 mt-2">
+            <strong>Settings → Network Access</strong> limits the hosts and HTTP methods the agent may fetch,
+            for all chats or one chat; blocked requests come back to the model as errors. API tokens go under{' '}
+            <strong>Settings → Site Credentials</strong>: their headers are stored encrypted and added to
+            HTTPS requests for that host, so the model never sees them and you never paste them into the chat.
+          </p>
+          <p className="text-xs text-base-content/50 mt-2">
+            Many sites refuse requests from a browser page (CORS). If the server runs the fetch relay — set{' '}
+            <code>FETCH_RELAY_SECRET</code> and <code>FETCH_RELAY_HOSTS</code> for the Docker image or the dev
+            server — enable it under <strong>Settings → Fetch Relay</strong> with the same secret. Blocked
+            requests are then retried through the server, and the Activity panel marks them as relayed.
+          </p>
+          <p className="text-xs text-base-content/50 mt-2">
+            You — or the agent — can add tools to a chat by putting two files in its workspace:{' '}
+            <code>tools/&lt;name&gt;.js</code>, a module whose <code>export default</code> function receives the
+            input and returns the result, and <code>tools/&lt;name&gt;.json</code> with a{' '}
+            <code>description</code> and an <code>input_schema</code>. They are checked at the start of every run
+            (problems show in the Activity panel), and each call runs in a separate, locked-down worker that is
+            stopped after 30 seconds. Tools have no storage access, and their <code>fetch</code> requests are subject
+            to the chat&apos;s network policy.
+          </p>
+          <p className="text-xs text-base-content/50 mt-2">
+            More tools can come from MCP servers added under <strong>Settings → MCP Servers</strong>, over
+            Streamable HTTP or the older SSE transport. Their tools appear as <code>server__tool</code>, and
+            their prompts and resources are listed there. Auth headers are stored encrypted; the server must
+            allow requests from this page (CORS).
+          </p>
         </Section>
 
         {/* Workspace / Files */}
@@ -231,6 +286,18 @@ export function HelpPage() {
           </p>
         </Section>
 
+        {/* Usage */}
+        <Section icon={BarChart3} title="Usage & Costs">
+          <p>
+            Every API call&apos;s input, output and cache tokens are recorded locally per day,
+            conversation, provider and model. The <strong>Usage</strong> page shows totals, estimated
+            cost, cache hit ratio and the most expensive conversations and scheduled tasks.
+          </p>
+          <p className="text-xs text-base-content/50 mt-1">
+            Costs use the per-model prices from Settings → Model, which you can edit.
+          </p>
+        </Section>
+
         {/* Channels */}
         <Section icon={Send} title="Messaging Channels">
           <p>
@@ -269,13 +336,22 @@ export function HelpPage() {
               />
               <Row
                 label="OpenWebUI"
-                desc="Any OpenAI-compatible endpoint. Useful for self-hosted deployments or proxies."
+                desc="A self-hosted Open WebUI instance. Requires its URL and an Open WebUI API key."
+              />
+              <Row
+                label="OpenAI-compatible"
+                desc="LM Studio, vLLM, llama.cpp server, LocalAI or any gateway that speaks /v1/chat/completions. Set the base URL (e.g. http://localhost:1234/v1); the API key is optional."
               />
             </tbody>
           </table>
           <p className="text-xs text-base-content/50 mt-2">
             Switch providers at any time in Settings. Credentials are stored encrypted in IndexedDB.
           </p>
+          <p className="text-xs text-base-content/50 mt-2">
+            Rate limits, overload and network errors are retried with backoff. Under <strong>Fallback Providers</strong> you
+            can list other providers to try in order when the primary one keeps failing; the Activity panel shows which one
+            answered.
+          </p>
         </Section>
 
         {/* Security */}
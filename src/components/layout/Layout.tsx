@@ -3,9 +3,10 @@
 // ---------------------------------------------------------------------------
 
 import { Outlet, NavLink, useLocation } from 'react-router';
-import { MessageSquare, FolderOpen, Clock, Settings, HelpCircle, Menu, Plus, PanelLeftClose, PanelLeftOpen, LogOut } from 'lucide-react';
+import { MessageSquare, FolderOpen, Clock, BarChart3, Settings, HelpCircle, Menu, Plus, PanelLeftClose, PanelLeftOpen, LogOut } from 'lucide-react';
 import { ThemeToggle } from './ThemeToggle.js';
 import { FileViewerModal } from '../files/FileViewerModal.js';
+import { ToolApprovalModal } from '../chat/ToolApprovalModal.js';
 import { useFileViewerStore } from '../../stores/file-viewer-store.js';
 import { useAuthStore } from '../../stores/auth-store.js';
 import { useState, useEffect } from 'react';
@@ -14,6 +15,7 @@ const navItems = [
   { to: '/chat', label: 'Chat', icon: MessageSquare },
   { to: '/files', label: 'Workspace', icon: FolderOpen },
   { to: '/tasks', label: 'Tasks', icon: Clock },
+  { to: '/usage', label: 'Usage', icon: BarChart3 },
   { to: '/settings', label: 'Settings', icon: Settings },
   { to: '/help', label: 'Help', icon: HelpCircle },
 ] as const;
@@ -199,6 +201,9 @@ export function Layout() {
           onClose={closeFile}
         />
       )}
+
+      {/* ---- Global tool approval prompt ---- */}
+      <ToolApprovalModal />
     </div>
   );
 }
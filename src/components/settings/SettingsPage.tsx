@@ -6,15 +6,21 @@ import { useEffect, useState } from 'react';
 import {
   Palette, KeyRound, Eye, EyeOff, Bot, MessageSquare,
   Smartphone, HardDrive, Lock, Check, Globe, Settings, MessageCircle, Terminal, Sparkles,
-  ChevronRight, Shield, Zap, Server, X, ShieldCheck
+  ChevronRight, Shield, Zap, Server, X, ShieldCheck, Layers, Gauge, ListOrdered, ArrowUp, ArrowDown,
+  Plus, Trash2, ShieldAlert, Timer, Plug, RefreshCw, Pencil, Network, Route
 } from 'lucide-react';
-import { getConfig, setConfig } from '../../db.js';
-import { CONFIG_KEYS } from '../../config.js';
+import { getConfig, setConfig, getAllGroupIds } from '../../db.js';
+import { TOOL_DEFINITIONS } from '../../tools.js';
+import {
+  CONFIG_KEYS, DEFAULT_FETCH_RELAY_URL, MAX_CONCURRENT_RUNS_LIMIT, MIN_COMPACT_THRESHOLD, MAX_COMPACT_THRESHOLD, type Provider,
+} from '../../config.js';
 import { getStorageEstimate, requestPersistentStorage } from '../../storage.js';
 import { decryptValue } from '../../crypto.js';
+import { mcpToolName } from '../../mcp.js';
 import { getOrchestrator, useOrchestratorStore } from '../../stores/orchestrator-store.js';
 import { useThemeStore, type ThemeChoice } from '../../stores/theme-store.js';
 import { useAuthStore } from '../../stores/auth-store.js';
+import type { DomainCredential, FallbackTarget, McpServerConfig, McpServerStatus, NetworkPolicy, RunBudget, ToolPolicy } from '../../types.js';
 
 const MODELS = [
   { value: 'claude-opus-4-6', label: 'Claude Opus 4.6' },
@@ -22,10 +28,11 @@ const MODELS = [
   { value: 'claude-haiku-4-5-20251001', label: 'Claude Haiku 4.5' },
 ];
 
-const PROVIDERS = [
+const PROVIDERS: { value: Provider; label: string }[] = [
   { value: 'anthropic', label: 'Anthropic (Claude)' },
   { value: 'ollama', label: 'Ollama (Local)' },
   { value: 'openwebui', label: 'Open WebUI' },
+  { value: 'openai', label: 'OpenAI-compatible' },
 ];
 
 function formatBytes(bytes: number): string {
@@ -36,6 +43,808 @@ function formatBytes(bytes: number): string {
   return `${(bytes / Math.pow(k, i)).toFixed(1)} ${units[i]}`;
 }
 
+function formatTokenCount(n: number): string {
+  if (n >= 1_000_000) return `${+(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1000) return `${Math.round(n / 1000)}k`;
+  return String(n);
+}
+
+// Model capabilities — resolved values with an inline editor for overrides
+function ModelCapabilitiesEditor({ model }: { model: string }) {
+  const orch = getOrchestrator();
+  const [caps, setCaps] = useState(() => orch.getModelCapabilities(model));
+  const [custom, setCustom] = useState(() => orch.hasCustomModelCapabilities(model));
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(caps);
+
+  async function handleSave() {
+    await orch.setModelCapabilities(model, draft);
+    setCaps(orch.getModelCapabilities(model));
+    setCustom(true);
+    setEditing(false);
+  }
+
+  async function handleReset() {
+    await orch.resetModelCapabilities(model);
+    const resolved = orch.getModelCapabilities(model);
+    setCaps(resolved);
+    setDraft(resolved);
+    setCustom(false);
+    setEditing(false);
+  }
+
+  const numberField = (label: string, key: 'contextWindow' | 'maxOutputTokens' | 'inputPrice' | 'outputPrice', step = 1) => (
+    <label className="flex flex-col gap-1 text-xs text-base-content/60">
+      {label}
+      <input
+        type="number"
+        min={0}
+        step={step}
+        className="input input-bordered input-sm font-mono"
+        value={draft[key]}
+        onChange={(e) => setDraft({ ...draft, [key]: Number(e.target.value) })}
+      />
+    </label>
+  );
+
+  return (
+    <div className="rounded-lg bg-base-200/50 p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="badge badge-ghost badge-sm">{formatTokenCount(caps.contextWindow)} context</span>
+        <span className="badge badge-ghost badge-sm">{formatTokenCount(caps.maxOutputTokens)} max output</span>
+        <span className={`badge badge-sm ${caps.tools ? 'badge-ghost' : 'badge-warning'}`}>
+          {caps.tools ? 'Tools' : 'No tools'}
+        </span>
+        {caps.vision && <span className="badge badge-ghost badge-sm">Vision</span>}
+        {(caps.inputPrice > 0 || caps.outputPrice > 0) && (
+          <span className="badge badge-ghost badge-sm">
+            ${caps.inputPrice} / ${caps.outputPrice} per 1M tokens
+          </span>
+        )}
+        {custom && <span className="badge badge-outline badge-sm">Custom</span>}
+        <button className="btn btn-ghost btn-xs ml-auto" onClick={() => setEditing(!editing)}>
+          {editing ? 'Close' : 'Edit'}
+        </button>
+      </div>
+
+      {editing && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            {numberField('Context window (tokens)', 'contextWindow')}
+            {numberField('Max output (tokens)', 'maxOutputTokens')}
+            {numberField('Input price ($ / 1M tokens)', 'inputPrice', 0.01)}
+            {numberField('Output price ($ / 1M tokens)', 'outputPrice', 0.01)}
+          </div>
+          <div className="flex gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-sm"
+                checked={draft.tools}
+                onChange={(e) => setDraft({ ...draft, tools: e.target.checked })}
+              />
+              Tool calling
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-sm"
+                checked={draft.vision}
+                onChange={(e) => setDraft({ ...draft, vision: e.target.checked })}
+              />
+              Vision
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <button className="btn btn-outline btn-sm" onClick={handleSave}>
+              <Check className="w-4 h-4 mr-1" /> Save
+            </button>
+            {custom && (
+              <button className="btn btn-ghost btn-sm" onClick={handleReset}>
+                Reset to detected
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+      <p className="text-xs text-base-content/50">
+        Detected from the provider where possible. The context window drives automatic compaction and the
+        context bar; models without tool calling get the tools described in their prompt and call them in text.
+      </p>
+    </div>
+  );
+}
+
+function FallbackChainEditor() {
+  const orch = getOrchestrator();
+  const [chain, setChain] = useState<FallbackTarget[]>(() => orch.getFallbackChain());
+
+  async function save(next: FallbackTarget[]) {
+    setChain(next);
+    await orch.setFallbackChain(next);
+  }
+
+  function update(index: number, patch: Partial<FallbackTarget>) {
+    setChain(chain.map((t, i) => (i === index ? { ...t, ...patch } : t)));
+  }
+
+  function move(index: number, delta: number) {
+    const next = [...chain];
+    const [entry] = next.splice(index, 1);
+    next.splice(index + delta, 0, entry);
+    save(next);
+  }
+
+  return (
+    <div className="space-y-2">
+      {chain.map((target, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <span className="text-xs text-base-content/40 w-4 text-right">{i + 1}</span>
+          <select
+            className="select select-bordered select-sm w-44"
+            value={target.provider}
+            onChange={(e) => save(chain.map((t, j) => (j === i ? { ...t, provider: e.target.value as Provider } : t)))}
+          >
+            {PROVIDERS.map((p) => (
+              <option key={p.value} value={p.value}>{p.label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            className="input input-bordered input-sm flex-1 font-mono"
+            placeholder="Model name"
+            value={target.model}
+            onChange={(e) => update(i, { model: e.target.value })}
+            onBlur={() => save(chain)}
+          />
+          <button className="btn btn-ghost btn-xs btn-square" disabled={i === 0} onClick={() => move(i, -1)} title="Move up">
+            <ArrowUp className="w-3.5 h-3.5" />
+          </button>
+          <button className="btn btn-ghost btn-xs btn-square" disabled={i === chain.length - 1} onClick={() => move(i, 1)} title="Move down">
+            <ArrowDown className="w-3.5 h-3.5" />
+          </button>
+          <button className="btn btn-ghost btn-xs btn-square" onClick={() => save(chain.filter((_, j) => j !== i))} title="Remove">
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+      <button
+        className="btn btn-ghost btn-sm"
+        onClick={() => setChain([...chain, { provider: 'ollama', model: '' }])}
+      >
+        <Plus className="w-4 h-4 mr-1" /> Add fallback
+      </button>
+      <p className="text-xs text-base-content/50">
+        Failed requests are retried with backoff first. If the primary provider still fails with a rate limit,
+        overload, server or network error, these providers are tried in order. Providers without credentials
+        are skipped.
+      </p>
+    </div>
+  );
+}
+
+const TOOL_POLICIES: { value: ToolPolicy; label: string }[] = [
+  { value: 'auto', label: 'Run automatically' },
+  { value: 'ask', label: 'Ask first' },
+  { value: 'deny', label: 'Never run' },
+];
+
+function ToolPolicyEditor() {
+  const orch = getOrchestrator();
+  const mcpServers = useOrchestratorStore((s) => s.mcpServers);
+  const [policies, setPolicies] = useState(() => orch.getToolPolicies());
+  const [groupIds, setGroupIds] = useState<string[]>([]);
+  const [scope, setScope] = useState('');
+
+  useEffect(() => {
+    getAllGroupIds().then(setGroupIds).catch(() => setGroupIds([]));
+  }, []);
+
+  async function handleChange(tool: string, value: string) {
+    await orch.setToolPolicy(tool, (value || null) as ToolPolicy | null, scope || undefined);
+    setPolicies(orch.getToolPolicies());
+  }
+
+  const overrides = scope ? policies.groups[scope] ?? {} : {};
+  const toolNames = [
+    ...TOOL_DEFINITIONS.map((tool) => tool.name),
+    ...mcpServers.flatMap((server) => server.tools.map((tool) => mcpToolName(server.config.name, tool.name))),
+  ];
+
+  return (
+    <div className="space-y-3">
+      <select
+        className="select select-bordered select-sm w-full sm:w-64"
+        value={scope}
+        onChange={(e) => setScope(e.target.value)}
+      >
+        <option value="">All chats</option>
+        {groupIds.map((id) => (
+          <option key={id} value={id}>{id}</option>
+        ))}
+      </select>
+      <div className="space-y-1.5">
+        {toolNames.map((name) => {
+          const global = policies.global[name] ?? 'auto';
+          return (
+            <div key={name} className="flex items-center justify-between gap-2">
+              <span className="font-mono text-sm truncate" title={name}>{name}</span>
+              <select
+                className="select select-bordered select-sm w-44 shrink-0"
+                value={scope ? overrides[name] ?? '' : global}
+                onChange={(e) => handleChange(name, e.target.value)}
+              >
+                {scope && (
+                  <option value="">
+                    Default ({TOOL_POLICIES.find((p) => p.value === global)?.label.toLowerCase()})
+                  </option>
+                )}
+                {TOOL_POLICIES.map((p) => (
+                  <option key={p.value} value={p.value}>{p.label}</option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-base-content/50">
+        "Ask first" pauses the agent until you approve the call — in a prompt here in the browser, or with
+        inline buttons in Telegram chats. Denied calls are reported back to the model. Per-chat settings
+        override the defaults for all chats.
+      </p>
+    </div>
+  );
+}
+
+const MCP_TRANSPORTS: { value: McpServerConfig['transport']; label: string }[] = [
+  { value: 'http', label: 'Streamable HTTP' },
+  { value: 'sse', label: 'HTTP + SSE (legacy)' },
+];
+
+/** A server being added (no id) or edited; headers as "Name: value" lines */
+interface McpDraft {
+  id: string | null;
+  name: string;
+  url: string;
+  transport: McpServerConfig['transport'];
+  headers: string;
+}
+
+function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    headers[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+  }
+  return headers;
+}
+
+function McpServerRow({ server, onEdit }: { server: McpServerStatus; onEdit: () => void }) {
+  const orch = getOrchestrator();
+  const [open, setOpen] = useState(false);
+  const { config, state } = server;
+
+  return (
+    <div className="rounded-lg border border-base-300/50">
+      <div className="flex items-center gap-2 px-3 py-2">
+        <input
+          type="checkbox"
+          className="toggle toggle-sm"
+          checked={config.enabled}
+          onChange={(e) => orch.updateMcpServer(config.id, { enabled: e.target.checked })}
+          title={config.enabled ? 'Disable' : 'Enable'}
+        />
+        <button className="flex-1 min-w-0 text-left" onClick={() => setOpen(!open)}>
+          <div className="text-sm font-medium truncate">{config.name}</div>
+          <div className="text-xs text-base-content/50 font-mono truncate">{config.url}</div>
+        </button>
+        {state === 'connecting' && <span className="loading loading-spinner loading-xs" />}
+        {state === 'connected' && (
+          <span className="badge badge-success badge-sm">
+            {server.tools.length} {server.tools.length === 1 ? 'tool' : 'tools'}
+          </span>
+        )}
+        {state === 'error' && <span className="badge badge-error badge-sm" title={server.error}>Error</span>}
+        {state === 'disabled' && <span className="badge badge-ghost badge-sm">Off</span>}
+        <button className="btn btn-ghost btn-xs btn-square" disabled={!config.enabled} onClick={() => orch.reconnectMcpServer(config.id)} title="Reconnect">
+          <RefreshCw className="w-3.5 h-3.5" />
+        </button>
+        <button className="btn btn-ghost btn-xs btn-square" onClick={onEdit} title="Edit">
+          <Pencil className="w-3.5 h-3.5" />
+        </button>
+        <button className="btn btn-ghost btn-xs btn-square" onClick={() => orch.removeMcpServer(config.id)} title="Remove">
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      {state === 'error' && <p className="px-3 pb-2 text-xs text-error break-all">{server.error}</p>}
+      {open && state === 'connected' && (
+        <div className="px-3 pb-3 space-y-2 text-xs">
+          {server.tools.length > 0 && (
+            <div>
+              <div className="font-semibold text-base-content/60 mb-1">Tools</div>
+              {server.tools.map((tool) => (
+                <div key={tool.name} className="py-0.5">
+                  <span className="font-mono">{mcpToolName(config.name, tool.name)}</span>
+                  {tool.description && <span className="text-base-content/50"> — {tool.description}</span>}
+                </div>
+              ))}
+            </div>
+          )}
+          {server.prompts.length > 0 && (
+            <div>
+              <div className="font-semibold text-base-content/60 mb-1">Prompts</div>
+              {server.prompts.map((prompt) => (
+                <div key={prompt.name} className="py-0.5">
+                  <span className="font-mono">{prompt.name}</span>
+                  {prompt.description && <span className="text-base-content/50"> — {prompt.description}</span>}
+                </div>
+              ))}
+            </div>
+          )}
+          {server.resources.length > 0 && (
+            <div>
+              <div className="font-semibold text-base-content/60 mb-1">Resources</div>
+              {server.resources.map((resource) => (
+                <div key={resource.uri} className="py-0.5">
+                  <span className="font-mono">{resource.name}</span>
+                  <span className="text-base-content/50"> — {resource.uri}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {server.tools.length + server.prompts.length + server.resources.length === 0 && (
+            <p className="text-base-content/50">This server offers no tools, prompts or resources.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function McpServerEditor() {
+  const orch = getOrchestrator();
+  const servers = useOrchestratorStore((s) => s.mcpServers);
+  const [draft, setDraft] = useState<McpDraft | null>(null);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  function startEdit(server?: McpServerStatus) {
+    setError('');
+    if (!server) {
+      setDraft({ id: null, name: '', url: '', transport: 'http', headers: '' });
+      return;
+    }
+    const headers = orch.getMcpServerHeaders(server.config.id);
+    setDraft({
+      id: server.config.id,
+      name: server.config.name,
+      url: server.config.url,
+      transport: server.config.transport,
+      headers: Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n'),
+    });
+  }
+
+  async function handleSave() {
+    if (!draft) return;
+    setSaving(true);
+    setError('');
+    try {
+      const { id, name, url, transport } = draft;
+      const headers = parseHeaderLines(draft.headers);
+      if (id) await orch.updateMcpServer(id, { name, url, transport }, headers);
+      else await orch.addMcpServer({ name, url, transport, enabled: true }, headers);
+      setDraft(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {servers.map((server) => (
+        <McpServerRow key={server.config.id} server={server} onEdit={() => startEdit(server)} />
+      ))}
+
+      {draft ? (
+        <div className="rounded-lg border border-base-300/50 p-3 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              className="input input-bordered input-sm flex-1"
+              placeholder="Name, e.g. github"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+            <select
+              className="select select-bordered select-sm w-48"
+              value={draft.transport}
+              onChange={(e) => setDraft({ ...draft, transport: e.target.value as McpServerConfig['transport'] })}
+            >
+              {MCP_TRANSPORTS.map((t) => (
+                <option key={t.value} value={t.value}>{t.label}</option>
+              ))}
+            </select>
+          </div>
+          <input
+            type="text"
+            className="input input-bordered input-sm w-full font-mono"
+            placeholder="https://mcp.example.com/mcp"
+            value={draft.url}
+            onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+          />
+          <textarea
+            className="textarea textarea-bordered textarea-sm w-full font-mono"
+            rows={2}
+            placeholder="Authorization: Bearer …"
+            value={draft.headers}
+            onChange={(e) => setDraft({ ...draft, headers: e.target.value })}
+          />
+          {error && <p className="text-xs text-error">{error}</p>}
+          <div className="flex gap-2">
+            <button className="btn btn-primary btn-sm" disabled={saving || !draft.name.trim() || !draft.url.trim()} onClick={handleSave}>
+              {saving ? <span className="loading loading-spinner loading-xs" /> : draft.id ? 'Save & reconnect' : 'Add & connect'}
+            </button>
+            <button className="btn btn-ghost btn-sm" onClick={() => setDraft(null)}>Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <button className="btn btn-ghost btn-sm" onClick={() => startEdit()}>
+          <Plus className="w-4 h-4 mr-1" /> Add server
+        </button>
+      )}
+
+      <p className="text-xs text-base-content/50">
+        Tools of connected servers are offered to the agent as <code>server__tool</code> and follow the tool
+        permissions below. Headers (one <code>Name: value</code> per line) are stored encrypted. Servers must
+        allow requests from this page (CORS).
+      </p>
+    </div>
+  );
+}
+
+const NETWORK_POLICY_FIELDS: { key: keyof NetworkPolicy; label: string; placeholder: string }[] = [
+  { key: 'allowHosts', label: 'Allowed hosts', placeholder: 'Any host' },
+  { key: 'denyHosts', label: 'Blocked hosts', placeholder: 'None' },
+  { key: 'methods', label: 'Allowed methods', placeholder: 'Any method' },
+];
+
+function splitList(text: string): string[] {
+  return text.split(/[\s,]+/).filter(Boolean);
+}
+
+function NetworkPolicyEditor() {
+  const orch = getOrchestrator();
+  const [groupIds, setGroupIds] = useState<string[]>([]);
+  const [scope, setScope] = useState('');
+  const [draft, setDraft] = useState<Record<keyof NetworkPolicy, string>>({ allowHosts: '', denyHosts: '', methods: '' });
+  const [overridden, setOverridden] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    getAllGroupIds().then(setGroupIds).catch(() => setGroupIds([]));
+  }, []);
+
+  function show(policy: NetworkPolicy) {
+    setDraft({
+      allowHosts: policy.allowHosts.join(', '),
+      denyHosts: policy.denyHosts.join(', '),
+      methods: policy.methods.join(', '),
+    });
+  }
+
+  // Load the inputs for the selected scope; a group without a policy starts from the default
+  useEffect(() => {
+    const stored = orch.getNetworkPolicies();
+    show((scope && stored.groups[scope]) || stored.global);
+    setOverridden(!!scope && !!stored.groups[scope]);
+    setSaved(false);
+  }, [orch, scope]);
+
+  async function handleSave() {
+    const policy: NetworkPolicy = {
+      allowHosts: splitList(draft.allowHosts),
+      denyHosts: splitList(draft.denyHosts),
+      methods: splitList(draft.methods),
+    };
+    await orch.setNetworkPolicy(policy, scope || undefined);
+    const stored = orch.getNetworkPolicies();
+    show((scope && stored.groups[scope]) || stored.global);
+    setOverridden(!!scope);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  }
+
+  async function handleReset() {
+    await orch.setNetworkPolicy(null, scope);
+    show(orch.getNetworkPolicies().global);
+    setOverridden(false);
+  }
+
+  return (
+    <div className="space-y-3">
+      <select
+        className="select select-bordered select-sm w-full sm:w-64"
+        value={scope}
+        onChange={(e) => setScope(e.target.value)}
+      >
+        <option value="">All chats</option>
+        {groupIds.map((id) => (
+          <option key={id} value={id}>{id}</option>
+        ))}
+      </select>
+      {NETWORK_POLICY_FIELDS.map(({ key, label, placeholder }) => (
+        <label key={key} className="flex flex-col gap-1 text-xs text-base-content/60">
+          {label}
+          <input
+            type="text"
+            className="input input-bordered input-sm font-mono"
+            placeholder={placeholder}
+            value={draft[key]}
+            onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+          />
+        </label>
+      ))}
+      <div className="flex gap-2">
+        <button className="btn btn-outline btn-sm" onClick={handleSave}>
+          {saved ? <><Check className="w-4 h-4 mr-1" /> Saved</> : 'Save'}
+        </button>
+        {overridden && (
+          <button className="btn btn-ghost btn-sm" onClick={handleReset}>Use default</button>
+        )}
+      </div>
+      <p className="text-xs text-base-content/50">
+        Limits where <code>fetch_url</code> may send requests. Hosts are exact names
+        (<code>api.github.com</code>) or wildcards for subdomains (<code>*.github.com</code>), separated by
+        commas. Blocked hosts win over allowed ones. A chat's policy replaces the default for all chats.
+      </p>
+    </div>
+  );
+}
+
+/** A credential being added (no id) or edited; headers as "Name: value" lines */
+interface CredentialDraft {
+  id: string | null;
+  host: string;
+  headers: string;
+}
+
+function FetchCredentialEditor() {
+  const orch = getOrchestrator();
+  const [credentials, setCredentials] = useState<DomainCredential[]>(() => orch.getFetchCredentials());
+  const [draft, setDraft] = useState<CredentialDraft | null>(null);
+  const [error, setError] = useState('');
+
+  function startEdit(credential?: DomainCredential) {
+    setError('');
+    setDraft(credential
+      ? {
+        id: credential.id,
+        host: credential.host,
+        headers: Object.entries(credential.headers).map(([name, value]) => `${name}: ${value}`).join('\n'),
+      }
+      : { id: null, host: '', headers: '' });
+  }
+
+  async function handleSave() {
+    if (!draft) return;
+    setError('');
+    try {
+      await orch.saveFetchCredential(draft.host, parseHeaderLines(draft.headers), draft.id ?? undefined);
+      setCredentials(orch.getFetchCredentials());
+      setDraft(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  async function handleRemove(id: string) {
+    await orch.removeFetchCredential(id);
+    setCredentials(orch.getFetchCredentials());
+  }
+
+  return (
+    <div className="space-y-3">
+      {credentials.map((credential) => (
+        <div key={credential.id} className="flex items-center gap-2 rounded-lg border border-base-300/50 px-3 py-2">
+          <div className="flex-1 min-w-0">
+            <div className="text-sm font-mono truncate">{credential.host}</div>
+            <div className="text-xs text-base-content/50 truncate">
+              {Object.keys(credential.headers).join(', ')}
+            </div>
+          </div>
+          <button className="btn btn-ghost btn-xs btn-square" onClick={() => startEdit(credential)} title="Edit">
+            <Pencil className="w-3.5 h-3.5" />
+          </button>
+          <button className="btn btn-ghost btn-xs btn-square" onClick={() => handleRemove(credential.id)} title="Remove">
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+
+      {draft ? (
+        <div className="rounded-lg border border-base-300/50 p-3 space-y-2">
+          <input
+            type="text"
+            className="input input-bordered input-sm w-full font-mono"
+            placeholder="api.github.com"
+            value={draft.host}
+            onChange={(e) => setDraft({ ...draft, host: e.target.value })}
+          />
+          <textarea
+            className="textarea textarea-bordered textarea-sm w-full font-mono"
+            rows={2}
+            placeholder="Authorization: Bearer …"
+            value={draft.headers}
+            onChange={(e) => setDraft({ ...draft, headers: e.target.value })}
+          />
+          {error && <p className="text-xs text-error">{error}</p>}
+          <div className="flex gap-2">
+            <button className="btn btn-primary btn-sm" disabled={!draft.host.trim() || !draft.headers.trim()} onClick={handleSave}>
+              Save
+            </button>
+            <button className="btn btn-ghost btn-sm" onClick={() => setDraft(null)}>Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <button className="btn btn-ghost btn-sm" onClick={() => startEdit()}>
+          <Plus className="w-4 h-4 mr-1" /> Add credential
+        </button>
+      )}
+
+      <p className="text-xs text-base-content/50">
+        Headers (one <code>Name: value</code> per line) are stored encrypted and added to <code>fetch_url</code>
+        requests for the host — over HTTPS only, and never shown to the model. While any are stored,
+        <code>fetch_url</code> does not follow a redirect it cannot check first, and never sends a host&apos;s
+        headers to another host.
+      </p>
+    </div>
+  );
+}
+
+function FetchRelayEditor() {
+  const orch = getOrchestrator();
+  const [relay, setRelay] = useState(() => orch.getFetchRelay());
+  const [showSecret, setShowSecret] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  async function handleSave() {
+    await orch.setFetchRelay(relay);
+    setRelay(orch.getFetchRelay());
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  }
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          className="toggle toggle-sm"
+          checked={relay.enabled}
+          onChange={(e) => setRelay({ ...relay, enabled: e.target.checked })}
+        />
+        Retry blocked requests through the relay
+      </label>
+      <input
+        type="text"
+        className="input input-bordered input-sm w-full font-mono"
+        placeholder={DEFAULT_FETCH_RELAY_URL}
+        value={relay.url}
+        onChange={(e) => setRelay({ ...relay, url: e.target.value })}
+      />
+      <div className="flex gap-2">
+        <input
+          type={showSecret ? 'text' : 'password'}
+          className="input input-bordered input-sm flex-1 font-mono"
+          placeholder="Relay secret"
+          value={relay.secret}
+          onChange={(e) => setRelay({ ...relay, secret: e.target.value })}
+        />
+        <button className="btn btn-ghost btn-sm btn-square" onClick={() => setShowSecret(!showSecret)}>
+          {showSecret ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+        </button>
+      </div>
+      <button className="btn btn-outline btn-sm" disabled={relay.enabled && !relay.secret.trim()} onClick={handleSave}>
+        {saved ? <><Check className="w-4 h-4 mr-1" /> Saved</> : 'Save'}
+      </button>
+      <p className="text-xs text-base-content/50">
+        When the browser blocks a <code>fetch_url</code> request (CORS or a network error), it is retried through
+        this server&apos;s relay and marked in the Activity panel. The relay is off unless the server sets{' '}
+        <code>FETCH_RELAY_SECRET</code>, and only reaches the hosts listed in <code>FETCH_RELAY_HOSTS</code>. The
+        secret is stored encrypted.
+      </p>
+    </div>
+  );
+}
+
+const RUN_BUDGET_FIELDS: { key: keyof RunBudget; label: string }[] = [
+  { key: 'maxIterations', label: 'Model calls' },
+  { key: 'maxTokens', label: 'Tokens' },
+  { key: 'maxSeconds', label: 'Seconds' },
+  { key: 'maxToolCalls', label: 'Tool calls' },
+];
+
+function RunBudgetEditor() {
+  const orch = getOrchestrator();
+  const [budgets, setBudgets] = useState(() => orch.getRunBudgets());
+  const [groupIds, setGroupIds] = useState<string[]>([]);
+  const [scope, setScope] = useState('chat');
+  const [draft, setDraft] = useState<Partial<Record<keyof RunBudget, string>>>({});
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    getAllGroupIds().then(setGroupIds).catch(() => setGroupIds([]));
+  }, []);
+
+  // Load the inputs for the selected scope
+  useEffect(() => {
+    const stored = orch.getRunBudgets();
+    const current = scope === 'chat' || scope === 'task' ? stored[scope] : stored.groups[scope] ?? {};
+    setDraft(Object.fromEntries(Object.entries(current).map(([k, v]) => [k, String(v)])));
+    setSaved(false);
+  }, [orch, scope]);
+
+  async function handleSave() {
+    const limits: Partial<RunBudget> = {};
+    for (const { key } of RUN_BUDGET_FIELDS) {
+      const value = Number(draft[key]);
+      if (draft[key] && value >= 1) limits[key] = value;
+    }
+    if (scope === 'chat' || scope === 'task') {
+      await orch.setDefaultRunBudget(scope, { ...budgets[scope], ...limits });
+    } else {
+      await orch.setGroupRunBudget(scope, limits);
+    }
+    setBudgets(orch.getRunBudgets());
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  }
+
+  const isGroup = scope !== 'chat' && scope !== 'task';
+
+  return (
+    <div className="space-y-3">
+      <select
+        className="select select-bordered select-sm w-full sm:w-64"
+        value={scope}
+        onChange={(e) => setScope(e.target.value)}
+      >
+        <option value="chat">Chats (default)</option>
+        <option value="task">Scheduled tasks (default)</option>
+        {groupIds.map((id) => (
+          <option key={id} value={id}>{id}</option>
+        ))}
+      </select>
+      <div className="grid grid-cols-2 gap-2">
+        {RUN_BUDGET_FIELDS.map(({ key, label }) => (
+          <label key={key} className="flex flex-col gap-1 text-xs text-base-content/60">
+            {label}
+            <input
+              type="number"
+              min={1}
+              className="input input-bordered input-sm font-mono"
+              placeholder={isGroup ? String(budgets.chat[key]) : undefined}
+              value={draft[key] ?? ''}
+              onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+            />
+          </label>
+        ))}
+      </div>
+      <button className="btn btn-outline btn-sm" onClick={handleSave}>
+        {saved ? <><Check className="w-4 h-4 mr-1" /> Saved</> : 'Save'}
+      </button>
+      <p className="text-xs text-base-content/50">
+        A run stops once it reaches any of these limits and reports what it used; send a follow-up
+        message to let it continue. Empty fields in a chat's budget follow the chat default. Scheduled
+        tasks use the stricter of the task default and their chat's budget.
+      </p>
+    </div>
+  );
+}
+
 // Section Card Component
 function SectionCard({
   children,
@@ -72,6 +881,7 @@ export function SettingsPage() {
 
   // Model
   const [model, setModel] = useState(orch.getModel());
+  const [capsRevision, setCapsRevision] = useState(0);
 
   // Ollama models (fetched from server)
   const [ollamaModels, setOllamaModels] = useState<{ value: string; label: string }[]>([]);
@@ -93,9 +903,28 @@ export function SettingsPage() {
   const [openWebUIKeyMasked, setOpenWebUIKeyMasked] = useState(true);
   const [openWebUIKeySaved, setOpenWebUIKeySaved] = useState(false);
 
+  // OpenAI-compatible
+  const [openAIModels, setOpenAIModels] = useState<{ value: string; label: string }[]>([]);
+  const [openAIModelsLoading, setOpenAIModelsLoading] = useState(false);
+  const [openAIUrl, setOpenAIUrl] = useState(orch.getOpenAIUrl());
+  const [openAIKey, setOpenAIKey] = useState('');
+  const [openAIKeyMasked, setOpenAIKeyMasked] = useState(true);
+  const [openAIKeySaved, setOpenAIKeySaved] = useState(false);
+
   // Assistant name
   const [assistantName, setAssistantName] = useState(orch.getAssistantName());
 
+  // Concurrency
+  const [maxConcurrentRuns, setMaxConcurrentRuns] = useState(orch.getMaxConcurrentRuns());
+
+  // Automatic compaction (stored as a fraction, edited as a percentage)
+  const [compactPercent, setCompactPercent] = useState(Math.round(orch.getCompactThreshold() * 100));
+
+  const modelsLoading =
+    (provider === 'ollama' && ollamaModelsLoading) ||
+    (provider === 'openwebui' && openWebUIModelsLoading) ||
+    (provider === 'openai' && openAIModelsLoading);
+
   // Telegram
   const [telegramToken, setTelegramToken] = useState('');
   const [telegramChatIds, setTelegramChatIds] = useState('');
@@ -135,7 +964,7 @@ export function SettingsPage() {
       // Provider
       const prov = await getConfig(CONFIG_KEYS.PROVIDER);
       if (prov) {
-        setProvider(prov as any);
+        setProvider(prov as Provider);
         if (prov === 'ollama') {
           try {
             const models = await orch.fetchOllamaModels();
@@ -151,6 +980,9 @@ export function SettingsPage() {
         } else if (prov === 'openwebui') {
           const models = await orch.fetchOpenWebUIModels();
           setOpenWebUIModels(models);
+        } else if (prov === 'openai') {
+          const models = await orch.fetchOpenAIModels();
+          setOpenAIModels(models);
         }
       }
 
@@ -170,6 +1002,18 @@ export function SettingsPage() {
         }
       }
 
+      // OpenAI-compatible URL & Key
+      const oaiUrl = await getConfig(CONFIG_KEYS.OPENAI_URL);
+      if (oaiUrl) setOpenAIUrl(oaiUrl);
+      const oaiKey = await getConfig(CONFIG_KEYS.OPENAI_API_KEY);
+      if (oaiKey) {
+        try {
+          setOpenAIKey(await decryptValue(oaiKey));
+        } catch {
+          setOpenAIKey('');
+        }
+      }
+
       // Telegram
       const token = await getConfig(CONFIG_KEYS.TELEGRAM_BOT_TOKEN);
       if (token) setTelegramToken(token);
@@ -225,15 +1069,24 @@ export function SettingsPage() {
   async function handleModelChange(value: string) {
     setModel(value);
     await orch.setModel(value);
+    // Discovery may have learned more about the model
+    setCapsRevision((r) => r + 1);
   }
 
-  async function handleProviderChange(value: string) {
-    setProvider(value as 'anthropic' | 'ollama' | 'openwebui');
-    await orch.setProvider(value as 'anthropic' | 'ollama' | 'openwebui');
+  function modelLabel(m: { value: string; label: string }): string {
+    const { contextWindow } = orch.getModelCapabilities(m.value);
+    return `${m.label} · ${formatTokenCount(contextWindow)} context`;
+  }
+
+  async function handleProviderChange(value: Provider) {
+    setProvider(value);
+    await orch.setProvider(value);
     if (value === 'ollama') {
       loadOllamaModels();
     } else if (value === 'openwebui') {
       loadOpenWebUIModels();
+    } else if (value === 'openai') {
+      loadOpenAIModels();
     }
   }
 
@@ -257,6 +1110,26 @@ export function SettingsPage() {
     loadOpenWebUIModels();
   }
 
+  async function loadOpenAIModels() {
+    setOpenAIModelsLoading(true);
+    const models = await orch.fetchOpenAIModels();
+    setOpenAIModels(models);
+    setOpenAIModelsLoading(false);
+  }
+
+  async function handleOpenAIUrlChange(value: string) {
+    await orch.setOpenAIUrl(value.trim());
+    setOpenAIUrl(orch.getOpenAIUrl());
+    loadOpenAIModels();
+  }
+
+  async function handleSaveOpenAIKey() {
+    await orch.setOpenAIKey(openAIKey.trim());
+    setOpenAIKeySaved(true);
+    setTimeout(() => setOpenAIKeySaved(false), 2000);
+    loadOpenAIModels();
+  }
+
   async function loadOllamaModels() {
     setOllamaModelsLoading(true);
     try {
@@ -280,6 +1153,16 @@ export function SettingsPage() {
     await orch.setAssistantName(assistantName.trim());
   }
 
+  async function handleMaxConcurrentRunsSave() {
+    await orch.setMaxConcurrentRuns(maxConcurrentRuns);
+    setMaxConcurrentRuns(orch.getMaxConcurrentRuns());
+  }
+
+  async function handleCompactThresholdSave() {
+    await orch.setCompactThreshold(compactPercent / 100);
+    setCompactPercent(Math.round(orch.getCompactThreshold() * 100));
+  }
+
   async function handleTelegramSave() {
     const ids = telegramChatIds
       .split(',')
@@ -391,7 +1274,7 @@ export function SettingsPage() {
 
       {/* Provider */}
       <SectionCard title="AI Provider" icon={Bot}>
-        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
           {PROVIDERS.map((p) => (
             <button
               key={p.value}
@@ -456,13 +1339,13 @@ export function SettingsPage() {
           className="select select-bordered select-sm w-full"
           value={model}
           onChange={(e) => handleModelChange(e.target.value)}
-          disabled={(provider === 'ollama' && ollamaModelsLoading) || (provider === 'openwebui' && openWebUIModelsLoading)}
+          disabled={modelsLoading}
         >
           {provider === 'ollama' ? (
             ollamaModels.length > 0 ? (
               ollamaModels.map((m) => (
                 <option key={m.value} value={m.value}>
-                  {m.label}
+                  {modelLabel(m)}
                 </option>
               ))
             ) : (
@@ -472,7 +1355,17 @@ export function SettingsPage() {
             openWebUIModels.length > 0 ? (
               openWebUIModels.map((m) => (
                 <option key={m.value} value={m.value}>
-                  {m.label}
+                  {modelLabel(m)}
+                </option>
+              ))
+            ) : (
+              <option value="">No models found</option>
+            )
+          ) : provider === 'openai' ? (
+            openAIModels.length > 0 ? (
+              openAIModels.map((m) => (
+                <option key={m.value} value={m.value}>
+                  {modelLabel(m)}
                 </option>
               ))
             ) : (
@@ -481,17 +1374,23 @@ export function SettingsPage() {
           ) : (
             MODELS.map((m) => (
               <option key={m.value} value={m.value}>
-                {m.label}
+                {modelLabel(m)}
               </option>
             ))
           )}
         </select>
-        {((provider === 'ollama' && ollamaModelsLoading) || (provider === 'openwebui' && openWebUIModelsLoading)) && (
+        {modelsLoading && (
           <span className="text-xs text-base-content/50 flex items-center gap-1">
             <span className="loading loading-spinner loading-xs" />
             Loading models...
           </span>
         )}
+        {model && (
+          <ModelCapabilitiesEditor
+            key={`${model}:${capsRevision}:${ollamaModels.length}:${openWebUIModels.length}:${openAIModels.length}`}
+            model={model}
+          />
+        )}
       </SectionCard>
 
       {/* Ollama URL (Ollama only) */}
@@ -595,6 +1494,101 @@ export function SettingsPage() {
         </SectionCard>
       )}
 
+      {/* OpenAI-compatible Config */}
+      {provider === 'openai' && (
+        <SectionCard title="OpenAI-compatible Server" icon={Server}>
+          <div className="space-y-4">
+            <div>
+              <label className="fieldset-legend text-sm mb-2">Base URL</label>
+              <input
+                type="text"
+                className="input input-bordered input-sm w-full font-mono"
+                placeholder="http://localhost:1234/v1"
+                value={openAIUrl}
+                onChange={(e) => setOpenAIUrl(e.target.value)}
+                onBlur={() => handleOpenAIUrlChange(openAIUrl)}
+              />
+              <p className="text-xs text-base-content/50 mt-1">
+                Base URL including the version prefix, e.g. LM Studio, vLLM, llama.cpp server or LocalAI.
+                Models are listed from <code className="bg-base-300 px-1 rounded">/models</code>.
+              </p>
+            </div>
+
+            <div>
+              <label className="fieldset-legend text-sm mb-2">API Key (optional)</label>
+              <form onSubmit={(e) => e.preventDefault()} className="flex gap-2">
+                <div className="relative flex-1">
+                  <input
+                    type={openAIKeyMasked ? 'password' : 'text'}
+                    className="input input-bordered input-sm w-full font-mono pr-10"
+                    placeholder="sk-..."
+                    value={openAIKey}
+                    autoComplete="new-password"
+                    onChange={(e) => setOpenAIKey(e.target.value)}
+                  />
+                  <button
+                    type="button"
+                    className="absolute right-2 top-1/2 -translate-y-1/2 btn btn-ghost btn-xs btn-circle"
+                    onClick={() => setOpenAIKeyMasked(!openAIKeyMasked)}
+                  >
+                    {openAIKeyMasked ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+                  </button>
+                </div>
+              </form>
+              <div className="flex items-center gap-2 mt-2">
+                <button
+                  className="btn btn-outline btn-sm"
+                  onClick={handleSaveOpenAIKey}
+                >
+                  <Shield className="w-4 h-4 mr-1" /> Save
+                </button>
+                {openAIKeySaved && (
+                  <span className="text-base-content text-sm flex items-center gap-1 animate-in fade-in">
+                    <Check className="w-4 h-4" /> Saved
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-base-content/50 mt-2">
+                Sent as a bearer token. Leave empty for local servers that don't require one.
+              </p>
+            </div>
+          </div>
+        </SectionCard>
+      )}
+
+      {/* Fallback chain */}
+      <SectionCard title="Fallback Providers" icon={ListOrdered}>
+        <FallbackChainEditor />
+      </SectionCard>
+
+      {/* MCP servers */}
+      <SectionCard title="MCP Servers" icon={Plug}>
+        <McpServerEditor />
+      </SectionCard>
+
+      {/* Tool permissions */}
+      <SectionCard title="Tool Permissions" icon={ShieldAlert}>
+        <ToolPolicyEditor />
+      </SectionCard>
+
+      {/* fetch_url network policy and credentials */}
+      <SectionCard title="Network Access" icon={Network}>
+        <NetworkPolicyEditor />
+      </SectionCard>
+
+      <SectionCard title="Site Credentials" icon={KeyRound}>
+        <FetchCredentialEditor />
+      </SectionCard>
+
+      <SectionCard title="Fetch Relay" icon={Route}>
+        <FetchRelayEditor />
+      </SectionCard>
+
+      {/* Run budgets */}
+      <SectionCard title="Run Budgets" icon={Timer}>
+        <RunBudgetEditor />
+      </SectionCard>
+
       {/* Assistant Name */}
       <SectionCard title="Assistant Name" icon={MessageSquare}
       >
@@ -613,6 +1607,46 @@ export function SettingsPage() {
         </p>
       </SectionCard>
 
+      {/* Concurrency */}
+      <SectionCard title="Parallel Conversations" icon={Layers}>
+        <div className="flex gap-2">
+          <input
+            type="number"
+            min={1}
+            max={MAX_CONCURRENT_RUNS_LIMIT}
+            className="input input-bordered input-sm w-24"
+            value={maxConcurrentRuns}
+            onChange={(e) => setMaxConcurrentRuns(Number(e.target.value))}
+            onBlur={handleMaxConcurrentRunsSave}
+          />
+        </div>
+        <p className="text-xs text-base-content/50">
+          How many chats (browser, Telegram, WhatsApp, scheduled tasks) can run the agent at the same time.
+          Each chat still answers its own messages one by one.
+        </p>
+      </SectionCard>
+
+      {/* Context management */}
+      <SectionCard title="Automatic Compaction" icon={Gauge}>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min={MIN_COMPACT_THRESHOLD * 100}
+            max={MAX_COMPACT_THRESHOLD * 100}
+            step={5}
+            className="input input-bordered input-sm w-24"
+            value={compactPercent}
+            onChange={(e) => setCompactPercent(Number(e.target.value))}
+            onBlur={handleCompactThresholdSave}
+          />
+          <span className="text-sm text-base-content/70">% of the context window</span>
+        </div>
+        <p className="text-xs text-base-content/50">
+          When a chat's prompt grows past this share of the model's context window, older messages are
+          summarized automatically. The most recent turns are always kept word for word.
+        </p>
+      </SectionCard>
+
       {/* Telegram */}
       <SectionCard title="Telegram Bot" icon={Smartphone}
       >
@@ -0,0 +1,290 @@
+// ---------------------------------------------------------------------------
+// OpenWebClaw — Usage page (token & cost accounting)
+// ---------------------------------------------------------------------------
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { BarChart3, Coins, Database, MessageSquare, Clock, Trash2 } from 'lucide-react';
+import { getUsage, clearUsage, getAllTasks } from '../../db.js';
+import { estimateCost } from '../../models.js';
+import { getOrchestrator } from '../../stores/orchestrator-store.js';
+import type { Task, UsageRecord } from '../../types.js';
+
+type Range = '7' | '30' | 'all';
+
+const RANGES: { value: Range; label: string }[] = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: 'all', label: 'All time' },
+];
+
+/** How many rows to show in the "most expensive" lists */
+const TOP_N = 5;
+
+interface Totals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  cost: number;
+}
+
+function emptyTotals(): Totals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0, cost: 0 };
+}
+
+function addTo(totals: Totals, record: UsageRecord, cost: number): void {
+  totals.calls += record.calls;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.cacheReadTokens += record.cacheReadTokens;
+  totals.cacheCreationTokens += record.cacheCreationTokens;
+  totals.cost += cost;
+}
+
+function groupBy(records: UsageRecord[], costs: Map<string, number>, key: (r: UsageRecord) => string | null): [string, Totals][] {
+  const groups = new Map<string, Totals>();
+  for (const record of records) {
+    const k = key(record);
+    if (k === null) continue;
+    const totals = groups.get(k) ?? emptyTotals();
+    addTo(totals, record, costs.get(record.id) ?? 0);
+    groups.set(k, totals);
+  }
+  return [...groups.entries()];
+}
+
+function sinceDay(range: Range): string | undefined {
+  if (range === 'all') return undefined;
+  const d = new Date();
+  d.setDate(d.getDate() - (Number(range) - 1));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1000) return `${(n / 1000).toFixed(1)}k`;
+  return String(n);
+}
+
+function formatCost(usd: number): string {
+  if (usd === 0) return '$0';
+  if (usd < 0.01) return '<$0.01';
+  return `$${usd.toFixed(2)}`;
+}
+
+function cacheHitRatio(t: Totals): number {
+  const prompt = t.inputTokens + t.cacheReadTokens + t.cacheCreationTokens;
+  return prompt > 0 ? t.cacheReadTokens / prompt : 0;
+}
+
+function StatCard({ label, value, hint, icon: Icon }: { label: string; value: string; hint?: string; icon: React.ElementType }) {
+  return (
+    <div className="rounded-xl border border-base-300/50 bg-base-100 p-4">
+      <div className="flex items-center gap-2 text-xs text-base-content/50 mb-1">
+        <Icon className="w-3.5 h-3.5" />
+        {label}
+      </div>
+      <div className="text-xl font-semibold">{value}</div>
+      {hint && <div className="text-xs text-base-content/40 mt-0.5">{hint}</div>}
+    </div>
+  );
+}
+
+function TotalsTable({ title, rows, empty }: { title: string; rows: [string, Totals][]; empty: string }) {
+  return (
+    <div className="rounded-xl border border-base-300/50 bg-base-100 overflow-hidden">
+      <div className="px-4 py-3 border-b border-base-300/50 font-semibold text-sm">{title}</div>
+      {rows.length === 0 ? (
+        <p className="px-4 py-3 text-sm text-base-content/40">{empty}</p>
+      ) : (
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th></th>
+              <th className="text-right">Calls</th>
+              <th className="text-right">Tokens</th>
+              <th className="text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(([label, t]) => (
+              <tr key={label}>
+                <td className="max-w-[16rem] truncate font-mono text-xs" title={label}>{label}</td>
+                <td className="text-right">{t.calls}</td>
+                <td className="text-right">
+                  {formatTokens(t.inputTokens + t.cacheReadTokens + t.cacheCreationTokens + t.outputTokens)}
+                </td>
+                <td className="text-right">{formatCost(t.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export function UsagePage() {
+  const [range, setRange] = useState<Range>('30');
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [clearConfirm, setClearConfirm] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const [usage, allTasks] = await Promise.all([getUsage(sinceDay(range)), getAllTasks()]);
+    setRecords(usage);
+    setTasks(allTasks);
+    setLoading(false);
+  }, [range]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function handleClear() {
+    setClearConfirm(false);
+    await clearUsage();
+    load();
+  }
+
+  const view = useMemo(() => {
+    // Price every record with the model's current prices
+    const orch = getOrchestrator();
+    const costs = new Map(records.map((r) => [r.id, estimateCost(r, orch.getModelCapabilities(r.model))]));
+
+    const totals = emptyTotals();
+    for (const r of records) addTo(totals, r, costs.get(r.id) ?? 0);
+
+    const byCost = (a: [string, Totals], b: [string, Totals]) => b[1].cost - a[1].cost || b[1].calls - a[1].calls;
+    const taskLabel = (taskId: string) => {
+      const task = tasks.find((t) => t.id === taskId);
+      return task ? task.prompt.slice(0, 60) : `Deleted task ${taskId.slice(-6)}`;
+    };
+
+    return {
+      totals,
+      days: groupBy(records, costs, (r) => r.day).sort((a, b) => b[0].localeCompare(a[0])),
+      models: groupBy(records, costs, (r) => `${r.provider} · ${r.model}`).sort(byCost),
+      conversations: groupBy(records, costs, (r) => (r.taskId ? null : r.groupId)).sort(byCost).slice(0, TOP_N),
+      tasks: groupBy(records, costs, (r) => (r.taskId ? taskLabel(r.taskId) : null)).sort(byCost).slice(0, TOP_N),
+    };
+  }, [records, tasks]);
+
+  const { totals } = view;
+  const maxDayTokens = Math.max(1, ...view.days.map(([, t]) => t.inputTokens + t.cacheReadTokens + t.cacheCreationTokens + t.outputTokens));
+
+  return (
+    <div className="h-full overflow-y-auto p-4 sm:p-6 max-w-4xl mx-auto space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-xl font-bold">Usage</h2>
+        <div className="flex items-center gap-2">
+          <select
+            className="select select-bordered select-sm"
+            value={range}
+            onChange={(e) => setRange(e.target.value as Range)}
+          >
+            {RANGES.map((r) => (
+              <option key={r.value} value={r.value}>{r.label}</option>
+            ))}
+          </select>
+          <button className="btn btn-ghost btn-sm" onClick={() => setClearConfirm(true)} title="Clear usage history">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <span className="loading loading-spinner loading-md" />
+        </div>
+      ) : records.length === 0 ? (
+        <p className="text-sm text-base-content/50 py-12 text-center">
+          No API calls recorded in this period.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <StatCard icon={Coins} label="Estimated cost" value={formatCost(totals.cost)} hint="From per-model prices" />
+            <StatCard icon={BarChart3} label="API calls" value={String(totals.calls)} />
+            <StatCard
+              icon={MessageSquare}
+              label="Tokens in / out"
+              value={`${formatTokens(totals.inputTokens + totals.cacheReadTokens + totals.cacheCreationTokens)} / ${formatTokens(totals.outputTokens)}`}
+            />
+            <StatCard
+              icon={Database}
+              label="Cache hit ratio"
+              value={`${Math.round(cacheHitRatio(totals) * 100)}%`}
+              hint={`${formatTokens(totals.cacheReadTokens)} cached tokens`}
+            />
+          </div>
+
+          {/* Daily tokens */}
+          <div className="rounded-xl border border-base-300/50 bg-base-100 p-4 space-y-1.5">
+            <div className="font-semibold text-sm mb-2">Daily</div>
+            {view.days.map(([day, t]) => {
+              const tokens = t.inputTokens + t.cacheReadTokens + t.cacheCreationTokens + t.outputTokens;
+              return (
+                <div key={day} className="flex items-center gap-3 text-xs">
+                  <span className="w-20 font-mono text-base-content/60">{day}</span>
+                  <div className="flex-1 h-2 bg-base-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-primary/60" style={{ width: `${(tokens / maxDayTokens) * 100}%` }} />
+                  </div>
+                  <span className="w-16 text-right font-mono">{formatTokens(tokens)}</span>
+                  <span className="w-16 text-right font-mono">{formatCost(t.cost)}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          <TotalsTable title="By model" rows={view.models} empty="No model usage." />
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <TotalsTable
+              title="Most expensive conversations"
+              rows={view.conversations}
+              empty="No chat usage in this period."
+            />
+            <TotalsTable
+              title="Most expensive scheduled tasks"
+              rows={view.tasks}
+              empty="No scheduled task runs in this period."
+            />
+          </div>
+
+          <p className="text-xs text-base-content/40 flex items-center gap-1">
+            <Clock className="w-3 h-3" />
+            Costs are estimates from the prices in Settings → Model and may differ from your provider's bill.
+          </p>
+        </>
+      )}
+
+      {/* Clear confirmation */}
+      {clearConfirm && (
+        <dialog className="modal modal-open">
+          <div className="modal-box max-w-sm">
+            <h3 className="font-bold text-lg">Clear usage history?</h3>
+            <p className="py-4">
+              All recorded token counts will be permanently removed.
+            </p>
+            <div className="modal-action">
+              <button className="btn btn-ghost" onClick={() => setClearConfirm(false)}>
+                Cancel
+              </button>
+              <button className="btn btn-error" onClick={handleClear}>
+                Clear
+              </button>
+            </div>
+          </div>
+          <form method="dialog" className="modal-backdrop">
+            <button onClick={() => setClearConfirm(false)}>close</button>
+          </form>
+        </dialog>
+      )}
+    </div>
+  );
+}
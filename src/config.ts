@@ -2,6 +2,8 @@
 // OpenWebClaw — Configuration constants
 // ---------------------------------------------------------------------------
 
+import type { RunBudget } from './types.js';
+
 /** Default assistant name (used in trigger pattern) */
 export const ASSISTANT_NAME = 'Momo';
 
@@ -13,8 +15,51 @@ export function buildTriggerPattern(name: string): RegExp {
 
 export const TRIGGER_PATTERN = buildTriggerPattern(ASSISTANT_NAME);
 
-/** How many recent messages to include in agent context */
-export const CONTEXT_WINDOW_SIZE = 50;
+/** Context window (tokens) assumed for models the registry doesn't know */
+export const DEFAULT_CONTEXT_LIMIT = 32_768;
+
+/** Fraction of the context window at which older history is compacted */
+export const DEFAULT_COMPACT_THRESHOLD = 0.8;
+
+/** Allowed range for the auto-compaction threshold */
+export const MIN_COMPACT_THRESHOLD = 0.5;
+export const MAX_COMPACT_THRESHOLD = 0.95;
+
+/** Most recent messages kept verbatim when older history is compacted */
+export const COMPACT_KEEP_RECENT = 6;
+
+/** Rough characters-per-token ratio used to budget context before sending */
+export const CHARS_PER_TOKEN = 4;
+
+/** Tool results from earlier turns are cut to this many characters when replayed */
+export const TRANSCRIPT_RESULT_MAX_CHARS = 4_000;
+
+/** Default limits for a chat-triggered agent run */
+export const DEFAULT_RUN_BUDGET: RunBudget = {
+  maxIterations: 25,
+  maxTokens: 1_000_000,
+  maxSeconds: 600,
+  maxToolCalls: 100,
+};
+
+/** Scheduled tasks run unattended, so their default limits are stricter */
+export const DEFAULT_TASK_RUN_BUDGET: RunBudget = {
+  maxIterations: 10,
+  maxTokens: 200_000,
+  maxSeconds: 180,
+  maxToolCalls: 30,
+};
+
+/** Limits for a sub-agent started with the delegate tool; also capped by the parent's budget */
+export const DELEGATE_RUN_BUDGET: RunBudget = {
+  maxIterations: 15,
+  maxTokens: 300_000,
+  maxSeconds: 300,
+  maxToolCalls: 50,
+};
+
+/** How deep sub-agents may nest; agents at this depth cannot delegate further */
+export const MAX_DELEGATE_DEPTH = 2;
 
 /** Max tokens for Claude API response */
 export const DEFAULT_MAX_TOKENS = 8096;
@@ -43,14 +88,95 @@ export const SCHEDULER_INTERVAL = 60_000;
 /** Message processing loop interval (ms) */
 export const PROCESS_LOOP_INTERVAL = 100;
 
+/** Default number of groups that may run the agent at the same time */
+export const DEFAULT_MAX_CONCURRENT_RUNS = 3;
+
+/** Upper bound for the agent worker pool */
+export const MAX_CONCURRENT_RUNS_LIMIT = 8;
+
+/** Retries for a failed provider request before giving up (or failing over) */
+export const PROVIDER_MAX_RETRIES = 3;
+
+/** First retry delay; doubles on every attempt */
+export const RETRY_BASE_DELAY_MS = 1000;
+
+/** Longest wait between retries, including server `retry-after` hints */
+export const RETRY_MAX_DELAY_MS = 30_000;
+
+/**
+ * Built-in tools that change shared state (files, memory, the shell) — run
+ * alone, in order. Sub-agents can use all of these, so delegate runs alone
+ * too. MCP and custom tools also run alone unless declared read-only.
+ */
+export const SERIAL_TOOLS: ReadonlySet<string> = new Set([
+  'write_file', 'edit_file', 'delete_file', 'move_file', 'copy_file', 'update_memory', 'bash', 'delegate',
+]);
+
+/** How many calls of one tool may run at once within a single model turn */
+export const TOOL_CONCURRENCY: Record<string, number> = {
+  fetch_url: 4,
+  read_file: 8,
+  list_files: 8,
+  search_files: 2,
+  read_memory: 1,
+  create_task: 1,
+  javascript: 1,
+};
+
+/** Concurrency cap for tools not listed in TOOL_CONCURRENCY */
+export const DEFAULT_TOOL_CONCURRENCY = 4;
+
+/** MCP protocol revision requested when connecting; servers may answer with an older one */
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+
+/** How long an MCP request may take before it is abandoned */
+export const MCP_REQUEST_TIMEOUT_MS = 60_000;
+
+/** Workspace folder holding user-defined tools (`<name>.json` manifest + `<name>.js` module) */
+export const CUSTOM_TOOLS_DIR = 'tools';
+
+/** How long a user-defined tool may run before its worker is terminated */
+export const CUSTOM_TOOL_TIMEOUT_MS = 30_000;
+
+/** Default and longest run time of a javascript tool evaluation, in seconds */
+export const JS_SANDBOX_DEFAULT_TIMEOUT = 10;
+export const JS_SANDBOX_MAX_TIMEOUT = 60;
+
+/** Largest single buffer or typed array the javascript sandbox may allocate */
+export const JS_SANDBOX_MAX_ALLOCATION = 256 * 1024 * 1024;
+
+/** Buffer and typed array bytes one javascript evaluation may allocate in total, freed or not */
+export const JS_SANDBOX_MAX_TOTAL_ALLOCATION = 512 * 1024 * 1024;
+
+/** Console output and result truncation limit for the javascript tool */
+export const JS_SANDBOX_MAX_OUTPUT = 20_000;
+
+/** list_files stops after this many entries */
+export const LIST_MAX_ENTRIES = 1000;
+
+/** search_files stops after this many matching lines unless asked for more */
+export const SEARCH_MAX_RESULTS = 100;
+
+/** Files larger than this are skipped by search_files */
+export const SEARCH_MAX_FILE_SIZE = 2_000_000;
+
+/** Matching and context lines longer than this are cut short in search_files output */
+export const SEARCH_MAX_LINE_LENGTH = 300;
+
+/** Route of the fetch relay served by the Vite dev server and the nginx image */
+export const DEFAULT_FETCH_RELAY_URL = '/api/relay';
+
 /** Fetch tool response truncation limit */
 export const FETCH_MAX_RESPONSE = 20_000;
 
+/** Redirects fetch_url follows itself, checking each one, before giving up */
+export const FETCH_MAX_REDIRECTS = 10;
+
 /** IndexedDB database name */
 export const DB_NAME = 'openwebclaw';
 
 /** IndexedDB version */
-export const DB_VERSION = 1;
+export const DB_VERSION = 3;
 
 /** OPFS root directory name */
 export const OPFS_ROOT = 'openwebclaw';
@@ -76,15 +202,36 @@ export const CONFIG_KEYS = {
   PASSPHRASE_SALT: 'passphrase_salt',
   PASSPHRASE_VERIFY: 'passphrase_verify',
   ASSISTANT_NAME: 'assistant_name',
-  PROVIDER: 'provider', // 'anthropic' | 'ollama' | 'openwebui'
+  PROVIDER: 'provider', // 'anthropic' | 'ollama' | 'openwebui' | 'openai'
   OLLAMA_URL: 'ollama_url',
   OPENWEBUI_URL: 'openwebui_url',
   OPENWEBUI_API_KEY: 'openwebui_api_key',
+  OPENAI_URL: 'openai_url',
+  OPENAI_API_KEY: 'openai_api_key',
+  MAX_CONCURRENT_RUNS: 'max_concurrent_runs',
+  COMPACT_THRESHOLD: 'compact_threshold',
+  MODEL_REGISTRY: 'model_registry',
+  FALLBACK_CHAIN: 'fallback_chain',
+  TOOL_POLICIES: 'tool_policies',
+  RUN_BUDGETS: 'run_budgets',
+  MCP_SERVERS: 'mcp_servers',
+  NETWORK_POLICIES: 'network_policies',
+  FETCH_CREDENTIALS: 'fetch_credentials',
+  FETCH_RELAY: 'fetch_relay',
+  FETCH_RELAY_SECRET: 'fetch_relay_secret',
 
 } as const;
 
 /** Provider types */
-export type Provider = 'anthropic' | 'ollama' | 'openwebui';
+export type Provider = 'anthropic' | 'ollama' | 'openwebui' | 'openai';
+
+/** Display names for providers */
+export const PROVIDER_LABELS: Record<Provider, string> = {
+  anthropic: 'Anthropic',
+  ollama: 'Ollama',
+  openwebui: 'OpenWebUI',
+  openai: 'OpenAI-compatible',
+};
 
 /** Default provider */
 export const DEFAULT_PROVIDER: Provider = 'anthropic';
@@ -95,4 +242,7 @@ export const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
 /** OpenWebUI default URL */
 export const DEFAULT_OPENWEBUI_URL = '/api/openwebui';
 
+/** OpenAI-compatible default base URL (LM Studio); includes the /v1 prefix */
+export const DEFAULT_OPENAI_URL = 'http://localhost:1234/v1';
+
 
@@ -0,0 +1,190 @@
+// ---------------------------------------------------------------------------
+// OpenWebClaw — User-defined tools
+// ---------------------------------------------------------------------------
+//
+// A group's workspace can define its own tools as a pair of files:
+//
+//   tools/<name>.json   {"description": "...", "input_schema": {"type": "object", ...}}
+//   tools/<name>.js     export default async function (input) { ... }
+//
+// A manifest may add `"read_only": true` for a tool without side effects,
+// so its calls can run alongside others; other tools run one at a time.
+//
+// They are loaded and validated at the start of each run and offered next
+// to the built-in tools. Every call runs in a fresh, locked-down tool
+// worker, which is terminated when the call returns, times out or the run
+// is cancelled. The tool's `fetch` requests are made here, under the
+// group's network policy; stored credentials are never attached to them.
+
+import { CUSTOM_TOOLS_DIR, CUSTOM_TOOL_TIMEOUT_MS } from './config.js';
+import { listGroupFiles, readGroupFile } from './storage.js';
+import { checkRequest, policyRestricts } from './network-policy.js';
+import type { NetworkPolicy, ToolDefinition, ToolFetchRequest, ToolFetchResult, ToolWorkerRequest, ToolWorkerResult } from './types.js';
+
+/** Providers accept tool names of up to 64 letters, digits, `_` and `-` */
+const TOOL_NAME = /^[a-zA-Z][a-zA-Z0-9_-]{0,63}$/;
+
+/**
+ * Load the tools defined in a group's workspace. Tools that fail validation
+ * are skipped and described in `errors`. Names in `reserved` are taken.
+ */
+export async function loadCustomTools(
+  groupId: string,
+  reserved: string[],
+): Promise<{ tools: ToolDefinition[]; errors: string[] }> {
+  let files: string[];
+  try {
+    files = await listGroupFiles(groupId, CUSTOM_TOOLS_DIR);
+  } catch {
+    // No tools folder
+    return { tools: [], errors: [] };
+  }
+
+  const tools: ToolDefinition[] = [];
+  const errors: string[] = [];
+  for (const file of files.filter((f) => f.endsWith('.json'))) {
+    const name = file.slice(0, -'.json'.length);
+    try {
+      tools.push(await loadCustomTool(groupId, name, files, reserved));
+    } catch (err: unknown) {
+      errors.push(`${CUSTOM_TOOLS_DIR}/${file}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return { tools, errors };
+}
+
+async function loadCustomTool(groupId: string, name: string, files: string[], reserved: string[]): Promise<ToolDefinition> {
+  if (!TOOL_NAME.test(name)) {
+    throw new Error('tool names must start with a letter and use only letters, digits, _ and - (64 at most)');
+  }
+  if (reserved.includes(name)) throw new Error(`the name "${name}" is taken by another tool`);
+  if (!files.includes(`${name}.js`)) throw new Error(`${name}.js is missing`);
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await readGroupFile(groupId, `${CUSTOM_TOOLS_DIR}/${name}.json`));
+  } catch (err: unknown) {
+    throw new Error(`not valid JSON (${err instanceof Error ? err.message : String(err)})`);
+  }
+  if (!isObject(manifest)) throw new Error('the manifest must be a JSON object');
+  if (typeof manifest.description !== 'string' || !manifest.description.trim()) {
+    throw new Error('the manifest needs a "description"');
+  }
+
+  const schema = manifest.input_schema ?? { type: 'object', properties: {} };
+  if (!isObject(schema) || schema.type !== 'object') {
+    throw new Error('"input_schema" must be a JSON schema with "type": "object"');
+  }
+  if (schema.properties !== undefined && !isObject(schema.properties)) {
+    throw new Error('"input_schema.properties" must be an object');
+  }
+  if (schema.required !== undefined && !(Array.isArray(schema.required) && schema.required.every((r) => typeof r === 'string'))) {
+    throw new Error('"input_schema.required" must be a list of property names');
+  }
+  if (manifest.read_only !== undefined && typeof manifest.read_only !== 'boolean') {
+    throw new Error('"read_only" must be true or false');
+  }
+
+  const code = await readGroupFile(groupId, `${CUSTOM_TOOLS_DIR}/${name}.js`);
+  if (!/\bexport\s+default\b/.test(code)) throw new Error(`${name}.js must \`export default\` a function`);
+
+  return {
+    name,
+    description: manifest.description.trim(),
+    input_schema: { ...schema, type: 'object', properties: schema.properties ?? {}, required: schema.required },
+    readOnly: manifest.read_only === true,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Call a user-defined tool in a fresh tool worker. The module is read at
+ * call time, so edits apply to the next call. Failures come back as text.
+ */
+export async function runCustomTool(
+  groupId: string,
+  name: string,
+  input: Record<string, unknown>,
+  networkPolicy: NetworkPolicy | undefined,
+  signal: AbortSignal,
+): Promise<string> {
+  const code = await readGroupFile(groupId, `${CUSTOM_TOOLS_DIR}/${name}.js`);
+  signal.throwIfAborted();
+
+  const worker = new Worker(new URL('./tool-worker.ts', import.meta.url), { type: 'module' });
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+      worker.terminate();
+    };
+    const onAbort = () => {
+      finish();
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      finish();
+      resolve(`Error: ${name} did not finish within ${CUSTOM_TOOL_TIMEOUT_MS / 1000}s and was stopped.`);
+    }, CUSTOM_TOOL_TIMEOUT_MS);
+
+    worker.onmessage = (event: MessageEvent<ToolWorkerResult | ToolFetchRequest>) => {
+      const message = event.data;
+      if (message.type === 'fetch') {
+        toolFetch(message, networkPolicy, signal).then((result) => worker.postMessage(result));
+        return;
+      }
+      finish();
+      resolve(message.ok ? message.output : `Error: ${message.error}`);
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish();
+      resolve(`Error: ${event.message || 'the tool worker failed'}`);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    const request: ToolWorkerRequest = { code, input };
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Make a tool's request if the network policy allows it. Redirects are only
+ * followed when the policy limits nothing, since the browser hides where
+ * they lead.
+ */
+async function toolFetch(
+  request: ToolFetchRequest,
+  policy: NetworkPolicy | undefined,
+  signal: AbortSignal,
+): Promise<ToolFetchResult> {
+  try {
+    const url = new URL(request.url);
+    const blocked = checkRequest(url, request.method, policy);
+    if (blocked) throw new Error(`request blocked — ${blocked}`);
+    const res = await fetch(url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      redirect: policyRestricts(policy) ? 'manual' : 'follow',
+      signal,
+    });
+    if (res.type === 'opaqueredirect') {
+      throw new Error(`${url.host} answered with a redirect, which cannot be checked against the network policy`);
+    }
+    return {
+      type: 'fetch-result',
+      id: request.id,
+      ok: true,
+      status: res.status,
+      statusText: res.statusText,
+      headers: Object.fromEntries(res.headers),
+      body: await res.text(),
+    };
+  } catch (err: unknown) {
+    return { type: 'fetch-result', id: request.id, ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
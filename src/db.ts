@@ -2,8 +2,8 @@
 // OpenWebClaw — IndexedDB database layer
 // ---------------------------------------------------------------------------
 
-import { DB_NAME, DB_VERSION } from './config.js';
-import type { StoredMessage, Task, ConfigEntry, Session, ConversationMessage } from './types.js';
+import { CHARS_PER_TOKEN, DB_NAME, DB_VERSION, TRANSCRIPT_RESULT_MAX_CHARS } from './config.js';
+import type { StoredMessage, Task, ConfigEntry, Session, ConversationBranch, ConversationMessage, Transcript, UsageRecord } from './types.js';
 
 let db: IDBDatabase | null = null;
 
@@ -29,6 +29,12 @@ export function openDatabase(): Promise<IDBDatabase> {
         database.createObjectStore('sessions', { keyPath: 'groupId' });
       }
 
+      // Transcripts store (tool-use steps behind each assistant reply)
+      if (!database.objectStoreNames.contains('transcripts')) {
+        const transcriptStore = database.createObjectStore('transcripts', { keyPath: 'messageId' });
+        transcriptStore.createIndex('by-group-time', ['groupId', 'timestamp']);
+      }
+
       // Tasks store (scheduled tasks)
       if (!database.objectStoreNames.contains('tasks')) {
         const taskStore = database.createObjectStore('tasks', { keyPath: 'id' });
@@ -40,6 +46,12 @@ export function openDatabase(): Promise<IDBDatabase> {
       if (!database.objectStoreNames.contains('config')) {
         database.createObjectStore('config', { keyPath: 'key' });
       }
+
+      // Usage store (token accounting per day/group/provider/model/task)
+      if (!database.objectStoreNames.contains('usage')) {
+        const usageStore = database.createObjectStore('usage', { keyPath: 'id' });
+        usageStore.createIndex('by-day', 'day');
+      }
     };
 
     request.onsuccess = () => {
@@ -114,30 +126,11 @@ export function saveMessage(msg: StoredMessage): Promise<void> {
   ).then(() => undefined);
 }
 
-export function getRecentMessages(
-  groupId: string,
-  limit: number,
-): Promise<StoredMessage[]> {
-  return new Promise((resolve, reject) => {
-    const tx = getDb().transaction('messages', 'readonly');
-    const store = tx.objectStore('messages');
-    const index = store.index('by-group-time');
-    const range = IDBKeyRange.bound([groupId, 0], [groupId, Infinity]);
-    const request = index.openCursor(range, 'prev');
-    const results: StoredMessage[] = [];
-
-    request.onsuccess = () => {
-      const cursor = request.result;
-      if (cursor && results.length < limit) {
-        results.push(cursor.value);
-        cursor.continue();
-      } else {
-        // Reverse so oldest first
-        resolve(results.reverse());
-      }
-    };
-    request.onerror = () => reject(request.error);
-  });
+/** All messages of a group, every branch, oldest first. */
+function getGroupMessages(groupId: string): Promise<StoredMessage[]> {
+  return txPromise('messages', 'readonly', (store) =>
+    store.index('by-group-time').getAll(IDBKeyRange.bound([groupId, 0], [groupId, Infinity])),
+  );
 }
 
 export function getMessageCount(groupId: string): Promise<number> {
@@ -188,6 +181,204 @@ export function saveSession(session: Session): Promise<void> {
   ).then(() => undefined);
 }
 
+function deleteSession(groupId: string): Promise<void> {
+  return txPromise('sessions', 'readwrite', (store) =>
+    store.delete(groupId),
+  ).then(() => undefined);
+}
+
+// ---------------------------------------------------------------------------
+// Conversation tree — edits and regenerations branch off as siblings
+// ---------------------------------------------------------------------------
+
+interface MessageTree {
+  messages: Map<string, StoredMessage>;
+  parentOf: Map<string, string | null>;
+  /** Children by parent ID, oldest first; roots are under '' */
+  children: Map<string, StoredMessage[]>;
+}
+
+/** Build the tree of a group's messages, given oldest first. */
+function buildTree(messages: StoredMessage[]): MessageTree {
+  const tree: MessageTree = { messages: new Map(messages.map((m) => [m.id, m])), parentOf: new Map(), children: new Map() };
+  let previous: string | null = null;
+  for (const m of messages) {
+    // Messages saved before branching existed follow the previous message
+    let parent = m.parentId === undefined ? previous : m.parentId;
+    if (parent !== null && !tree.messages.has(parent)) parent = null;
+    tree.parentOf.set(m.id, parent);
+    tree.children.set(parent ?? '', [...(tree.children.get(parent ?? '') ?? []), m]);
+    previous = m.id;
+  }
+  return tree;
+}
+
+/** Messages from the root down to `leafId`. */
+function pathTo(tree: MessageTree, leafId: string): StoredMessage[] {
+  const path: StoredMessage[] = [];
+  for (let id: string | null = leafId; id !== null && path.length < tree.messages.size; id = tree.parentOf.get(id) ?? null) {
+    path.push(tree.messages.get(id)!);
+  }
+  return path.reverse();
+}
+
+function siblingsOf(tree: MessageTree, id: string): string[] {
+  return (tree.children.get(tree.parentOf.get(id) ?? '') ?? []).map((m) => m.id);
+}
+
+/** The end of the active branch: the stored choice, else the newest message. */
+function activeLeaf(tree: MessageTree, session: Session | undefined, messages: StoredMessage[]): string | null {
+  if (session?.leafId && tree.messages.has(session.leafId)) return session.leafId;
+  return messages.length > 0 ? messages[messages.length - 1].id : null;
+}
+
+/**
+ * Get the branch of a group's conversation that is on screen, with the
+ * alternatives at each point where it forks.
+ */
+export async function getActiveBranch(groupId: string): Promise<ConversationBranch> {
+  const [all, session] = await Promise.all([getGroupMessages(groupId), getSession(groupId)]);
+  const tree = buildTree(all);
+  const leaf = activeLeaf(tree, session, all);
+  const messages = leaf ? pathTo(tree, leaf) : [];
+
+  const siblings: Record<string, string[]> = {};
+  for (const m of messages) {
+    const ids = siblingsOf(tree, m.id);
+    if (ids.length > 1) siblings[m.id] = ids;
+  }
+  return { messages, siblings };
+}
+
+/**
+ * Get the message a message follows, or null at the start of the conversation.
+ */
+export async function getParentId(message: StoredMessage): Promise<string | null> {
+  const tree = buildTree(await getGroupMessages(message.groupId));
+  return tree.parentOf.get(message.id) ?? null;
+}
+
+/**
+ * Make `messageId` part of the active branch. The branch continues down
+ * the newest reply at each fork below it.
+ */
+export async function switchBranch(groupId: string, messageId: string): Promise<void> {
+  const tree = buildTree(await getGroupMessages(groupId));
+  if (!tree.messages.has(messageId)) throw new Error(`Message ${messageId} not found`);
+  let leaf = messageId;
+  for (let next = tree.children.get(leaf); next?.length; next = tree.children.get(leaf)) {
+    leaf = next[next.length - 1].id;
+  }
+  await saveSession({ groupId, leafId: leaf, updatedAt: Date.now() });
+}
+
+/**
+ * End the active branch at `messageId`, so the next message follows it.
+ */
+export function setBranchEnd(groupId: string, messageId: string): Promise<void> {
+  return saveSession({ groupId, leafId: messageId, updatedAt: Date.now() });
+}
+
+/** Pending appends per group — each one must see the previous one's leaf */
+const appendChains = new Map<string, Promise<unknown>>();
+
+/**
+ * Save a new message at the end of the active branch (unless it names its
+ * own parent) and make it the branch's end. Resolves to the IDs of the
+ * message and its siblings, oldest first.
+ */
+export function appendMessage(msg: StoredMessage): Promise<string[]> {
+  const previous = appendChains.get(msg.groupId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(async () => {
+    const [all, session] = await Promise.all([getGroupMessages(msg.groupId), getSession(msg.groupId)]);
+    if (msg.parentId === undefined) {
+      msg.parentId = activeLeaf(buildTree(all), session, all);
+    }
+    await saveMessage(msg);
+    await setBranchEnd(msg.groupId, msg.id);
+    return siblingsOf(buildTree([...all, msg]), msg.id);
+  });
+  appendChains.set(msg.groupId, next);
+  return next;
+}
+
+/**
+ * Compaction: replace the messages before `firstKeptId` on its branch with
+ * `summary`, which the kept message then follows. Earlier messages that
+ * another branch still runs through are left to that branch.
+ */
+export async function compactBranch(groupId: string, firstKeptId: string, summary: StoredMessage): Promise<void> {
+  const tree = buildTree(await getGroupMessages(groupId));
+  const kept = tree.messages.get(firstKeptId);
+  if (!kept) throw new Error(`Message ${firstKeptId} not found`);
+
+  const ancestors = pathTo(tree, firstKeptId).slice(0, -1);
+  const onBranch = new Set([...ancestors.map((m) => m.id), firstKeptId]);
+  let lastFork = -1;
+  ancestors.forEach((m, i) => {
+    if ((tree.children.get(m.id) ?? []).some((child) => !onBranch.has(child.id))) lastFork = i;
+  });
+  const removed = ancestors.slice(lastFork + 1).map((m) => m.id);
+  const removedIds = new Set(removed);
+
+  // Messages saved before branching follow whichever message precedes them,
+  // so they get their current parent written down before any are removed
+  const pinned = [...tree.messages.values()]
+    .filter((m) => m.parentId === undefined && m.id !== firstKeptId && !removedIds.has(m.id))
+    .map((m) => ({ ...m, parentId: tree.parentOf.get(m.id) ?? null }));
+
+  await new Promise<void>((resolve, reject) => {
+    const tx = getDb().transaction(['messages', 'transcripts'], 'readwrite');
+    const messages = tx.objectStore('messages');
+    const transcripts = tx.objectStore('transcripts');
+    for (const id of removed) {
+      messages.delete(id);
+      transcripts.delete(id);
+    }
+    for (const m of pinned) messages.put(m);
+    messages.put({ ...kept, parentId: summary.id });
+    messages.put({ ...summary, parentId: null });
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Transcripts
+// ---------------------------------------------------------------------------
+
+export function saveTranscript(transcript: Transcript): Promise<void> {
+  return txPromise('transcripts', 'readwrite', (store) =>
+    store.put(transcript),
+  ).then(() => undefined);
+}
+
+function getTranscripts(messageIds: string[]): Promise<(Transcript | undefined)[]> {
+  return txPromiseAll('transcripts', 'readonly', (store) =>
+    messageIds.map((id) => store.get(id)),
+  );
+}
+
+/**
+ * Delete the records of a store's by-group-time index that fall in a key
+ * range. Resolves once the transaction commits.
+ */
+function deleteByGroupTime(storeName: string, range: IDBKeyRange): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tx = getDb().transaction(storeName, 'readwrite');
+    const request = tx.objectStore(storeName).index('by-group-time').openCursor(range);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Tasks
 // ---------------------------------------------------------------------------
@@ -247,6 +438,74 @@ export function updateTaskLastRun(id: string, timestamp: number): Promise<void>
   });
 }
 
+// ---------------------------------------------------------------------------
+// Usage
+// ---------------------------------------------------------------------------
+
+type UsageDelta = Pick<
+  UsageRecord,
+  'groupId' | 'provider' | 'model' | 'taskId' | 'inputTokens' | 'outputTokens' | 'cacheReadTokens' | 'cacheCreationTokens'
+>;
+
+function localDay(timestamp: number): string {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/**
+ * Add one API call's token counts to the matching daily usage record.
+ */
+export function recordUsage(delta: UsageDelta, timestamp: number = Date.now()): Promise<void> {
+  const day = localDay(timestamp);
+  const id = [day, delta.groupId, delta.provider, delta.model, delta.taskId ?? ''].join('|');
+  return new Promise((resolve, reject) => {
+    const tx = getDb().transaction('usage', 'readwrite');
+    const store = tx.objectStore('usage');
+    const getReq = store.get(id);
+    getReq.onsuccess = () => {
+      const existing = getReq.result as UsageRecord | undefined;
+      const record: UsageRecord = existing ?? {
+        id,
+        day,
+        groupId: delta.groupId,
+        provider: delta.provider,
+        model: delta.model,
+        taskId: delta.taskId,
+        calls: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheReadTokens: 0,
+        cacheCreationTokens: 0,
+      };
+      record.calls += 1;
+      record.inputTokens += delta.inputTokens;
+      record.outputTokens += delta.outputTokens;
+      record.cacheReadTokens += delta.cacheReadTokens;
+      record.cacheCreationTokens += delta.cacheCreationTokens;
+      const putReq = store.put(record);
+      putReq.onsuccess = () => resolve();
+      putReq.onerror = () => reject(putReq.error);
+    };
+    getReq.onerror = () => reject(getReq.error);
+  });
+}
+
+/**
+ * Get usage records, optionally only those on or after a given day (YYYY-MM-DD).
+ */
+export function getUsage(sinceDay?: string): Promise<UsageRecord[]> {
+  return txPromise('usage', 'readonly', (store) =>
+    sinceDay
+      ? store.index('by-day').getAll(IDBKeyRange.lowerBound(sinceDay))
+      : store.getAll(),
+  );
+}
+
+export function clearUsage(): Promise<void> {
+  return txPromise('usage', 'readwrite', (store) => store.clear());
+}
+
 // ---------------------------------------------------------------------------
 // Config
 // ---------------------------------------------------------------------------
@@ -276,39 +535,11 @@ export function getAllConfig(): Promise<ConfigEntry[]> {
 }
 
 /**
- * Delete all messages for a given group that occurred after a certain timestamp.
+ * Delete all messages for a given group, on every branch.
  */
-export function deleteMessagesAfter(groupId: string, timestamp: number): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const tx = getDb().transaction('messages', 'readwrite');
-    const store = tx.objectStore('messages');
-    const index = store.index('by-group-time');
-    // Start at [groupId, timestamp + 1] to keep the edited message itself
-    const range = IDBKeyRange.lowerBound([groupId, timestamp + 1]);
-    const request = index.openCursor(range);
-
-    request.onsuccess = () => {
-      const cursor = request.result;
-      if (cursor) {
-        // Double check group ID because lowerBound with multiple keys can match other groups
-        if (cursor.value.groupId === groupId) {
-          cursor.delete();
-          cursor.continue();
-        } else {
-          resolve();
-        }
-      } else {
-        resolve();
-      }
-    };
-    request.onerror = () => reject(request.error);
-  });
-}
-
-/**
- * Delete all messages for a given group.
- */
-export function clearGroupMessages(groupId: string): Promise<void> {
+export async function clearGroupMessages(groupId: string): Promise<void> {
+  await deleteByGroupTime('transcripts', IDBKeyRange.bound([groupId, 0], [groupId, Infinity]));
+  await deleteSession(groupId);
   return new Promise((resolve, reject) => {
     const tx = getDb().transaction('messages', 'readwrite');
     const store = tx.objectStore('messages');
@@ -331,13 +562,85 @@ export function clearGroupMessages(groupId: string): Promise<void> {
 // Build conversation messages for Claude API from stored messages
 // ---------------------------------------------------------------------------
 
-export async function buildConversationMessages(
+/** Cheap token estimate used for budgeting; providers report exact counts. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Get the newest messages of a group's active branch whose estimated size
+ * fits the token budget, oldest first. The latest message is always
+ * included, and a compaction summary at the start of the branch is kept
+ * even when it falls outside the budget.
+ */
+export async function getMessagesWithinBudget(
   groupId: string,
-  limit: number,
-): Promise<ConversationMessage[]> {
-  const messages = await getRecentMessages(groupId, limit);
+  tokenBudget: number,
+): Promise<StoredMessage[]> {
+  const { messages: branch } = await getActiveBranch(groupId);
+  const recent: StoredMessage[] = [];
+  let used = 0;
+  for (let i = branch.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(branch[i].content);
+    if (recent.length > 0 && used + cost > tokenBudget) break;
+    used += cost;
+    recent.push(branch[i]);
+  }
+  recent.reverse();
+
+  if (recent.length === 0 || recent[0].isSummary || !branch[0].isSummary) return recent;
+  return [branch[0], ...recent];
+}
+
+export function toConversationMessages(messages: StoredMessage[]): ConversationMessage[] {
   return messages.map((m) => ({
     role: m.isFromMe ? ('assistant' as const) : ('user' as const),
     content: m.isFromMe ? m.content : `${m.sender}: ${m.content}`,
   }));
 }
+
+/** Shorten long tool results so old tool steps stay cheap to replay. */
+function trimTranscript(messages: ConversationMessage[]): ConversationMessage[] {
+  return messages.map((m) =>
+    typeof m.content === 'string'
+      ? m
+      : {
+          ...m,
+          content: m.content.map((b) =>
+            b.type === 'tool_result' && b.content.length > TRANSCRIPT_RESULT_MAX_CHARS
+              ? { ...b, content: `${b.content.slice(0, TRANSCRIPT_RESULT_MAX_CHARS)}\n…[truncated]` }
+              : b,
+          ),
+        },
+  );
+}
+
+/**
+ * Build the conversation context for a group. Messages are chosen by
+ * `getMessagesWithinBudget`; whatever budget is left replays the tool-use
+ * steps behind the newest assistant replies, so the model remembers which
+ * files it read and which commands it ran.
+ */
+export async function buildConversationMessages(
+  groupId: string,
+  tokenBudget: number,
+): Promise<ConversationMessage[]> {
+  const stored = await getMessagesWithinBudget(groupId, tokenBudget);
+  const replies = stored.filter((m) => m.isFromMe && !m.isSummary);
+  const transcripts = await getTranscripts(replies.map((m) => m.id));
+
+  let remaining = tokenBudget - stored.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  const replay = new Map<string, ConversationMessage[]>();
+  for (let i = transcripts.length - 1; i >= 0; i--) {
+    const transcript = transcripts[i];
+    if (!transcript) continue;
+    const messages = trimTranscript(transcript.messages);
+    const cost = estimateTokens(JSON.stringify(messages));
+    // Stop at the first turn that doesn't fit so replayed steps stay contiguous
+    if (cost > remaining) break;
+    remaining -= cost;
+    replay.set(transcript.messageId, messages);
+  }
+
+  return stored.flatMap((m) => [...(replay.get(m.id) ?? []), ...toConversationMessages([m])]);
+}
@@ -0,0 +1,131 @@
+// ---------------------------------------------------------------------------
+// OpenWebClaw — Line diffs
+// ---------------------------------------------------------------------------
+//
+// Unified diffs of file edits, shown in the chat. Lines common to the start
+// and end are skipped first; the changed middle is compared with an LCS
+// table, or shown as wholly replaced when it is too large for one.
+
+/** Largest changed region, in line pairs, compared line by line */
+const MAX_LCS_CELLS = 1_000_000;
+
+type Op = { type: ' ' | '-' | '+'; line: string };
+
+/**
+ * A unified diff of `before` and `after` with `context` unchanged lines
+ * around each change. Empty when the texts are equal.
+ */
+export function unifiedDiff(before: string, after: string, path: string, context = 3): string {
+  if (before === after) return '';
+  const ops = diffLines(before.split('\n'), after.split('\n'));
+
+  const hunks: string[] = [];
+  let i = 0;
+  while (i < ops.length) {
+    // Find the next change, then extend the hunk while changes are close together
+    while (i < ops.length && ops[i].type === ' ') i++;
+    if (i >= ops.length) break;
+    const start = Math.max(0, i - context);
+    let end = i;
+    while (end < ops.length) {
+      if (ops[end].type !== ' ') {
+        end++;
+        continue;
+      }
+      let run = end;
+      while (run < ops.length && ops[run].type === ' ') run++;
+      if (run >= ops.length || run - end > context * 2) {
+        end = Math.min(ops.length, end + context);
+        break;
+      }
+      end = run;
+    }
+    hunks.push(formatHunk(ops, start, end));
+    i = end;
+  }
+  return [`--- a/${path}`, `+++ b/${path}`, ...hunks].join('\n');
+}
+
+/**
+ * Counts of added and removed lines in a unified diff. Only lines inside
+ * hunks count, so a changed line that itself starts with `--` or `++` is
+ * not mistaken for a file header.
+ */
+export function diffStats(diff: string): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  let inHunk = false;
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('@@')) inHunk = true;
+    else if (!inHunk) continue;
+    else if (line.startsWith('+')) added++;
+    else if (line.startsWith('-')) removed++;
+  }
+  return { added, removed };
+}
+
+function formatHunk(ops: Op[], start: number, end: number): string {
+  // Line numbers where the hunk starts in each file
+  let oldLine = 1;
+  let newLine = 1;
+  for (let k = 0; k < start; k++) {
+    if (ops[k].type !== '+') oldLine++;
+    if (ops[k].type !== '-') newLine++;
+  }
+  const slice = ops.slice(start, end);
+  const oldCount = slice.filter((op) => op.type !== '+').length;
+  const newCount = slice.filter((op) => op.type !== '-').length;
+  const header = `@@ -${oldCount ? oldLine : oldLine - 1},${oldCount} +${newCount ? newLine : newLine - 1},${newCount} @@`;
+  return [header, ...slice.map((op) => op.type + op.line)].join('\n');
+}
+
+function diffLines(a: string[], b: string[]): Op[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const middle = midA.length * midB.length <= MAX_LCS_CELLS
+    ? lcsOps(midA, midB)
+    : [...midA.map((line): Op => ({ type: '-', line })), ...midB.map((line): Op => ({ type: '+', line }))];
+
+  return [
+    ...a.slice(0, prefix).map((line): Op => ({ type: ' ', line })),
+    ...middle,
+    ...a.slice(a.length - suffix).map((line): Op => ({ type: ' ', line })),
+  ];
+}
+
+function lcsOps(a: string[], b: string[]): Op[] {
+  const n = a.length;
+  const m = b.length;
+  // lengths[i * (m + 1) + j] = LCS length of a[i:] and b[j:]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = a[i] === b[j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      ops.push({ type: '-', line: a[i++] });
+    } else {
+      ops.push({ type: '+', line: b[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: '-', line: a[i++] });
+  while (j < m) ops.push({ type: '+', line: b[j++] });
+  return ops;
+}
@@ -0,0 +1,126 @@
+// ---------------------------------------------------------------------------
+// OpenWebClaw — File tool helpers
+// ---------------------------------------------------------------------------
+//
+// Text handling behind read_file's ranged reads, edit_file's exact
+// replacements and list_files' detailed listings. Storage stays in
+// storage.ts; these functions only work on content already read from it.
+
+import { LIST_MAX_ENTRIES } from './config.js';
+import type { GroupEntry } from './storage.js';
+
+/** One replacement requested by edit_file */
+export interface FileEdit {
+  old_string: string;
+  new_string: string;
+  replace_all?: boolean;
+}
+
+/**
+ * Apply edits in order, each to the result of the previous one. Throws with
+ * a message for the model when an edit is malformed, its text is missing,
+ * or it matches more than once without `replace_all` — in which case none
+ * of the edits apply.
+ */
+export function applyEdits(content: string, edits: unknown): { content: string; replacements: number } {
+  if (!Array.isArray(edits) || edits.length === 0) {
+    throw new Error('"edits" must be a non-empty list of {old_string, new_string} objects.');
+  }
+
+  let replacements = 0;
+  edits.forEach((edit: Partial<FileEdit>, index) => {
+    const which = edits.length > 1 ? `Edit ${index + 1} of ${edits.length}` : 'The edit';
+    if (typeof edit?.old_string !== 'string' || typeof edit.new_string !== 'string') {
+      throw new Error(`${which} needs "old_string" and "new_string" strings.`);
+    }
+    if (edit.old_string === '') throw new Error(`${which} has an empty old_string; use write_file to create files.`);
+    if (edit.old_string === edit.new_string) throw new Error(`${which} has identical old_string and new_string.`);
+
+    const positions = findAll(content, edit.old_string);
+    if (positions.length === 0) {
+      throw new Error(
+        `${which}: old_string was not found${index > 0 ? ' (after applying the earlier edits)' : ''}. ` +
+        'It must match the file exactly, including whitespace and indentation — read the file again and copy the text.',
+      );
+    }
+    if (positions.length > 1 && !edit.replace_all) {
+      const lines = positions.slice(0, 10).map((pos) => lineAt(content, pos)).join(', ');
+      throw new Error(
+        `${which}: old_string matches ${positions.length} times (lines ${lines}${positions.length > 10 ? ', …' : ''}). ` +
+        'Include more surrounding text to make it unique, or set replace_all to change every match.',
+      );
+    }
+
+    content = content.split(edit.old_string).join(edit.new_string);
+    replacements += positions.length;
+  });
+  return { content, replacements };
+}
+
+/**
+ * Lines `offset` (1-based) to `offset + limit - 1`, optionally prefixed with
+ * their line numbers, and a note on where the range sits in the file.
+ */
+export function sliceLines(
+  content: string,
+  { offset, limit, lineNumbers }: { offset?: number; limit?: number; lineNumbers: boolean },
+): string {
+  const lines = content.split('\n');
+  const total = lines.length;
+  const start = Math.max(1, Math.floor(offset ?? 1));
+  if (start > total) return `(the file has ${total} lines; offset ${start} is past the end)`;
+  const end = limit && limit > 0 ? Math.min(total, start + Math.floor(limit) - 1) : total;
+
+  const width = String(end).length;
+  const body = lines
+    .slice(start - 1, end)
+    .map((line, i) => (lineNumbers ? `${String(start + i).padStart(width, ' ')}\t${line}` : line))
+    .join('\n');
+  if (start === 1 && end === total) return body;
+  return `${body}\n\n(lines ${start}-${end} of ${total}${end < total ? `; continue with offset ${end + 1}` : ''})`;
+}
+
+/**
+ * One line per entry: its path, or with `details` its size, modification
+ * time (UTC) and path, aligned like `ls -l`. Long listings are cut short.
+ */
+export function formatEntries(entries: GroupEntry[], details: boolean): string {
+  if (entries.length === 0) return '(empty directory)';
+  const shown = entries.slice(0, LIST_MAX_ENTRIES);
+  const lines = shown.map((entry) => {
+    if (!details) return entry.path;
+    if (entry.kind === 'directory') return `${'-'.padStart(9)}  ${''.padEnd(17)}  ${entry.path}`;
+    const modified = new Date(entry.modified).toISOString().slice(0, 16).replace('T', ' ') + 'Z';
+    return `${formatSize(entry.size).padStart(9)}  ${modified}  ${entry.path}`;
+  });
+  if (entries.length > shown.length) {
+    lines.push(`\n(showing ${shown.length} of ${entries.length} entries; list a subdirectory to see the rest)`);
+  }
+  return lines.join('\n');
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+function findAll(content: string, needle: string): number[] {
+  const positions: number[] = [];
+  for (let pos = content.indexOf(needle); pos !== -1; pos = content.indexOf(needle, pos + needle.length)) {
+    positions.push(pos);
+  }
+  return positions;
+}
+
+function lineAt(content: string, pos: number): number {
+  let line = 1;
+  for (let i = 0; i < pos; i++) if (content.charCodeAt(i) === 10) line++;
+  return line;
+}
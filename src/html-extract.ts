@@ -0,0 +1,459 @@
+// ---------------------------------------------------------------------------
+// OpenWebClaw — HTML extraction for fetch_url
+// ---------------------------------------------------------------------------
+//
+// Turns a fetched page into something a model can read cheaply: the page
+// title and metadata, the main content as Markdown (headings, links,
+// lists, tables and code kept; navigation, ads and other boilerplate
+// dropped), and the page's outgoing links. Main-content detection follows
+// Readability's approach: paragraphs score their ancestors, and the best
+// scoring container with a low link density wins.
+
+import { parse, type DefaultTreeAdapterTypes } from 'parse5';
+
+type Node = DefaultTreeAdapterTypes.Node;
+type ChildNode = DefaultTreeAdapterTypes.ChildNode;
+type Element = DefaultTreeAdapterTypes.Element;
+type Template = DefaultTreeAdapterTypes.Template;
+
+/** A link found on the page, with its URL made absolute */
+export interface PageLink {
+  text: string;
+  url: string;
+}
+
+/** What fetch_url reports about an HTML page */
+export interface ExtractedPage {
+  title: string;
+  /** Description, author, publication date, site name, language — whichever the page declares */
+  metadata: Record<string, string>;
+  /** Canonical URL if declared, otherwise the fetched URL */
+  url: string;
+  /** The main content as Markdown */
+  markdown: string;
+  links: PageLink[];
+}
+
+/** Never content */
+const REMOVED_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'embed',
+  'head', 'nav', 'aside', 'footer', 'dialog', 'button', 'input', 'select', 'textarea', 'label',
+]);
+
+/** ARIA roles of page furniture */
+const REMOVED_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary', 'dialog', 'alertdialog', 'search', 'menu', 'menubar']);
+
+/** Class and id words that mark boilerplate, unless POSITIVE_HINT also matches */
+const NEGATIVE_HINT =
+  /(^|[\s_-])(nav|navbar|navigation|menu|footer|sidebar|breadcrumbs?|cookies?|consent|banner|share|sharing|social|promo|ads?|advert\w*|sponsor\w*|related|recommended|newsletter|subscribe|popup|modal|comments?|skip|masthead|toolbar)([\s_-]|$)/i;
+const POSITIVE_HINT = /(^|[\s_-])(article|content|main|post|entry|story|body|text|prose)([\s_-]|$)/i;
+
+/** Elements rendered as blocks; everything else is inline */
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'caption', 'center', 'dd', 'details', 'div', 'dl',
+  'dt', 'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+  'hgroup', 'hr', 'html', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'tbody',
+  'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+]);
+
+/** Least text for a container to count as the main content */
+const MIN_CONTENT_LENGTH = 250;
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Extract the title, metadata, main content and links of an HTML page.
+ * `pageUrl` is the URL it was fetched from, used to resolve relative links.
+ */
+export function extractPage(html: string, pageUrl: string): ExtractedPage {
+  // parse5 always creates the html, head and body elements
+  const root = findFirst(parse(html), (el) => el.tagName === 'html')!;
+  const head = findFirst(root, (el) => el.tagName === 'head');
+  const body = findFirst(root, (el) => el.tagName === 'body')!;
+
+  const baseHref = head && findFirst(head, (el) => el.tagName === 'base' && !!attr(el, 'href'));
+  const base = (baseHref && resolveUrl(attr(baseHref, 'href')!, pageUrl)) || pageUrl;
+
+  const { title, metadata, canonical } = readMetadata(root, head, base);
+  const links = collectLinks(body, base, pageUrl);
+
+  prune(body, false);
+  const content = findMainContent(body);
+  const markdown = tidy(renderBlocks(children(content), base).join('\n\n'));
+
+  return { title, metadata, url: canonical || pageUrl, markdown, links };
+}
+
+// ---------------------------------------------------------------------------
+// Tree helpers
+// ---------------------------------------------------------------------------
+
+function isElement(node: Node): node is Element {
+  return 'tagName' in node;
+}
+
+function children(node: Node): ChildNode[] {
+  if (isElement(node) && node.tagName === 'template') return (node as Template).content.childNodes;
+  return 'childNodes' in node ? node.childNodes : [];
+}
+
+function attr(el: Element, name: string): string | undefined {
+  return el.attrs.find((a) => a.name === name)?.value;
+}
+
+function findFirst(node: Node, test: (el: Element) => boolean): Element | null {
+  for (const child of children(node)) {
+    if (!isElement(child)) continue;
+    if (test(child)) return child;
+    const found = findFirst(child, test);
+    if (found) return found;
+  }
+  return null;
+}
+
+function findAll(node: Node, test: (el: Element) => boolean, out: Element[] = []): Element[] {
+  for (const child of children(node)) {
+    if (!isElement(child)) continue;
+    if (test(child)) out.push(child);
+    findAll(child, test, out);
+  }
+  return out;
+}
+
+function textContent(node: Node): string {
+  if (node.nodeName === '#text') return (node as DefaultTreeAdapterTypes.TextNode).value;
+  return children(node).map(textContent).join('');
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function resolveUrl(href: string, base: string): string | null {
+  try {
+    return new URL(href.trim(), base).href;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Metadata and links
+// ---------------------------------------------------------------------------
+
+function readMetadata(root: Node, head: Element | null, base: string) {
+  const meta = (...keys: string[]) => {
+    for (const key of keys) {
+      const el = head && findFirst(head, (e) => e.tagName === 'meta' && (attr(e, 'name') ?? attr(e, 'property'))?.toLowerCase() === key);
+      const value = el && collapse(attr(el, 'content') ?? '');
+      if (value) return value;
+    }
+    return '';
+  };
+
+  const titleEl = head && findFirst(head, (el) => el.tagName === 'title');
+  const h1 = findFirst(root, (el) => el.tagName === 'h1');
+  const title = meta('og:title', 'twitter:title') || (titleEl && collapse(textContent(titleEl))) || (h1 && collapse(textContent(h1))) || '';
+
+  const time = findFirst(root, (el) => el.tagName === 'time' && !!attr(el, 'datetime'));
+  const metadata: Record<string, string> = {};
+  const add = (key: string, value: string | undefined | null) => {
+    if (value) metadata[key] = value;
+  };
+  add('Description', meta('description', 'og:description', 'twitter:description'));
+  add('Author', meta('author', 'article:author', 'dc.creator'));
+  add('Published', meta('article:published_time', 'date', 'dc.date', 'pubdate') || (time && attr(time, 'datetime')));
+  add('Site', meta('og:site_name', 'application-name'));
+  add('Language', isElement(root) ? attr(root, 'lang') : undefined);
+
+  const canonicalEl = head && findFirst(head, (el) => el.tagName === 'link' && attr(el, 'rel')?.toLowerCase() === 'canonical');
+  const canonicalHref = (canonicalEl && attr(canonicalEl, 'href')) || meta('og:url');
+  const canonical = canonicalHref ? resolveUrl(canonicalHref, base) : null;
+
+  return { title, metadata, canonical };
+}
+
+/** Every http(s) link on the page, once each, skipping links back to the page itself */
+function collectLinks(body: Node, base: string, pageUrl: string): PageLink[] {
+  const page = pageUrl.split('#')[0];
+  const seen = new Set<string>();
+  const links: PageLink[] = [];
+  for (const a of findAll(body, (el) => el.tagName === 'a' && !!attr(el, 'href'))) {
+    const url = resolveUrl(attr(a, 'href')!, base);
+    if (!url || !/^https?:/.test(url) || url.split('#')[0] === page || seen.has(url)) continue;
+    seen.add(url);
+    const image = findFirst(a, (el) => el.tagName === 'img');
+    const text = collapse(textContent(a)) || attr(a, 'title') || (image && attr(image, 'alt')) || '';
+    links.push({ text, url });
+  }
+  return links;
+}
+
+// ---------------------------------------------------------------------------
+// Boilerplate removal and main content
+// ---------------------------------------------------------------------------
+
+function isBoilerplate(el: Element, inContent: boolean): boolean {
+  if (REMOVED_TAGS.has(el.tagName)) return true;
+  // Headers of the page are navigation; headers of an article hold its title
+  if (el.tagName === 'header' && !inContent) return true;
+  if (attr(el, 'hidden') !== undefined || attr(el, 'aria-hidden') === 'true') return true;
+  if (/display:\s*none|visibility:\s*hidden/i.test(attr(el, 'style') ?? '')) return true;
+  if (REMOVED_ROLES.has(attr(el, 'role') ?? '')) return true;
+  if (el.tagName === 'body' || el.tagName === 'main' || el.tagName === 'article') return false;
+  const hint = `${attr(el, 'class') ?? ''} ${attr(el, 'id') ?? ''}`;
+  return NEGATIVE_HINT.test(hint) && !POSITIVE_HINT.test(hint);
+}
+
+/** Remove boilerplate elements in place */
+function prune(node: Node, inContent: boolean): void {
+  if (!('childNodes' in node)) return;
+  node.childNodes = node.childNodes.filter((child) => {
+    if (child.nodeName === '#comment') return false;
+    if (!isElement(child)) return true;
+    if (isBoilerplate(child, inContent)) return false;
+    prune(child, inContent || child.tagName === 'article' || child.tagName === 'main');
+    return true;
+  });
+}
+
+function linkDensity(el: Element): number {
+  const length = collapse(textContent(el)).length;
+  if (length === 0) return 1;
+  const linkLength = findAll(el, (e) => e.tagName === 'a').reduce((sum, a) => sum + collapse(textContent(a)).length, 0);
+  return linkLength / length;
+}
+
+/**
+ * The element holding the page's main content: a marked-up article or
+ * main region when it has enough text, otherwise the container the
+ * page's paragraphs score highest, otherwise the whole body.
+ */
+function findMainContent(body: Element): Element {
+  const marked = findAll(body, (el) =>
+    el.tagName === 'article' || el.tagName === 'main' || attr(el, 'role') === 'main' || attr(el, 'itemprop') === 'articleBody')
+    .map((el) => ({ el, length: collapse(textContent(el)).length }))
+    .filter(({ length }) => length >= MIN_CONTENT_LENGTH)
+    .sort((a, b) => b.length - a.length);
+  if (marked.length > 0) return marked[0].el;
+
+  const scores = new Map<Element, number>();
+  const parents = new Map<Element, Element>();
+  const mapParents = (el: Element) => {
+    for (const child of children(el)) {
+      if (!isElement(child)) continue;
+      parents.set(child, el);
+      mapParents(child);
+    }
+  };
+  mapParents(body);
+
+  for (const p of findAll(body, (el) => el.tagName === 'p' || el.tagName === 'pre' || el.tagName === 'td')) {
+    const text = collapse(textContent(p));
+    if (text.length < 25) continue;
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = parents.get(p);
+    const grandparent = parent && parents.get(parent);
+    if (parent) scores.set(parent, (scores.get(parent) ?? 0) + score);
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? 0) + score / 2);
+  }
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity(el));
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+  return best && collapse(textContent(best)).length >= MIN_CONTENT_LENGTH ? best : body;
+}
+
+// ---------------------------------------------------------------------------
+// Markdown rendering
+// ---------------------------------------------------------------------------
+
+/** Render nodes as Markdown blocks; runs of inline content become paragraphs */
+function renderBlocks(nodes: ChildNode[], base: string): string[] {
+  const blocks: string[] = [];
+  let inline = '';
+  const flush = () => {
+    const text = inline.replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').trim();
+    if (text) blocks.push(text);
+    inline = '';
+  };
+  for (const node of nodes) {
+    if (isElement(node) && BLOCK_TAGS.has(node.tagName)) {
+      flush();
+      blocks.push(...renderBlock(node, base));
+    } else {
+      inline += renderInline(node, base);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+function renderBlock(el: Element, base: string): string[] {
+  const tag = el.tagName;
+  const heading = /^h([1-6])$/.exec(tag);
+  if (heading) {
+    const text = collapse(renderInlineChildren(el, base));
+    return text ? [`${'#'.repeat(Number(heading[1]))} ${text}`] : [];
+  }
+
+  switch (tag) {
+    case 'hr':
+      return ['---'];
+    case 'pre':
+      return [renderCode(el)];
+    case 'blockquote': {
+      const inner = renderBlocks(children(el), base).join('\n\n');
+      return inner ? [inner.split('\n').map((line) => (line ? `> ${line}` : '>')).join('\n')] : [];
+    }
+    case 'ul':
+    case 'ol':
+      return [renderList(el, base)].filter(Boolean);
+    case 'li':
+      return [renderListItem(el, '- ', base)].filter(Boolean);
+    case 'table':
+      return renderTable(el, base);
+    case 'dt': {
+      const text = collapse(renderInlineChildren(el, base));
+      return text ? [`**${text}**`] : [];
+    }
+    case 'figcaption': {
+      const text = collapse(renderInlineChildren(el, base));
+      return text ? [`*${text}*`] : [];
+    }
+    default:
+      return renderBlocks(children(el), base);
+  }
+}
+
+function renderInlineChildren(el: Element, base: string): string {
+  return children(el).map((child) => renderInline(child, base)).join('');
+}
+
+function renderInline(node: ChildNode, base: string): string {
+  if (node.nodeName === '#text') return (node as DefaultTreeAdapterTypes.TextNode).value.replace(/\s+/g, ' ');
+  if (!isElement(node)) return '';
+
+  const inner = () => renderInlineChildren(node, base);
+  switch (node.tagName) {
+    case 'br':
+      return '\n';
+    case 'a': {
+      const text = collapse(inner());
+      const href = attr(node, 'href');
+      const url = href && resolveUrl(href, base);
+      if (!url || !/^(https?|mailto):/.test(url)) return text;
+      return text ? `[${text}](${url})` : '';
+    }
+    case 'img': {
+      const src = attr(node, 'src');
+      const url = src && resolveUrl(src, base);
+      return url && /^https?:/.test(url) ? `![${collapse(attr(node, 'alt') ?? '')}](${url})` : '';
+    }
+    case 'strong':
+    case 'b':
+      return wrapInline(inner(), '**');
+    case 'em':
+    case 'i':
+      return wrapInline(inner(), '*');
+    case 's':
+    case 'del':
+    case 'strike':
+      return wrapInline(inner(), '~~');
+    case 'code':
+    case 'kbd':
+    case 'samp': {
+      const code = textContent(node).replace(/\s+/g, ' ');
+      const fence = code.includes('`') ? '``' : '`';
+      return code.trim() ? `${fence}${code}${fence}` : '';
+    }
+    default:
+      // Blocks nested in inline content are flattened to text
+      return BLOCK_TAGS.has(node.tagName) ? ` ${inner()} ` : inner();
+  }
+}
+
+/** Wrap text in a marker, keeping surrounding spaces outside it */
+function wrapInline(text: string, marker: string): string {
+  const trimmed = text.trim();
+  if (!trimmed) return text;
+  const lead = text.startsWith(' ') ? ' ' : '';
+  const trail = text.endsWith(' ') ? ' ' : '';
+  return `${lead}${marker}${trimmed}${marker}${trail}`;
+}
+
+function renderCode(pre: Element): string {
+  const code = findFirst(pre, (el) => el.tagName === 'code');
+  const classes = `${attr(pre, 'class') ?? ''} ${code ? attr(code, 'class') ?? '' : ''}`;
+  const language = /(?:language|lang)-([\w+#-]+)/.exec(classes)?.[1] ?? '';
+  const text = textContent(pre).replace(/^\n/, '').replace(/\s+$/, '');
+  const fence = text.includes('```') ? '````' : '```';
+  return `${fence}${language}\n${text}\n${fence}`;
+}
+
+function renderList(list: Element, base: string): string {
+  const ordered = list.tagName === 'ol';
+  let number = Number(attr(list, 'start') ?? 1) || 1;
+  const items: string[] = [];
+  for (const child of children(list)) {
+    if (!isElement(child)) continue;
+    const marker = ordered ? `${number++}. ` : '- ';
+    const item = child.tagName === 'li' ? renderListItem(child, marker, base) : renderBlocks([child], base).join('\n');
+    if (item) items.push(item);
+  }
+  return items.join('\n');
+}
+
+function renderListItem(li: Element, marker: string, base: string): string {
+  const content = renderBlocks(children(li), base).join('\n');
+  if (!content) return '';
+  const indent = ' '.repeat(marker.length);
+  return marker + content.split('\n').map((line, i) => (i === 0 || !line ? line : indent + line)).join('\n');
+}
+
+/** A GFM table; layout tables with a single row or column render as their content */
+function renderTable(table: Element, base: string): string[] {
+  // Rows of this table only, not of tables nested in its cells
+  const rows = children(table)
+    .flatMap((child) => (isElement(child) && ['thead', 'tbody', 'tfoot'].includes(child.tagName) ? children(child) : [child]))
+    .filter((child): child is Element => isElement(child) && child.tagName === 'tr');
+  const cells = rows.map((tr) =>
+    children(tr)
+      .filter((c): c is Element => isElement(c) && (c.tagName === 'td' || c.tagName === 'th'))
+      .map((cell) => collapse(renderInlineChildren(cell, base)).replace(/\|/g, '\\|')));
+  const columns = Math.max(0, ...cells.map((row) => row.length));
+  if (rows.length < 2 || columns < 2) return renderBlocks(children(table), base);
+
+  const pad = (row: string[]) => [...row, ...Array(columns - row.length).fill('')];
+  const line = (row: string[]) => `| ${pad(row).join(' | ')} |`;
+  const caption = findFirst(table, (el) => el.tagName === 'caption');
+  return [
+    ...(caption ? [`*${collapse(textContent(caption))}*`] : []),
+    [line(cells[0]), line(Array(columns).fill('---')), ...cells.slice(1).map(line)].join('\n'),
+  ];
+}
+
+/** Trim trailing spaces and collapse runs of blank lines, leaving code blocks alone */
+function tidy(markdown: string): string {
+  let inFence = false;
+  const lines: string[] = [];
+  for (const line of markdown.split('\n')) {
+    if (/^(```|````)/.test(line)) inFence = !inFence;
+    if (inFence) {
+      lines.push(line);
+      continue;
+    }
+    const trimmed = line.trimEnd();
+    if (!trimmed && !lines[lines.length - 1]) continue;
+    lines.push(trimmed);
+  }
+  return lines.join('\n').trim();
+}
@@ -0,0 +1,601 @@
+// ---------------------------------------------------------------------------
+// OpenWebClaw — MCP (Model Context Protocol) client
+// ---------------------------------------------------------------------------
+//
+// Connects to MCP servers over Streamable HTTP (a POST per request, answered
+// with JSON or a short SSE stream) or the older HTTP+SSE transport (one
+// long-lived event stream; requests are POSTed to the endpoint it announces).
+// The servers' tools are offered to the agent as `<server>__<tool>`; the
+// worker forwards calls to them back here. Connections live on the main
+// thread so auth headers never leave it. Headers are stored encrypted.
+//
+// Servers must allow the app's origin (CORS), and Streamable HTTP servers
+// must expose the `Mcp-Session-Id` header if they use sessions.
+
+import { CONFIG_KEYS, MCP_PROTOCOL_VERSION, MCP_REQUEST_TIMEOUT_MS } from './config.js';
+import { getConfig, setConfig } from './db.js';
+import { encryptValue, decryptValue } from './crypto.js';
+import { ulid } from './ulid.js';
+import type { McpPrompt, McpResource, McpServerConfig, McpServerStatus, McpTool, ToolDefinition } from './types.js';
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: unknown;
+}
+
+/** How a server is persisted: its headers as one encrypted JSON object */
+interface StoredMcpServer extends McpServerConfig {
+  headers: string;
+}
+
+const CLIENT_INFO = { name: 'OpenWebClaw', version: '1.0.0' };
+
+/** Providers accept tool names of up to 64 letters, digits, `_` and `-` */
+const MAX_TOOL_NAME = 64;
+
+/**
+ * The name a server's tool is offered under, e.g. `github__create_issue`.
+ * Names that had to be shortened or have characters replaced end in a hash
+ * of the original, so two such tools never end up with the same name.
+ */
+export function mcpToolName(serverName: string, toolName: string): string {
+  const prefix = serverName.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'mcp';
+  const name = `${prefix}__${toolName}`;
+  const safe = name.replace(/[^a-zA-Z0-9_-]/g, '_');
+  if (safe === name && name.length <= MAX_TOOL_NAME) return name;
+  return `${safe.slice(0, MAX_TOOL_NAME - 7)}_${shortHash(name)}`;
+}
+
+/** Six base-36 characters of the FNV-1a hash of `text` */
+function shortHash(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0).toString(36).padStart(7, '0').slice(-6);
+}
+
+// ---------------------------------------------------------------------------
+// Transport
+// ---------------------------------------------------------------------------
+
+/** Server-sent events with their event names. */
+async function* readEvents(res: Response): AsyncGenerator<{ event: string; data: string }> {
+  if (!res.body) throw new Error('Response has no body to stream');
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+        if (line === '') {
+          if (data.length > 0) yield { event, data: data.join('\n') };
+          event = 'message';
+          data = [];
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+    }
+    if (data.length > 0) yield { event, data: data.join('\n') };
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+function parseMessage(data: string): JsonRpcMessage | null {
+  try {
+    return toMessage(JSON.parse(data));
+  } catch {
+    return null;
+  }
+}
+
+function toMessage(value: unknown): JsonRpcMessage | null {
+  if (!isObject(value)) return null;
+  const { id, method, params, result, error } = value;
+  return {
+    jsonrpc: '2.0',
+    id: typeof id === 'number' || typeof id === 'string' ? id : undefined,
+    method: optionalString(method),
+    params,
+    result,
+    error,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Replies — servers are untrusted, so every field is checked before use
+// ---------------------------------------------------------------------------
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/** Flatten a `tools/call` result into text for the model. */
+function formatCallResult(result: Record<string, unknown>): string {
+  const content = Array.isArray(result.content) ? result.content : [];
+  const parts = content.map((block: unknown) => {
+    if (!isObject(block)) return '[unknown content]';
+    const resource = isObject(block.resource) ? block.resource : {};
+    switch (block.type) {
+      case 'text':
+        return optionalString(block.text) ?? '';
+      case 'resource':
+        return optionalString(resource.text) ?? `[resource: ${optionalString(resource.uri)}]`;
+      case 'resource_link':
+        return `[resource: ${optionalString(block.uri)}]`;
+      default: {
+        const mimeType = optionalString(block.mimeType);
+        return `[${optionalString(block.type) ?? 'unknown'}${mimeType ? `: ${mimeType}` : ''}]`;
+      }
+    }
+  });
+  if (parts.length === 0 && result.structuredContent) parts.push(JSON.stringify(result.structuredContent));
+  const text = parts.join('\n') || '(no output)';
+  return result.isError === true ? `Error: ${text}` : text;
+}
+
+function toolFrom(item: Record<string, unknown>): McpTool | null {
+  if (typeof item.name !== 'string') return null;
+  const schema = isObject(item.inputSchema) ? item.inputSchema : {};
+  const required = Array.isArray(schema.required) ? schema.required.filter((r): r is string => typeof r === 'string') : undefined;
+  return {
+    name: item.name,
+    description: optionalString(item.description),
+    inputSchema: {
+      ...schema,
+      type: 'object',
+      properties: isObject(schema.properties) ? schema.properties : {},
+      required,
+    },
+    annotations: isObject(item.annotations) ? { readOnlyHint: item.annotations.readOnlyHint === true } : undefined,
+  };
+}
+
+function promptFrom(item: Record<string, unknown>): McpPrompt | null {
+  if (typeof item.name !== 'string') return null;
+  const args = Array.isArray(item.arguments) ? item.arguments.filter(isObject) : undefined;
+  return {
+    name: item.name,
+    description: optionalString(item.description),
+    arguments: args?.flatMap((arg) => typeof arg.name === 'string'
+      ? [{ name: arg.name, description: optionalString(arg.description), required: arg.required === true }]
+      : []),
+  };
+}
+
+function resourceFrom(item: Record<string, unknown>): McpResource | null {
+  if (typeof item.uri !== 'string') return null;
+  return {
+    uri: item.uri,
+    name: optionalString(item.name) ?? item.uri,
+    description: optionalString(item.description),
+    mimeType: optionalString(item.mimeType),
+  };
+}
+
+/**
+ * A session with one MCP server.
+ */
+class McpClient {
+  private nextId = 1;
+  private sessionId: string | null = null;
+  private protocolVersion: string | null = null;
+  private serverCapabilities: Record<string, unknown> = {};
+  /** HTTP+SSE transport: the open event stream, where to POST, and requests awaiting an answer */
+  private stream: AbortController | null = null;
+  private postUrl: string | null = null;
+  private pending = new Map<number | string, { resolve: (msg: JsonRpcMessage) => void; reject: (err: unknown) => void }>();
+
+  constructor(private readonly config: McpServerConfig, private readonly headers: Record<string, string>) {}
+
+  /** Open the session: initialize, then confirm with `notifications/initialized`. */
+  async connect(): Promise<void> {
+    if (this.config.transport === 'sse') await this.openStream();
+    const result = await this.request('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    });
+    this.protocolVersion = optionalString(result.protocolVersion) ?? MCP_PROTOCOL_VERSION;
+    this.serverCapabilities = isObject(result.capabilities) ? result.capabilities : {};
+    await this.notify('notifications/initialized');
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    return this.serverCapabilities.tools ? this.listAll('tools/list', 'tools', toolFrom) : [];
+  }
+
+  async listPrompts(): Promise<McpPrompt[]> {
+    return this.serverCapabilities.prompts ? this.listAll('prompts/list', 'prompts', promptFrom) : [];
+  }
+
+  async listResources(): Promise<McpResource[]> {
+    return this.serverCapabilities.resources ? this.listAll('resources/list', 'resources', resourceFrom) : [];
+  }
+
+  async callTool(name: string, args: Record<string, unknown>): Promise<string> {
+    return formatCallResult(await this.request('tools/call', { name, arguments: args }));
+  }
+
+  /** End the session. Requests still waiting fail. */
+  close(): void {
+    for (const { reject } of this.pending.values()) reject(new Error('Connection closed'));
+    this.pending.clear();
+    this.stream?.abort();
+    if (this.config.transport === 'http' && this.sessionId) {
+      fetch(this.config.url, { method: 'DELETE', headers: this.requestHeaders() }).catch(() => {});
+    }
+  }
+
+  /** Every page of a list method; entries `parse` rejects are left out */
+  private async listAll<T>(method: string, key: string, parse: (item: Record<string, unknown>) => T | null): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.request(method, cursor ? { cursor } : {});
+      const page = Array.isArray(result[key]) ? result[key] : [];
+      for (const item of page) {
+        const parsed = isObject(item) ? parse(item) : null;
+        if (parsed) items.push(parsed);
+      }
+      cursor = optionalString(result.nextCursor);
+    } while (cursor);
+    return items;
+  }
+
+  private async request(method: string, params: unknown): Promise<Record<string, unknown>> {
+    const message: JsonRpcMessage = { jsonrpc: '2.0', id: this.nextId++, method, params };
+    const signal = AbortSignal.timeout(MCP_REQUEST_TIMEOUT_MS);
+    const reply = this.config.transport === 'sse'
+      ? await this.sendOverStream(message, signal)
+      : await this.sendHttp(message, signal);
+    if (reply.error) {
+      const detail = isObject(reply.error) ? optionalString(reply.error.message) : undefined;
+      throw new Error(`${method} failed: ${detail ?? JSON.stringify(reply.error)}`);
+    }
+    return isObject(reply.result) ? reply.result : {};
+  }
+
+  private async notify(method: string): Promise<void> {
+    const message: JsonRpcMessage = { jsonrpc: '2.0', method };
+    const res = await this.post(this.postUrl ?? this.config.url, message, AbortSignal.timeout(MCP_REQUEST_TIMEOUT_MS));
+    await res.body?.cancel();
+  }
+
+  private requestHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      ...this.headers,
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+    };
+    if (this.sessionId) headers['Mcp-Session-Id'] = this.sessionId;
+    if (this.protocolVersion) headers['MCP-Protocol-Version'] = this.protocolVersion;
+    return headers;
+  }
+
+  private async post(url: string, message: JsonRpcMessage, signal: AbortSignal): Promise<Response> {
+    const res = await fetch(url, { method: 'POST', headers: this.requestHeaders(), body: JSON.stringify(message), signal });
+    if (!res.ok) {
+      const body = await res.text().catch(() => '');
+      throw new Error(`HTTP ${res.status}${body ? `: ${body.slice(0, 300)}` : ''}`);
+    }
+    this.sessionId = res.headers.get('mcp-session-id') ?? this.sessionId;
+    return res;
+  }
+
+  /** Streamable HTTP: the answer is the JSON body, or arrives on an SSE stream. */
+  private async sendHttp(message: JsonRpcMessage, signal: AbortSignal): Promise<JsonRpcMessage> {
+    const res = await this.post(this.config.url, message, signal);
+    if (res.headers.get('content-type')?.includes('text/event-stream')) {
+      for await (const { data } of readEvents(res)) {
+        const reply = parseMessage(data);
+        if (reply && reply.id === message.id && !reply.method) return reply;
+      }
+      throw new Error('The server closed the stream without answering');
+    }
+    const body: unknown = await res.json();
+    const reply = (Array.isArray(body) ? body : [body]).map(toMessage).find((m) => m?.id === message.id);
+    if (!reply) throw new Error('The server sent no answer');
+    return reply;
+  }
+
+  /** HTTP+SSE: POST the request, then wait for its answer on the event stream. */
+  private sendOverStream(message: JsonRpcMessage, signal: AbortSignal): Promise<JsonRpcMessage> {
+    const id = message.id!;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.pending.delete(id);
+        reject(signal.reason);
+      };
+      this.pending.set(id, {
+        resolve: (reply) => {
+          this.pending.delete(id);
+          signal.removeEventListener('abort', onAbort);
+          resolve(reply);
+        },
+        reject: (err) => {
+          this.pending.delete(id);
+          signal.removeEventListener('abort', onAbort);
+          reject(err);
+        },
+      });
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.post(this.postUrl!, message, signal)
+        .then((res) => res.body?.cancel())
+        .catch((err) => this.pending.get(id)?.reject(err));
+    });
+  }
+
+  /** Open the HTTP+SSE event stream and wait for the endpoint it announces. */
+  private async openStream(): Promise<void> {
+    const stream = new AbortController();
+    this.stream = stream;
+    const timer = setTimeout(() => stream.abort(new Error('The server did not announce a message endpoint')), MCP_REQUEST_TIMEOUT_MS);
+    try {
+      const res = await fetch(this.config.url, {
+        headers: { ...this.headers, Accept: 'text/event-stream' },
+        signal: stream.signal,
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+      // The same reader keeps listening once the endpoint is known
+      const events = readEvents(res);
+      while (!this.postUrl) {
+        const next = await events.next();
+        if (next.done) throw new Error('The server did not announce a message endpoint');
+        if (next.value.event === 'endpoint') this.postUrl = new URL(next.value.data.trim(), this.config.url).href;
+      }
+      this.listen(events);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async listen(events: AsyncGenerator<{ event: string; data: string }>): Promise<void> {
+    try {
+      for await (const { event, data } of events) {
+        if (event !== 'message') continue;
+        const msg = parseMessage(data);
+        if (msg?.id !== undefined && !msg.method) this.pending.get(msg.id)?.resolve(msg);
+      }
+    } catch {
+      // Closed or aborted
+    }
+    for (const { reject } of this.pending.values()) reject(new Error('The event stream closed'));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Server registry
+// ---------------------------------------------------------------------------
+
+interface ServerEntry {
+  config: McpServerConfig;
+  headers: Record<string, string>;
+  client: McpClient | null;
+  status: McpServerStatus;
+}
+
+function emptyStatus(config: McpServerConfig): McpServerStatus {
+  return { config, state: config.enabled ? 'connecting' : 'disabled', tools: [], prompts: [], resources: [] };
+}
+
+/**
+ * The registered MCP servers and their connections.
+ */
+export class McpManager {
+  private entries: ServerEntry[] = [];
+  private changeCallback: (() => void) | null = null;
+
+  /**
+   * Called whenever a server is added, edited or changes connection state.
+   */
+  onChange(callback: () => void): void {
+    this.changeCallback = callback;
+  }
+
+  /**
+   * Load the registered servers and decrypt their headers.
+   */
+  async load(): Promise<void> {
+    const raw = await getConfig(CONFIG_KEYS.MCP_SERVERS);
+    if (!raw) return;
+    let stored: StoredMcpServer[];
+    try {
+      stored = JSON.parse(raw);
+    } catch {
+      console.warn('Ignoring unreadable MCP server list');
+      return;
+    }
+    for (const { headers: encrypted, ...config } of stored) {
+      let headers: Record<string, string> = {};
+      try {
+        headers = encrypted ? JSON.parse(await decryptValue(encrypted)) : {};
+      } catch {
+        console.warn(`Could not decrypt the headers of MCP server ${config.name}`);
+      }
+      this.entries.push({ config, headers, client: null, status: emptyStatus(config) });
+    }
+  }
+
+  /**
+   * Connect every enabled server. Failures show in the server's status.
+   */
+  async connectAll(): Promise<void> {
+    await Promise.all(this.entries.filter((e) => e.config.enabled).map((e) => this.connect(e)));
+  }
+
+  /**
+   * Close every connection.
+   */
+  closeAll(): void {
+    for (const entry of this.entries) entry.client?.close();
+  }
+
+  getServers(): McpServerStatus[] {
+    return this.entries.map((e) => structuredClone(e.status));
+  }
+
+  getHeaders(id: string): Record<string, string> {
+    return { ...this.find(id).headers };
+  }
+
+  /**
+   * Register a server and connect to it if enabled.
+   */
+  async addServer(server: Omit<McpServerConfig, 'id'>, headers: Record<string, string>): Promise<void> {
+    const config = this.validate({ ...server, id: ulid() });
+    const entry: ServerEntry = { config, headers, client: null, status: emptyStatus(config) };
+    this.entries.push(entry);
+    await this.save();
+    await this.connect(entry);
+  }
+
+  /**
+   * Change a server's settings; `headers` replaces all of its headers.
+   * The server reconnects with the new settings.
+   */
+  async updateServer(id: string, changes: Partial<Omit<McpServerConfig, 'id'>>, headers?: Record<string, string>): Promise<void> {
+    const entry = this.find(id);
+    entry.config = this.validate({ ...entry.config, ...changes });
+    if (headers) entry.headers = headers;
+    await this.save();
+    await this.connect(entry);
+  }
+
+  async removeServer(id: string): Promise<void> {
+    const entry = this.find(id);
+    entry.client?.close();
+    this.entries = this.entries.filter((e) => e !== entry);
+    await this.save();
+    this.changeCallback?.();
+  }
+
+  async reconnect(id: string): Promise<void> {
+    await this.connect(this.find(id));
+  }
+
+  /**
+   * Tools of the connected servers, under their namespaced names.
+   */
+  toolDefinitions(): ToolDefinition[] {
+    return [...this.toolTable()].map(([name, { entry, tool }]) => ({
+      name,
+      description: `[MCP: ${entry.config.name}] ${tool.description ?? tool.name}`,
+      input_schema: { ...tool.inputSchema, type: 'object' as const, properties: tool.inputSchema?.properties ?? {} },
+      readOnly: tool.annotations?.readOnlyHint === true,
+    }));
+  }
+
+  /**
+   * Call a tool by its namespaced name. Failures are returned as text for the model.
+   */
+  async callTool(name: string, input: Record<string, unknown>): Promise<string> {
+    const found = this.toolTable().get(name);
+    if (!found) return `Unknown tool: ${name}`;
+    const { entry: { config, client }, tool } = found;
+    if (!client) return `Error: MCP server ${config.name} is not connected.`;
+    try {
+      return await client.callTool(tool.name, input);
+    } catch (err) {
+      return `Error from MCP server ${config.name}: ${err instanceof Error ? err.message : String(err)}`;
+    }
+  }
+
+  /**
+   * The connected servers' tools by namespaced name. A tool whose name is
+   * already taken — a server listing the same tool twice — is left out.
+   */
+  private toolTable(): Map<string, { entry: ServerEntry; tool: McpTool }> {
+    const table = new Map<string, { entry: ServerEntry; tool: McpTool }>();
+    for (const entry of this.entries) {
+      if (entry.status.state !== 'connected') continue;
+      for (const tool of entry.status.tools) {
+        const name = mcpToolName(entry.config.name, tool.name);
+        if (table.has(name)) {
+          console.warn(`Skipping MCP tool ${tool.name} of ${entry.config.name}: the name ${name} is already in use`);
+          continue;
+        }
+        table.set(name, { entry, tool });
+      }
+    }
+    return table;
+  }
+
+  private find(id: string): ServerEntry {
+    const entry = this.entries.find((e) => e.config.id === id);
+    if (!entry) throw new Error('MCP server not found');
+    return entry;
+  }
+
+  /** Check a server's settings; names must differ in their tool prefix. */
+  private validate(config: McpServerConfig): McpServerConfig {
+    const name = config.name.trim();
+    const url = config.url.trim();
+    if (!name) throw new Error('Give the server a name');
+    try {
+      new URL(url, location.href);
+    } catch {
+      throw new Error(`Not a valid URL: ${url}`);
+    }
+    const prefix = mcpToolName(name, '');
+    if (this.entries.some((e) => e.config.id !== config.id && mcpToolName(e.config.name, '') === prefix)) {
+      throw new Error(`Another server already uses the name "${name}"`);
+    }
+    return { ...config, name, url };
+  }
+
+  /** (Re)open a server's session and list what it offers. */
+  private async connect(entry: ServerEntry): Promise<void> {
+    entry.client?.close();
+    entry.client = null;
+    entry.status = emptyStatus(entry.config);
+    this.changeCallback?.();
+    if (!entry.config.enabled) return;
+
+    const client = new McpClient({ ...entry.config, url: new URL(entry.config.url, location.href).href }, entry.headers);
+    entry.client = client;
+    try {
+      await client.connect();
+      const [tools, prompts, resources] = await Promise.all([client.listTools(), client.listPrompts(), client.listResources()]);
+      // A newer connect() replaced this one while it was listing
+      if (entry.client !== client) return;
+      entry.status = { ...entry.status, state: 'connected', tools, prompts, resources };
+    } catch (err) {
+      if (entry.client !== client) return;
+      client.close();
+      entry.client = null;
+      entry.status = { ...entry.status, state: 'error', error: err instanceof Error ? err.message : String(err) };
+    }
+    this.changeCallback?.();
+  }
+
+  private async save(): Promise<void> {
+    const stored: StoredMcpServer[] = await Promise.all(
+      this.entries.map(async ({ config, headers }) => ({
+        ...config,
+        headers: Object.keys(headers).length > 0 ? await encryptValue(JSON.stringify(headers)) : '',
+      })),
+    );
+    await setConfig(CONFIG_KEYS.MCP_SERVERS, JSON.stringify(stored));
+  }
+}
@@ -0,0 +1,229 @@
+// ---------------------------------------------------------------------------
+// OpenWebClaw — Model capability registry
+// ---------------------------------------------------------------------------
+//
+// Resolves what a model can do (context window, tool calling, vision, output
+// limit, price). Values are layered: built-in defaults for well-known model
+// families, metadata discovered from the provider (Ollama /api/show, model
+// listings from Open WebUI and OpenAI-compatible servers), then user edits.
+// Discovered entries and user edits persist in the config store.
+
+import { CONFIG_KEYS, DEFAULT_CONTEXT_LIMIT, DEFAULT_MAX_TOKENS } from './config.js';
+import { getConfig, setConfig } from './db.js';
+import type { ModelCapabilities } from './types.js';
+
+type PartialCapabilities = Partial<ModelCapabilities>;
+
+/** Assumed for models the registry knows nothing about */
+export const DEFAULT_CAPABILITIES: ModelCapabilities = {
+  contextWindow: DEFAULT_CONTEXT_LIMIT,
+  maxOutputTokens: DEFAULT_MAX_TOKENS,
+  tools: true,
+  vision: false,
+  inputPrice: 0,
+  outputPrice: 0,
+};
+
+/**
+ * Built-in knowledge, matched by model-name prefix (longest prefix wins).
+ * Prices are USD per million tokens.
+ */
+const BUILTIN_MODELS: Record<string, PartialCapabilities> = {
+  'claude-opus-4': { contextWindow: 200_000, maxOutputTokens: 32_000, vision: true, inputPrice: 15, outputPrice: 75 },
+  'claude-opus-4-5': { contextWindow: 200_000, maxOutputTokens: 64_000, vision: true, inputPrice: 5, outputPrice: 25 },
+  'claude-opus-4-6': { contextWindow: 200_000, maxOutputTokens: 128_000, vision: true, inputPrice: 5, outputPrice: 25 },
+  'claude-sonnet-4': { contextWindow: 200_000, maxOutputTokens: 64_000, vision: true, inputPrice: 3, outputPrice: 15 },
+  'claude-haiku-4-5': { contextWindow: 200_000, maxOutputTokens: 64_000, vision: true, inputPrice: 1, outputPrice: 5 },
+  'claude-3-5-haiku': { contextWindow: 200_000, maxOutputTokens: 8_192, inputPrice: 0.8, outputPrice: 4 },
+  'gpt-4o': { contextWindow: 128_000, maxOutputTokens: 16_384, vision: true, inputPrice: 2.5, outputPrice: 10 },
+  'gpt-4o-mini': { contextWindow: 128_000, maxOutputTokens: 16_384, vision: true, inputPrice: 0.15, outputPrice: 0.6 },
+  'gpt-4.1': { contextWindow: 1_047_576, maxOutputTokens: 32_768, vision: true, inputPrice: 2, outputPrice: 8 },
+  'llama3.1': { contextWindow: 131_072 },
+  'llama3.2': { contextWindow: 131_072 },
+  'llama3.3': { contextWindow: 131_072 },
+  'qwen2.5': { contextWindow: 32_768 },
+  'qwen3': { contextWindow: 40_960 },
+  'mistral': { contextWindow: 32_768 },
+  'gemma3': { contextWindow: 131_072, vision: true, tools: false },
+  'deepseek-r1': { contextWindow: 131_072, tools: false },
+};
+
+function builtinCapabilities(model: string): PartialCapabilities {
+  // Match on the bare model name: "openai/gpt-4o" and "gpt-4o" are the same family
+  const name = model.toLowerCase().split('/').pop() ?? '';
+  let best = '';
+  for (const prefix of Object.keys(BUILTIN_MODELS)) {
+    if (name.startsWith(prefix) && prefix.length > best.length) best = prefix;
+  }
+  return best ? BUILTIN_MODELS[best] : {};
+}
+
+/** Keep only the fields that carry a usable value. */
+function clean(caps: PartialCapabilities): PartialCapabilities {
+  const out: PartialCapabilities = {};
+  for (const [key, value] of Object.entries(caps) as [keyof ModelCapabilities, number | boolean | undefined][]) {
+    if (typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value) && value >= 0)) {
+      (out as Record<string, number | boolean>)[key] = value;
+    }
+  }
+  return out;
+}
+
+function positive(value: unknown): number | undefined {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/** The value at `path` in a parsed JSON response, or undefined where the shape differs */
+function field(value: unknown, ...path: string[]): unknown {
+  for (const key of path) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Extract capabilities from an entry of a model listing. Understands the
+ * Open WebUI `/api/models` shape and the extended OpenAI `/models` shape
+ * used by OpenRouter, LM Studio and similar gateways.
+ */
+export function capabilitiesFromListing(entry: unknown): PartialCapabilities {
+  const metaVision = field(entry, 'info', 'meta', 'capabilities', 'vision');
+  const inputModalities = field(entry, 'architecture', 'input_modalities');
+  const supported = field(entry, 'supported_parameters');
+
+  const promptPrice = positive(field(entry, 'pricing', 'prompt'));
+  const completionPrice = positive(field(entry, 'pricing', 'completion'));
+
+  return clean({
+    contextWindow: positive(
+      field(entry, 'context_length') ?? field(entry, 'max_context_length') ?? field(entry, 'info', 'params', 'num_ctx'),
+    ),
+    maxOutputTokens: positive(
+      field(entry, 'top_provider', 'max_completion_tokens') ?? field(entry, 'info', 'params', 'max_tokens'),
+    ),
+    vision: typeof metaVision === 'boolean'
+      ? metaVision
+      : Array.isArray(inputModalities) ? inputModalities.includes('image') : undefined,
+    tools: Array.isArray(supported) ? supported.includes('tools') : undefined,
+    // Listings quote USD per token
+    inputPrice: promptPrice !== undefined ? promptPrice * 1_000_000 : undefined,
+    outputPrice: completionPrice !== undefined ? completionPrice * 1_000_000 : undefined,
+  });
+}
+
+/**
+ * Extract capabilities from an Ollama `/api/show` response.
+ */
+export function capabilitiesFromOllamaShow(show: unknown): PartialCapabilities {
+  const info = field(show, 'model_info');
+  const contextKey = typeof info === 'object' && info !== null
+    ? Object.keys(info).find((k) => k.endsWith('.context_length'))
+    : undefined;
+  const caps = field(show, 'capabilities');
+
+  return clean({
+    contextWindow: contextKey ? positive(field(info, contextKey)) : undefined,
+    tools: Array.isArray(caps) ? caps.includes('tools') : undefined,
+    vision: Array.isArray(caps) ? caps.includes('vision') : undefined,
+  });
+}
+
+/** Anthropic bills cache writes at 1.25× and cache reads at 0.1× the input price. */
+const CACHE_WRITE_MULTIPLIER = 1.25;
+const CACHE_READ_MULTIPLIER = 0.1;
+
+/**
+ * Estimate the USD cost of a token count with a model's prices.
+ */
+export function estimateCost(
+  usage: { inputTokens: number; outputTokens: number; cacheReadTokens: number; cacheCreationTokens: number },
+  caps: ModelCapabilities,
+): number {
+  const input =
+    usage.inputTokens +
+    usage.cacheCreationTokens * CACHE_WRITE_MULTIPLIER +
+    usage.cacheReadTokens * CACHE_READ_MULTIPLIER;
+  return (input * caps.inputPrice + usage.outputTokens * caps.outputPrice) / 1_000_000;
+}
+
+interface StoredRegistry {
+  discovered: Record<string, PartialCapabilities>;
+  overrides: Record<string, PartialCapabilities>;
+}
+
+export class ModelRegistry {
+  private discovered: Record<string, PartialCapabilities> = {};
+  private overrides: Record<string, PartialCapabilities> = {};
+
+  /**
+   * Load discovered metadata and user edits from the config store.
+   */
+  async load(): Promise<void> {
+    const raw = await getConfig(CONFIG_KEYS.MODEL_REGISTRY);
+    if (!raw) return;
+    try {
+      const stored = JSON.parse(raw) as Partial<StoredRegistry>;
+      this.discovered = stored.discovered ?? {};
+      this.overrides = stored.overrides ?? {};
+    } catch {
+      console.warn('Ignoring unreadable model registry');
+    }
+  }
+
+  /**
+   * Resolve the effective capabilities of a model.
+   */
+  get(model: string): ModelCapabilities {
+    return {
+      ...DEFAULT_CAPABILITIES,
+      ...builtinCapabilities(model),
+      ...this.discovered[model],
+      ...this.overrides[model],
+    };
+  }
+
+  /**
+   * Whether the user has edited this model's capabilities.
+   */
+  isCustomized(model: string): boolean {
+    return model in this.overrides;
+  }
+
+  /**
+   * Record metadata reported by a provider. Persists only when something changed.
+   */
+  async learn(entries: Record<string, PartialCapabilities>): Promise<void> {
+    let changed = false;
+    for (const [model, caps] of Object.entries(entries)) {
+      const merged = { ...this.discovered[model], ...clean(caps) };
+      if (JSON.stringify(merged) !== JSON.stringify(this.discovered[model] ?? {})) {
+        this.discovered[model] = merged;
+        changed = true;
+      }
+    }
+    if (changed) await this.save();
+  }
+
+  /**
+   * Store user edits for a model. They take precedence over everything else.
+   */
+  async customize(model: string, caps: PartialCapabilities): Promise<void> {
+    this.overrides[model] = { ...this.overrides[model], ...clean(caps) };
+    await this.save();
+  }
+
+  /**
+   * Drop user edits for a model.
+   */
+  async reset(model: string): Promise<void> {
+    delete this.overrides[model];
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    const stored: StoredRegistry = { discovered: this.discovered, overrides: this.overrides };
+    await setConfig(CONFIG_KEYS.MODEL_REGISTRY, JSON.stringify(stored));
+  }
+}
@@ -0,0 +1,78 @@
+// ---------------------------------------------------------------------------
+// OpenWebClaw — Network policy for fetch_url
+// ---------------------------------------------------------------------------
+//
+// Decides which requests fetch_url may make, which stored credentials are
+// attached to them, and how a request is addressed to the fetch relay when
+// the browser blocks it. Host patterns are either exact names
+// (`api.github.com`), a wildcard for subdomains (`*.github.com`) or `*`
+// for any host.
+
+import type { DomainCredential, FetchRelayConfig, NetworkPolicy } from './types.js';
+
+/** Normalise a host pattern as typed in settings: lowercase, no scheme, path or port */
+export function normalizeHostPattern(pattern: string): string {
+  return pattern
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/:\d+$/, '');
+}
+
+/** Whether `host` is matched by `pattern` */
+export function hostMatches(host: string, pattern: string): boolean {
+  host = host.toLowerCase();
+  if (pattern === '*') return true;
+  if (pattern.startsWith('*.')) return host.endsWith(pattern.slice(1));
+  return host === pattern;
+}
+
+/**
+ * Check a request against a policy. Returns why it is blocked, or null
+ * when it may go ahead.
+ */
+export function checkRequest(url: URL, method: string, policy: NetworkPolicy | undefined): string | null {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return `only http and https URLs can be fetched, not ${url.protocol}`;
+  }
+  if (!policy) return null;
+
+  const host = url.hostname;
+  const denied = policy.denyHosts.find((pattern) => hostMatches(host, pattern));
+  if (denied) return `${host} is blocked by the network policy (${denied})`;
+  if (policy.allowHosts.length > 0 && !policy.allowHosts.some((pattern) => hostMatches(host, pattern))) {
+    return `${host} is not on the network policy's list of allowed hosts (${policy.allowHosts.join(', ')})`;
+  }
+  if (policy.methods.length > 0 && !policy.methods.includes(method)) {
+    return `${method} requests are not allowed by the network policy (allowed: ${policy.methods.join(', ')})`;
+  }
+  return null;
+}
+
+/** Whether a policy limits anything, so every redirect has to be checked against it */
+export function policyRestricts(policy: NetworkPolicy | undefined): boolean {
+  return !!policy && (policy.allowHosts.length > 0 || policy.denyHosts.length > 0 || policy.methods.length > 0);
+}
+
+/**
+ * The stored credential for a URL's host, if any. Credentials are only
+ * sent over HTTPS, so a secret never crosses the network in the clear.
+ */
+export function credentialFor(url: URL, credentials: DomainCredential[] | undefined): DomainCredential | null {
+  if (!credentials || url.protocol !== 'https:') return null;
+  return credentials.find((credential) => hostMatches(url.hostname, credential.host)) ?? null;
+}
+
+/**
+ * Address a request to the fetch relay: the target's scheme, host and path
+ * follow the relay route (`/api/relay/https/example.com/path?query`), and
+ * the shared secret travels in `X-Relay-Secret`.
+ */
+export function relayRequest(relay: FetchRelayConfig, url: URL, headers: Headers): { url: URL; headers: Headers } {
+  const route = relay.url.replace(/\/+$/, '');
+  const target = `${route}/${url.protocol.slice(0, -1)}/${url.host}${url.pathname}${url.search}`;
+  const relayHeaders = new Headers(headers);
+  relayHeaders.set('X-Relay-Secret', relay.secret);
+  return { url: new URL(target, self.location.href), headers: relayHeaders };
+}
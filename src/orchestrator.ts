@@ -3,9 +3,9 @@
 // ---------------------------------------------------------------------------
 //
 // The orchestrator is the main thread coordinator. It manages:
-// - State machine (idle → thinking → responding)
-// - Message queue and routing
-// - Agent worker lifecycle
+// - Per-group state machine (idle → thinking → responding)
+// - Per-group job queues and routing
+// - Agent worker pool (groups run in parallel up to a limit)
 // - Channel coordination
 // - Task scheduling
 //
@@ -18,36 +18,70 @@ import type {
   OrchestratorState,
   Task,
   ConversationMessage,
+  DomainCredential,
+  FallbackAttempt,
+  FetchRelayConfig,
+  FallbackTarget,
+  McpServerConfig,
+  McpServerStatus,
+  ModelCapabilities,
+  NetworkPolicy,
+  NetworkPolicySettings,
+  RunBudget,
+  RunBudgetSettings,
   ThinkingLogEntry,
+  ToolApprovalRequest,
+  ToolPolicy,
+  ToolDefinition,
+  ToolPolicySettings,
 } from './types.js';
 import {
   ASSISTANT_NAME,
+  COMPACT_KEEP_RECENT,
   CONFIG_KEYS,
-  CONTEXT_WINDOW_SIZE,
+  DEFAULT_COMPACT_THRESHOLD,
   DEFAULT_GROUP_ID,
+  DEFAULT_MAX_CONCURRENT_RUNS,
   DEFAULT_MAX_TOKENS,
   DEFAULT_MODEL,
   DEFAULT_PROVIDER,
   DEFAULT_OLLAMA_URL,
   DEFAULT_OPENWEBUI_URL,
+  DEFAULT_OPENAI_URL,
+  DEFAULT_RUN_BUDGET,
+  DEFAULT_TASK_RUN_BUDGET,
+  DEFAULT_FETCH_RELAY_URL,
+  MAX_COMPACT_THRESHOLD,
+  MAX_CONCURRENT_RUNS_LIMIT,
   MEMORY_FILE,
+  MIN_COMPACT_THRESHOLD,
   buildTriggerPattern,
   type Provider,
 } from './config.js';
 import {
   openDatabase,
-  saveMessage,
+  appendMessage,
   getMessage,
-  getRecentMessages,
+  getParentId,
+  switchBranch,
+  setBranchEnd,
   buildConversationMessages,
+  getMessagesWithinBudget,
+  toConversationMessages,
+  estimateTokens,
   getConfig,
   setConfig,
   saveTask,
   clearGroupMessages,
-  deleteMessagesAfter,
+  compactBranch,
+  recordUsage,
+  saveTranscript,
 } from './db.js';
 import { readGroupFile, writeGroupFile, groupFileExists } from './storage.js';
 import { encryptValue, decryptValue } from './crypto.js';
+import { ModelRegistry, capabilitiesFromListing, capabilitiesFromOllamaShow } from './models.js';
+import { McpManager } from './mcp.js';
+import { normalizeHostPattern } from './network-policy.js';
 import { BrowserChatChannel } from './channels/browser-chat.js';
 import { TelegramChannel } from './channels/telegram.js';
 import { WhatsAppChannel } from './channels/whatsapp.js';
@@ -60,8 +94,9 @@ import { ulid } from './ulid.js';
 // ---------------------------------------------------------------------------
 
 type EventMap = {
-  'state-change': OrchestratorState;
+  'state-change': { groupId: string; state: OrchestratorState };
   'message': StoredMessage;
+  'response-delta': { groupId: string; text: string };
   'typing': { groupId: string; typing: boolean };
   'tool-activity': { groupId: string; tool: string; status: string };
   'thinking-log': ThinkingLogEntry;
@@ -70,8 +105,10 @@ type EventMap = {
   'session-reset': { groupId: string };
   'context-compacted': { groupId: string; summary: string };
   'token-usage': import('./types.js').TokenUsage;
-  'message-updated': StoredMessage;
-  'messages-deleted-after': { groupId: string; timestamp: number };
+  'branch-changed': { groupId: string };
+  'tool-approval': ToolApprovalRequest;
+  'tool-approval-resolved': { requestId: string; groupId: string; approved: boolean };
+  'mcp-changed': void;
 };
 
 type EventCallback<T> = (data: T) => void;
@@ -95,6 +132,29 @@ class EventBus {
   }
 }
 
+// ---------------------------------------------------------------------------
+// Per-group run model
+// ---------------------------------------------------------------------------
+
+/** A unit of work waiting for an agent worker */
+type AgentJob =
+  | { kind: 'invoke'; content: string; taskId?: string }
+  | { kind: 'compact'; auto?: boolean };
+
+/** Run state for one group — each group has its own queue and state */
+interface GroupRuntime {
+  state: OrchestratorState;
+  queue: AgentJob[];
+  /** Worker currently running this group's job, if any */
+  worker: Worker | null;
+  /** Prompt size reported by the provider on the group's last call */
+  contextTokens: number;
+  /** Scheduled task behind the running job, for usage accounting */
+  taskId: string | null;
+  /** First message kept verbatim; the ones before it on its branch are replaced by the pending summary */
+  compactFrom: StoredMessage | null;
+}
+
 // ---------------------------------------------------------------------------
 // Orchestrator
 // ---------------------------------------------------------------------------
@@ -108,8 +168,22 @@ export class Orchestrator {
 
   private router!: Router;
   private scheduler!: TaskScheduler;
-  private agentWorker!: Worker;
-  private state: OrchestratorState = 'idle';
+  private groups = new Map<string, GroupRuntime>();
+  private workers: Worker[] = [];
+  private idleWorkers: Worker[] = [];
+  private maxConcurrentRuns = DEFAULT_MAX_CONCURRENT_RUNS;
+  private compactThreshold = DEFAULT_COMPACT_THRESHOLD;
+  private models = new ModelRegistry();
+  private mcp = new McpManager();
+  private fallbackChain: FallbackTarget[] = [];
+  private toolPolicies: ToolPolicySettings = { global: {}, groups: {} };
+  private runBudgets: RunBudgetSettings = defaultRunBudgets();
+  private networkPolicies: NetworkPolicySettings = { global: emptyNetworkPolicy(), groups: {} };
+  /** fetch_url credentials, decrypted */
+  private fetchCredentials: DomainCredential[] = [];
+  private fetchRelay: FetchRelayConfig = { enabled: false, url: DEFAULT_FETCH_RELAY_URL, secret: '' };
+  /** Tool calls paused for approval, with the worker waiting on each */
+  private pendingApprovals = new Map<string, { request: ToolApprovalRequest; worker: Worker }>();
   private triggerPattern!: RegExp;
   private assistantName: string = ASSISTANT_NAME;
   private apiKey: string = '';
@@ -119,8 +193,8 @@ export class Orchestrator {
   private ollamaUrl: string = DEFAULT_OLLAMA_URL;
   private openWebUIUrl: string = DEFAULT_OPENWEBUI_URL;
   private openWebUIKey: string = '';
-  private messageQueue: InboundMessage[] = [];
-  private processing = false;
+  private openAIUrl: string = DEFAULT_OPENAI_URL;
+  private openAIKey: string = '';
   private pendingScheduledTasks = new Set<string>();
   private isDestroyed = false;
 
@@ -159,6 +233,13 @@ export class Orchestrator {
       await setConfig(CONFIG_KEYS.OLLAMA_URL, this.ollamaUrl);
     }
     this.openWebUIUrl = (await getConfig(CONFIG_KEYS.OPENWEBUI_URL)) || DEFAULT_OPENWEBUI_URL;
+    this.maxConcurrentRuns = parseInt(
+      (await getConfig(CONFIG_KEYS.MAX_CONCURRENT_RUNS)) || String(DEFAULT_MAX_CONCURRENT_RUNS),
+      10,
+    );
+    this.compactThreshold = parseFloat(
+      (await getConfig(CONFIG_KEYS.COMPACT_THRESHOLD)) || String(DEFAULT_COMPACT_THRESHOLD),
+    );
     const storedOpenWebUIKey = await getConfig(CONFIG_KEYS.OPENWEBUI_API_KEY);
     if (storedOpenWebUIKey) {
       try {
@@ -167,6 +248,92 @@ export class Orchestrator {
         this.openWebUIKey = '';
       }
     }
+    this.openAIUrl = (await getConfig(CONFIG_KEYS.OPENAI_URL)) || DEFAULT_OPENAI_URL;
+    const storedOpenAIKey = await getConfig(CONFIG_KEYS.OPENAI_API_KEY);
+    if (storedOpenAIKey) {
+      try {
+        this.openAIKey = await decryptValue(storedOpenAIKey);
+      } catch {
+        this.openAIKey = '';
+      }
+    }
+    const storedChain = await getConfig(CONFIG_KEYS.FALLBACK_CHAIN);
+    if (storedChain) {
+      try {
+        this.fallbackChain = JSON.parse(storedChain);
+      } catch {
+        this.fallbackChain = [];
+      }
+    }
+    const storedPolicies = await getConfig(CONFIG_KEYS.TOOL_POLICIES);
+    if (storedPolicies) {
+      try {
+        this.toolPolicies = { global: {}, groups: {}, ...JSON.parse(storedPolicies) };
+      } catch {
+        this.toolPolicies = { global: {}, groups: {} };
+      }
+    }
+    const storedBudgets = await getConfig(CONFIG_KEYS.RUN_BUDGETS);
+    if (storedBudgets) {
+      try {
+        const parsed: Partial<RunBudgetSettings> = JSON.parse(storedBudgets);
+        const defaults = defaultRunBudgets();
+        this.runBudgets = {
+          chat: { ...defaults.chat, ...parsed.chat },
+          task: { ...defaults.task, ...parsed.task },
+          groups: parsed.groups ?? {},
+        };
+      } catch {
+        this.runBudgets = defaultRunBudgets();
+      }
+    }
+    const storedNetwork = await getConfig(CONFIG_KEYS.NETWORK_POLICIES);
+    if (storedNetwork) {
+      try {
+        const parsed: Partial<NetworkPolicySettings> = JSON.parse(storedNetwork);
+        this.networkPolicies = {
+          global: sanitizeNetworkPolicy(parsed.global ?? emptyNetworkPolicy()),
+          groups: parsed.groups ?? {},
+        };
+      } catch {
+        this.networkPolicies = { global: emptyNetworkPolicy(), groups: {} };
+      }
+    }
+    const storedCredentials = await getConfig(CONFIG_KEYS.FETCH_CREDENTIALS);
+    if (storedCredentials) {
+      try {
+        const entries: { id: string; host: string; headers: string }[] = JSON.parse(storedCredentials);
+        this.fetchCredentials = await Promise.all(
+          entries.map(async (e) => ({ id: e.id, host: e.host, headers: JSON.parse(await decryptValue(e.headers)) })),
+        );
+      } catch {
+        this.fetchCredentials = [];
+      }
+    }
+    const storedRelay = await getConfig(CONFIG_KEYS.FETCH_RELAY);
+    if (storedRelay) {
+      try {
+        const { enabled, url } = JSON.parse(storedRelay);
+        this.fetchRelay = { enabled: !!enabled, url: url || DEFAULT_FETCH_RELAY_URL, secret: '' };
+      } catch {
+        // Keep the relay off
+      }
+    }
+    const storedRelaySecret = await getConfig(CONFIG_KEYS.FETCH_RELAY_SECRET);
+    if (storedRelaySecret) {
+      try {
+        this.fetchRelay.secret = await decryptValue(storedRelaySecret);
+      } catch {
+        this.fetchRelay.secret = '';
+      }
+    }
+    await this.models.load();
+    // Refresh metadata for the selected model in the background
+    this.discoverModelCapabilities(this.model);
+    await this.mcp.load();
+    this.mcp.onChange(() => this.events.emit('mcp-changed', undefined));
+    // Servers connect in the background; their tools join runs once listed
+    this.mcp.connectAll();
 
     // Set up router
     this.router = new Router(this.browserChat, this.telegram, this.whatsapp);
@@ -181,7 +348,7 @@ export class Orchestrator {
       if (this.isDestroyed) return;
       const chatIds: string[] = chatIdsRaw ? JSON.parse(chatIdsRaw) : [];
       this.telegram.configure(telegramToken, chatIds);
-      this.telegram.onMessage((msg) => this.enqueue(msg));
+      this.listenToTelegram();
     }
 
     // Configure WhatsApp if credentials exist
@@ -198,21 +365,9 @@ export class Orchestrator {
       this.whatsapp.onMessage((msg) => this.enqueue(msg));
     }
 
-
-    this.agentWorker = new Worker(
-      new URL('./agent-worker.ts', import.meta.url),
-      { type: 'module' },
-    );
-    this.agentWorker.onmessage = (event: MessageEvent<WorkerOutbound>) => {
-      this.handleWorkerMessage(event.data);
-    };
-    this.agentWorker.onerror = (err) => {
-      console.error('Agent worker error:', err);
-    };
-
-    // Set up task scheduler
-    this.scheduler = new TaskScheduler((groupId, prompt) =>
-      this.invokeAgent(groupId, prompt),
+    // Set up task scheduler — tasks join the group's queue like any message
+    this.scheduler = new TaskScheduler(async (groupId, prompt, taskId) =>
+      this.schedule(groupId, { kind: 'invoke', content: prompt, taskId }),
     );
 
     // Wire up browser chat display callback
@@ -261,18 +416,269 @@ This file stores persistent context that the assistant remembers across conversa
   }
 
   /**
-   * Get the current state.
+   * Get the current state of a group.
+   */
+  getState(groupId: string = DEFAULT_GROUP_ID): OrchestratorState {
+    return this.groups.get(groupId)?.state ?? 'idle';
+  }
+
+  /**
+   * Get the maximum number of groups that may run at the same time.
+   */
+  getMaxConcurrentRuns(): number {
+    return this.maxConcurrentRuns;
+  }
+
+  /**
+   * Update the worker pool limit. Busy workers above the new limit are
+   * retired once their current run finishes.
+   */
+  async setMaxConcurrentRuns(limit: number): Promise<void> {
+    this.maxConcurrentRuns = Math.max(1, Math.min(Math.floor(limit) || 1, MAX_CONCURRENT_RUNS_LIMIT));
+    await setConfig(CONFIG_KEYS.MAX_CONCURRENT_RUNS, String(this.maxConcurrentRuns));
+    while (this.workers.length > this.maxConcurrentRuns && this.idleWorkers.length > 0) {
+      this.retireWorker(this.idleWorkers.pop()!);
+    }
+    this.pump();
+  }
+
+  /**
+   * Get the fraction of the context window that triggers automatic compaction.
+   */
+  getCompactThreshold(): number {
+    return this.compactThreshold;
+  }
+
+  /**
+   * Update the automatic compaction threshold (fraction of the context window).
+   */
+  async setCompactThreshold(fraction: number): Promise<void> {
+    this.compactThreshold = Math.max(
+      MIN_COMPACT_THRESHOLD,
+      Math.min(fraction || DEFAULT_COMPACT_THRESHOLD, MAX_COMPACT_THRESHOLD),
+    );
+    await setConfig(CONFIG_KEYS.COMPACT_THRESHOLD, String(this.compactThreshold));
+  }
+
+  /**
+   * Get the providers tried, in order, when the primary one keeps failing.
+   */
+  getFallbackChain(): FallbackTarget[] {
+    return this.fallbackChain.map((t) => ({ ...t }));
+  }
+
+  /**
+   * Replace the fallback chain. Entries without a model are dropped.
+   */
+  async setFallbackChain(chain: FallbackTarget[]): Promise<void> {
+    this.fallbackChain = chain
+      .map((t) => ({ provider: t.provider, model: t.model.trim() }))
+      .filter((t) => t.model.length > 0);
+    await setConfig(CONFIG_KEYS.FALLBACK_CHAIN, JSON.stringify(this.fallbackChain));
+  }
+
+  /**
+   * Get the tool policies: defaults for every chat and per-group overrides.
+   */
+  getToolPolicies(): ToolPolicySettings {
+    return structuredClone(this.toolPolicies);
+  }
+
+  /**
+   * Set a tool's policy for every chat, or for one group. With a group,
+   * `null` removes the override so the global policy applies again.
+   */
+  async setToolPolicy(tool: string, policy: ToolPolicy | null, groupId?: string): Promise<void> {
+    if (groupId) {
+      const overrides = { ...this.toolPolicies.groups[groupId] };
+      if (policy) overrides[tool] = policy;
+      else delete overrides[tool];
+      if (Object.keys(overrides).length > 0) this.toolPolicies.groups[groupId] = overrides;
+      else delete this.toolPolicies.groups[groupId];
+    } else if (policy) {
+      this.toolPolicies.global[tool] = policy;
+    }
+    await setConfig(CONFIG_KEYS.TOOL_POLICIES, JSON.stringify(this.toolPolicies));
+  }
+
+  /**
+   * Get the run budgets: defaults for chats and scheduled tasks, and
+   * per-group overrides.
+   */
+  getRunBudgets(): RunBudgetSettings {
+    return structuredClone(this.runBudgets);
+  }
+
+  /**
+   * Set the default budget for chat runs or for scheduled task runs.
+   */
+  async setDefaultRunBudget(kind: 'chat' | 'task', budget: RunBudget): Promise<void> {
+    this.runBudgets[kind] = sanitizeBudget(budget, this.runBudgets[kind]);
+    await setConfig(CONFIG_KEYS.RUN_BUDGETS, JSON.stringify(this.runBudgets));
+  }
+
+  /**
+   * Override limits for one group. Omitted limits follow the chat default;
+   * an empty object removes the override.
+   */
+  async setGroupRunBudget(groupId: string, overrides: Partial<RunBudget>): Promise<void> {
+    const limits = sanitizeBudget(overrides, {});
+    if (Object.keys(limits).length > 0) this.runBudgets.groups[groupId] = limits;
+    else delete this.runBudgets.groups[groupId];
+    await setConfig(CONFIG_KEYS.RUN_BUDGETS, JSON.stringify(this.runBudgets));
+  }
+
+  /**
+   * Get the network policies for fetch_url: the default for every chat and
+   * per-group replacements.
+   */
+  getNetworkPolicies(): NetworkPolicySettings {
+    return structuredClone(this.networkPolicies);
+  }
+
+  /**
+   * Set the network policy for every chat, or for one group. With a group,
+   * `null` removes its policy so the default applies again.
+   */
+  async setNetworkPolicy(policy: NetworkPolicy | null, groupId?: string): Promise<void> {
+    if (groupId) {
+      if (policy) this.networkPolicies.groups[groupId] = sanitizeNetworkPolicy(policy);
+      else delete this.networkPolicies.groups[groupId];
+    } else {
+      this.networkPolicies.global = sanitizeNetworkPolicy(policy ?? emptyNetworkPolicy());
+    }
+    await setConfig(CONFIG_KEYS.NETWORK_POLICIES, JSON.stringify(this.networkPolicies));
+  }
+
+  /**
+   * Get the fetch_url credentials, decrypted, for editing.
+   */
+  getFetchCredentials(): DomainCredential[] {
+    return structuredClone(this.fetchCredentials);
+  }
+
+  /**
+   * Add or replace the headers fetch_url attaches to requests for a host.
+   * Without an id a new credential is added. Headers are stored encrypted.
    */
-  getState(): OrchestratorState {
-    return this.state;
+  async saveFetchCredential(host: string, headers: Record<string, string>, id?: string): Promise<void> {
+    const pattern = normalizeHostPattern(host);
+    if (!pattern || pattern === '*') throw new Error('Enter the host the credential is for, e.g. api.github.com');
+    if (Object.keys(headers).length === 0) throw new Error('Add at least one header');
+    const clash = this.fetchCredentials.find((c) => c.host === pattern && c.id !== id);
+    if (clash) throw new Error(`${pattern} already has a credential`);
+
+    const credential: DomainCredential = { id: id ?? ulid(), host: pattern, headers };
+    const index = this.fetchCredentials.findIndex((c) => c.id === id);
+    if (index >= 0) this.fetchCredentials[index] = credential;
+    else this.fetchCredentials.push(credential);
+    await this.saveFetchCredentials();
+  }
+
+  async removeFetchCredential(id: string): Promise<void> {
+    this.fetchCredentials = this.fetchCredentials.filter((c) => c.id !== id);
+    await this.saveFetchCredentials();
+  }
+
+  /**
+   * Get the fetch relay settings, with the secret decrypted for editing.
+   */
+  getFetchRelay(): FetchRelayConfig {
+    return { ...this.fetchRelay };
+  }
+
+  /**
+   * Update the fetch relay. The secret is stored encrypted.
+   */
+  async setFetchRelay(relay: FetchRelayConfig): Promise<void> {
+    this.fetchRelay = { enabled: relay.enabled, url: relay.url.trim() || DEFAULT_FETCH_RELAY_URL, secret: relay.secret.trim() };
+    await setConfig(CONFIG_KEYS.FETCH_RELAY, JSON.stringify({ enabled: this.fetchRelay.enabled, url: this.fetchRelay.url }));
+    await setConfig(CONFIG_KEYS.FETCH_RELAY_SECRET, this.fetchRelay.secret ? await encryptValue(this.fetchRelay.secret) : '');
+  }
+
+  private async saveFetchCredentials(): Promise<void> {
+    const entries = await Promise.all(
+      this.fetchCredentials.map(async (c) => ({ id: c.id, host: c.host, headers: await encryptValue(JSON.stringify(c.headers)) })),
+    );
+    await setConfig(CONFIG_KEYS.FETCH_CREDENTIALS, JSON.stringify(entries));
+  }
+
+  /**
+   * Get the tool calls waiting for the user's decision.
+   */
+  getPendingApprovals(): ToolApprovalRequest[] {
+    return [...this.pendingApprovals.values()].map((p) => p.request);
+  }
+
+  /**
+   * Approve or deny a paused tool call. Ignored once the call is decided, and
+   * when `fromGroupId` — the chat the answer came from — is not the one the
+   * call belongs to. Returns whether the answer was taken.
+   */
+  resolveToolApproval(requestId: string, approved: boolean, fromGroupId?: string): boolean {
+    const pending = this.pendingApprovals.get(requestId);
+    if (!pending) return false;
+    if (fromGroupId !== undefined && fromGroupId !== pending.request.groupId) return false;
+    this.pendingApprovals.delete(requestId);
+    pending.worker.postMessage({ type: 'tool-decision', payload: { requestId, approved } });
+    this.events.emit('tool-approval-resolved', { requestId, groupId: pending.request.groupId, approved });
+    return true;
+  }
+
+  /**
+   * Get the registered MCP servers with their connection state and what they offer.
+   */
+  getMcpServers(): McpServerStatus[] {
+    return this.mcp.getServers();
+  }
+
+  /**
+   * Get an MCP server's auth headers, decrypted, for editing.
+   */
+  getMcpServerHeaders(id: string): Record<string, string> {
+    return this.mcp.getHeaders(id);
+  }
+
+  /**
+   * Tools of the connected MCP servers, as offered to the agent.
+   */
+  getMcpToolDefinitions(): ToolDefinition[] {
+    return this.mcp.toolDefinitions();
+  }
+
+  /**
+   * Register an MCP server. Headers are stored encrypted.
+   */
+  async addMcpServer(server: Omit<McpServerConfig, 'id'>, headers: Record<string, string>): Promise<void> {
+    await this.mcp.addServer(server, headers);
+  }
+
+  /**
+   * Change an MCP server's settings and reconnect. `headers` replaces all of its headers.
+   */
+  async updateMcpServer(id: string, changes: Partial<Omit<McpServerConfig, 'id'>>, headers?: Record<string, string>): Promise<void> {
+    await this.mcp.updateServer(id, changes, headers);
+  }
+
+  async removeMcpServer(id: string): Promise<void> {
+    await this.mcp.removeServer(id);
+  }
+
+  async reconnectMcpServer(id: string): Promise<void> {
+    await this.mcp.reconnect(id);
   }
 
   /**
    * Check if the API key is configured (or Ollama is available).
    */
   isConfigured(): boolean {
-    if (this.provider === 'ollama') return true; // Ollama needs no key
-    if (this.provider === 'openwebui') return this.openWebUIKey.length > 0;
+    return this.isProviderConfigured(this.provider);
+  }
+
+  private isProviderConfigured(provider: Provider): boolean {
+    if (provider === 'ollama') return true; // Ollama needs no key
+    if (provider === 'openwebui') return this.openWebUIKey.length > 0;
+    if (provider === 'openai') return this.openAIUrl.length > 0; // key is optional
     return this.apiKey.length > 0;
   }
 
@@ -305,6 +711,35 @@ This file stores persistent context that the assistant remembers across conversa
   async setModel(model: string): Promise<void> {
     this.model = model;
     await setConfig(CONFIG_KEYS.MODEL, model);
+    await this.discoverModelCapabilities(model);
+  }
+
+  /**
+   * Get the resolved capabilities of a model (defaults to the current one).
+   */
+  getModelCapabilities(model: string = this.model): ModelCapabilities {
+    return this.models.get(model);
+  }
+
+  /**
+   * Whether the user has edited a model's capabilities.
+   */
+  hasCustomModelCapabilities(model: string = this.model): boolean {
+    return this.models.isCustomized(model);
+  }
+
+  /**
+   * Override capabilities for a model.
+   */
+  async setModelCapabilities(model: string, caps: Partial<ModelCapabilities>): Promise<void> {
+    await this.models.customize(model, caps);
+  }
+
+  /**
+   * Drop user overrides and fall back to built-in or discovered values.
+   */
+  async resetModelCapabilities(model: string): Promise<void> {
+    await this.models.reset(model);
   }
 
   /**
@@ -389,7 +824,11 @@ This file stores persistent context that the assistant remembers across conversa
         return [];
       }
       const data = await res.json();
-      const models = (data.data || []).map((m: { id: string, name: string }) => ({
+      const entries = data.data || [];
+      await this.models.learn(
+        Object.fromEntries(entries.map((m: { id: string }) => [m.id, capabilitiesFromListing(m)])),
+      );
+      const models = entries.map((m: { id: string, name: string }) => ({
         value: m.id,
         label: m.name || m.id,
       }));
@@ -400,6 +839,66 @@ This file stores persistent context that the assistant remembers across conversa
     }
   }
 
+  /**
+   * Get OpenAI-compatible base URL.
+   */
+  getOpenAIUrl(): string {
+    return this.openAIUrl;
+  }
+
+  /**
+   * Update OpenAI-compatible base URL.
+   */
+  async setOpenAIUrl(url: string): Promise<void> {
+    this.openAIUrl = url.replace(/\/+$/, '');
+    await setConfig(CONFIG_KEYS.OPENAI_URL, this.openAIUrl);
+  }
+
+  /**
+   * Get OpenAI-compatible API key.
+   */
+  getOpenAIKey(): string {
+    return this.openAIKey;
+  }
+
+  /**
+   * Update OpenAI-compatible API key.
+   */
+  async setOpenAIKey(key: string): Promise<void> {
+    this.openAIKey = key;
+    const encrypted = await encryptValue(key);
+    await setConfig(CONFIG_KEYS.OPENAI_API_KEY, encrypted);
+  }
+
+  /**
+   * Fetch available models from an OpenAI-compatible server (GET /models).
+   */
+  async fetchOpenAIModels(): Promise<{ value: string; label: string }[]> {
+    if (!this.openAIUrl) return [];
+
+    try {
+      const headers: Record<string, string> = {};
+      if (this.openAIKey) headers.Authorization = `Bearer ${this.openAIKey}`;
+      const res = await fetch(`${this.openAIUrl}/models`, { headers });
+      if (!res.ok) {
+        console.error('Failed to fetch OpenAI-compatible models:', res.status, res.statusText);
+        return [];
+      }
+      const data = await res.json();
+      const entries = data.data || [];
+      await this.models.learn(
+        Object.fromEntries(entries.map((m: { id: string }) => [m.id, capabilitiesFromListing(m)])),
+      );
+      return entries.map((m: { id: string }) => ({
+        value: m.id,
+        label: m.id,
+      }));
+    } catch (err) {
+      console.error('Error fetching OpenAI-compatible models:', err);
+      return [];
+    }
+  }
+
   /**
    * Fetch available models from Ollama server.
    */
@@ -454,6 +953,26 @@ This file stores persistent context that the assistant remembers across conversa
     }
   }
 
+  /**
+   * Ask the provider what a model supports. Only Ollama has a per-model
+   * endpoint; the other providers report metadata in their model listings.
+   */
+  private async discoverModelCapabilities(model: string): Promise<void> {
+    if (this.provider !== 'ollama' || !model || !this.ollamaUrl) return;
+    const baseUrl = this.ollamaUrl.replace(/\/api\/(tags|models)\/?$/, '').replace(/\/+$/, '');
+    try {
+      const res = await fetch(`${baseUrl}/api/show`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model }),
+      });
+      if (!res.ok) return;
+      await this.models.learn({ [model]: capabilitiesFromOllamaShow(await res.json()) });
+    } catch (err) {
+      console.debug('Ollama /api/show failed', err);
+    }
+  }
+
   /**
    * Get assistant name.
    */
@@ -477,10 +996,17 @@ This file stores persistent context that the assistant remembers across conversa
     await setConfig(CONFIG_KEYS.TELEGRAM_BOT_TOKEN, token);
     await setConfig(CONFIG_KEYS.TELEGRAM_CHAT_IDS, JSON.stringify(chatIds));
     this.telegram.configure(token, chatIds);
-    this.telegram.onMessage((msg) => this.enqueue(msg));
+    this.listenToTelegram();
     this.telegram.start();
   }
 
+  /** Route Telegram messages, /stop commands and approval buttons. */
+  private listenToTelegram(): void {
+    this.telegram.onMessage((msg) => this.enqueue(msg));
+    this.telegram.onStop((groupId) => this.cancel(groupId));
+    this.telegram.onApproval((requestId, approved, groupId) => this.resolveToolApproval(requestId, approved, groupId));
+  }
+
   /**
    * Configure WhatsApp.
    */
@@ -527,25 +1053,80 @@ This file stores persistent context that the assistant remembers across conversa
   }
 
   /**
-   * Edit an existing message.
+   * Edit a message. The edit is saved as a new branch next to the original,
+   * which stays reachable through the branch switcher. Editing a prompt
+   * asks the agent for a new response on the new branch.
    */
   async editMessage(messageId: string, newContent: string): Promise<void> {
+    const msg = await this.getIdleMessage(messageId);
+
+    const edited: StoredMessage = {
+      ...msg,
+      id: ulid(),
+      content: newContent,
+      timestamp: Date.now(),
+      parentId: await getParentId(msg),
+    };
+    await appendMessage(edited);
+    this.events.emit('branch-changed', { groupId: msg.groupId });
+
+    if (!msg.isFromMe) {
+      this.schedule(msg.groupId, { kind: 'invoke', content: newContent });
+    }
+  }
+
+  /**
+   * Ask for a new version of an assistant reply. The new reply becomes a
+   * sibling of the old one.
+   */
+  async regenerateMessage(messageId: string): Promise<void> {
+    const msg = await this.getIdleMessage(messageId);
+    const parentId = await getParentId(msg);
+    if (!msg.isFromMe || msg.isSummary || parentId === null) {
+      throw new Error('Only replies to a message can be regenerated');
+    }
+
+    // End the branch at the prompt so the new reply attaches there
+    await setBranchEnd(msg.groupId, parentId);
+    this.events.emit('branch-changed', { groupId: msg.groupId });
+    // The prompt is already in the history
+    this.schedule(msg.groupId, { kind: 'invoke', content: '' });
+  }
+
+  /**
+   * Show another branch: the one through `messageId`, following the newest
+   * reply below it.
+   */
+  async switchBranch(messageId: string): Promise<void> {
+    const msg = await this.getIdleMessage(messageId);
+    await switchBranch(msg.groupId, msg.id);
+    this.events.emit('branch-changed', { groupId: msg.groupId });
+  }
+
+  /** Branches can't change under a running agent — its reply would land on the wrong one. */
+  private async getIdleMessage(messageId: string): Promise<StoredMessage> {
     const msg = await getMessage(messageId);
     if (!msg) {
       throw new Error(`Message ${messageId} not found`);
     }
-
-    msg.content = newContent;
-    await saveMessage(msg);
-    this.events.emit('message-updated', msg);
-
-    // If it's a user message, trigger a new response by deleting what follows and re-invoking
-    if (!msg.isFromMe) {
-      await deleteMessagesAfter(msg.groupId, msg.timestamp);
-      this.events.emit('messages-deleted-after', { groupId: msg.groupId, timestamp: msg.timestamp });
-      // Re-invoke the agent. We don't need to save a new trigger message because we just updated this one.
-      await this.invokeAgent(msg.groupId, msg.content);
+    const runtime = this.groups.get(msg.groupId);
+    if (runtime && (runtime.state !== 'idle' || runtime.queue.length > 0)) {
+      throw new Error('Wait for the current response to finish');
     }
+    return msg;
+  }
+
+  /**
+   * Cancel the in-flight agent run for a group. The worker aborts the
+   * pending provider request and tool loop, then reports a partial
+   * transcript which is saved like a normal response.
+   */
+  cancel(groupId: string = DEFAULT_GROUP_ID): void {
+    const runtime = this.groups.get(groupId);
+    if (!runtime) return;
+    // Drop anything else this group had queued behind the cancelled run
+    runtime.queue = [];
+    runtime.worker?.postMessage({ type: 'cancel', payload: { groupId } });
   }
 
   /**
@@ -559,7 +1140,9 @@ This file stores persistent context that the assistant remembers across conversa
 
   /**
    * Compact (summarize) the current context to reduce token usage.
-   * Asks Claude to produce a summary, then replaces the history with it.
+   * Everything but the most recent turns is summarized and replaced by
+   * the summary. Also runs automatically once a group's prompt passes
+   * the compaction threshold.
    */
   async compactContext(groupId: string = DEFAULT_GROUP_ID): Promise<void> {
     if (!this.isConfigured()) {
@@ -569,15 +1152,224 @@ This file stores persistent context that the assistant remembers across conversa
       return;
     }
 
-    if (this.state !== 'idle') {
+    if (this.getState(groupId) !== 'idle') {
       const errorMsg = 'Cannot compact while processing. Wait for the current response to finish.';
       await this.deliverResponse(groupId, `⚠️ Error: ${errorMsg}`);
       this.events.emit('error', { groupId, error: errorMsg });
       return;
     }
 
-    this.setState('thinking');
-    this.events.emit('typing', { groupId, typing: true });
+    this.schedule(groupId, { kind: 'compact' });
+  }
+
+  /**
+   * Shut down everything.
+   */
+  shutdown(): void {
+    this.isDestroyed = true;
+    this.scheduler?.stop();
+    this.telegram?.stop();
+    this.mcp.closeAll();
+    for (const worker of this.workers) worker.terminate();
+    this.workers = [];
+    this.idleWorkers = [];
+  }
+
+  /**
+   * Alias for shutdown - stops all channels (called on app unmount).
+   */
+  stopAll(): void {
+    this.shutdown();
+  }
+
+  // -----------------------------------------------------------------------
+  // Private
+  // -----------------------------------------------------------------------
+
+  private setState(groupId: string, state: OrchestratorState): void {
+    this.runtime(groupId).state = state;
+    this.events.emit('state-change', { groupId, state });
+  }
+
+  private runtime(groupId: string): GroupRuntime {
+    let runtime = this.groups.get(groupId);
+    if (!runtime) {
+      runtime = {
+        state: 'idle',
+        queue: [],
+        worker: null,
+        contextTokens: 0,
+        taskId: null,
+        compactFrom: null,
+      };
+      this.groups.set(groupId, runtime);
+    }
+    return runtime;
+  }
+
+  /**
+   * Queue a job for a group and start it as soon as the group is idle
+   * and a worker is free.
+   */
+  private schedule(groupId: string, job: AgentJob): void {
+    this.runtime(groupId).queue.push(job);
+    this.pump();
+  }
+
+  /**
+   * Hand free workers to idle groups with queued jobs. Groups are visited
+   * in map order; finished groups move to the back, so waiting groups are
+   * served round-robin.
+   */
+  private pump(): void {
+    if (this.isDestroyed) return;
+    for (const [groupId, runtime] of this.groups) {
+      if (runtime.state !== 'idle' || runtime.worker || runtime.queue.length === 0) continue;
+      const worker = this.acquireWorker();
+      if (!worker) return;
+
+      const job = runtime.queue.shift()!;
+      runtime.worker = worker;
+      this.setState(groupId, 'thinking');
+      this.startJob(groupId, job).catch(async (err) => {
+        console.error('Failed to start agent job:', err);
+        await this.deliverResponse(groupId, `⚠️ Error: ${err instanceof Error ? err.message : String(err)}`);
+        this.finishRun(groupId, worker);
+      });
+    }
+  }
+
+  private async startJob(groupId: string, job: AgentJob): Promise<void> {
+    const runtime = this.runtime(groupId);
+    const worker = runtime.worker!;
+    runtime.taskId = job.kind === 'invoke' ? job.taskId ?? null : null;
+    if (!this.isConfigured()) {
+      // Can't process without config
+      const errorMsg = 'AI Provider not fully configured. Go to Settings to add the required API key or URL.';
+      await this.deliverResponse(groupId, `⚠️ Error: ${errorMsg}`);
+      this.events.emit('error', { groupId, error: errorMsg });
+      this.finishRun(groupId, worker);
+      return;
+    }
+
+    if (job.kind === 'compact') {
+      await this.startCompaction(groupId, worker, job.auto ?? false);
+    } else {
+      await this.invokeAgent(groupId, job.content, worker);
+    }
+  }
+
+  /**
+   * Release a group's worker after its job reached a final outcome.
+   * Messages from a worker that no longer owns the group are ignored.
+   */
+  private finishRun(groupId: string, worker: Worker): void {
+    const runtime = this.groups.get(groupId);
+    if (!runtime || runtime.worker !== worker) return;
+
+    runtime.worker = null;
+    this.releaseWorker(worker);
+    this.setState(groupId, 'idle');
+
+    // A cancelled run may leave prompts behind that nobody is waiting on
+    for (const [requestId, pending] of this.pendingApprovals) {
+      if (pending.worker !== worker) continue;
+      this.pendingApprovals.delete(requestId);
+      this.events.emit('tool-approval-resolved', { requestId, groupId, approved: false });
+    }
+
+    // Roll older history into a summary before the next job runs
+    if (runtime.contextTokens >= this.getModelCapabilities().contextWindow * this.compactThreshold) {
+      runtime.contextTokens = 0;
+      runtime.queue.unshift({ kind: 'compact', auto: true });
+    }
+
+    // Move to the back so other waiting groups get the next free worker
+    this.groups.delete(groupId);
+    this.groups.set(groupId, runtime);
+    this.pump();
+  }
+
+  private acquireWorker(): Worker | null {
+    const idle = this.idleWorkers.pop();
+    if (idle) return idle;
+    if (this.workers.length >= this.maxConcurrentRuns) return null;
+
+    const worker = new Worker(
+      new URL('./agent-worker.ts', import.meta.url),
+      { type: 'module' },
+    );
+    worker.onmessage = (event: MessageEvent<WorkerOutbound>) => {
+      this.handleWorkerMessage(event.data, worker);
+    };
+    worker.onerror = (err) => {
+      console.error('Agent worker error:', err);
+    };
+    this.workers.push(worker);
+    return worker;
+  }
+
+  private releaseWorker(worker: Worker): void {
+    if (this.workers.length > this.maxConcurrentRuns) {
+      this.retireWorker(worker);
+    } else {
+      this.idleWorkers.push(worker);
+    }
+  }
+
+  private retireWorker(worker: Worker): void {
+    worker.terminate();
+    this.workers = this.workers.filter((w) => w !== worker);
+  }
+
+  /**
+   * Tokens left for conversation history once the system prompt and the
+   * response are accounted for.
+   */
+  private contextBudget(systemPrompt: string): number {
+    const caps = this.getModelCapabilities();
+    return Math.max(0, caps.contextWindow - this.responseTokens() - estimateTokens(systemPrompt));
+  }
+
+  /** Response budget, capped at what the model can produce. */
+  private responseTokens(model: string = this.model): number {
+    return Math.min(this.maxTokens, this.getModelCapabilities(model).maxOutputTokens);
+  }
+
+  /**
+   * Limits for the group's next run. Scheduled tasks take the stricter of
+   * the task default and the group's own budget.
+   */
+  private resolveRunBudget(groupId: string, isTask: boolean): RunBudget {
+    const budget = { ...this.runBudgets.chat, ...this.runBudgets.groups[groupId] };
+    if (!isTask) return budget;
+    const task = this.runBudgets.task;
+    return {
+      maxIterations: Math.min(budget.maxIterations, task.maxIterations),
+      maxTokens: Math.min(budget.maxTokens, task.maxTokens),
+      maxSeconds: Math.min(budget.maxSeconds, task.maxSeconds),
+      maxToolCalls: Math.min(budget.maxToolCalls, task.maxToolCalls),
+    };
+  }
+
+  /**
+   * Fallback targets that can be used right now: configured, and not the
+   * primary provider and model again.
+   */
+  private resolveFallbacks(): FallbackAttempt[] {
+    return this.fallbackChain
+      .filter((t) => this.isProviderConfigured(t.provider))
+      .filter((t) => t.provider !== this.provider || t.model !== this.model)
+      .map((t) => ({
+        ...t,
+        maxTokens: this.responseTokens(t.model),
+        capabilities: this.getModelCapabilities(t.model),
+      }));
+  }
+
+  private async startCompaction(groupId: string, worker: Worker, auto: boolean): Promise<void> {
+    const runtime = this.runtime(groupId);
+    runtime.contextTokens = 0;
 
     // Load group memory
     let memory = '';
@@ -587,10 +1379,24 @@ This file stores persistent context that the assistant remembers across conversa
       // No memory file yet
     }
 
-    const messages = await buildConversationMessages(groupId, CONTEXT_WINDOW_SIZE);
     const systemPrompt = buildSystemPrompt(this.assistantName, memory);
+    const history = await getMessagesWithinBudget(groupId, this.contextBudget(systemPrompt));
+    const older = history.slice(0, -COMPACT_KEEP_RECENT);
+
+    if (older.length === 0) {
+      if (!auto) {
+        this.events.emit('error', { groupId, error: 'Not enough history to compact yet.' });
+      }
+      this.finishRun(groupId, worker);
+      return;
+    }
+
+    runtime.compactFrom = history[history.length - COMPACT_KEEP_RECENT];
+    const messages = toConversationMessages(older);
+
+    this.events.emit('typing', { groupId, typing: true });
 
-    this.agentWorker.postMessage({
+    worker.postMessage({
       type: 'compact',
       payload: {
         groupId,
@@ -598,41 +1404,17 @@ This file stores persistent context that the assistant remembers across conversa
         systemPrompt,
         apiKey: this.apiKey,
         model: this.model,
-        maxTokens: this.maxTokens,
+        maxTokens: this.responseTokens(),
         provider: this.provider,
         ollamaUrl: this.ollamaUrl,
         openWebUIUrl: this.openWebUIUrl,
         openWebUIKey: this.openWebUIKey,
+        openAIUrl: this.openAIUrl,
+        openAIKey: this.openAIKey,
       },
     });
   }
 
-  /**
-   * Shut down everything.
-   */
-  shutdown(): void {
-    this.isDestroyed = true;
-    this.scheduler?.stop();
-    this.telegram?.stop();
-    this.agentWorker?.terminate();
-  }
-
-  /**
-   * Alias for shutdown - stops all channels (called on app unmount).
-   */
-  stopAll(): void {
-    this.shutdown();
-  }
-
-  // -----------------------------------------------------------------------
-  // Private
-  // -----------------------------------------------------------------------
-
-  private setState(state: OrchestratorState): void {
-    this.state = state;
-    this.events.emit('state-change', state);
-  }
-
   private async enqueue(msg: InboundMessage): Promise<void> {
     // Save to DB
     const stored: StoredMessage = {
@@ -649,46 +1431,17 @@ This file stores persistent context that the assistant remembers across conversa
     // Browser main group always triggers; other groups need the trigger pattern
     if (isBrowserMain || isTelegram || hasTrigger) {
       stored.isTrigger = true;
-      this.messageQueue.push(msg);
     }
 
-    await saveMessage(stored);
+    await appendMessage(stored);
     this.events.emit('message', stored);
 
-    // Process queue
-    this.processQueue();
-  }
-
-  private async processQueue(): Promise<void> {
-    if (this.processing) return;
-    if (this.messageQueue.length === 0) return;
-    if (!this.isConfigured()) {
-      // Can't process without config
-      const msg = this.messageQueue.shift()!;
-      const errorMsg = 'AI Provider not fully configured. Go to Settings to add the required API key or URL.';
-      await this.deliverResponse(msg.groupId, `⚠️ Error: ${errorMsg}`);
-      this.events.emit('error', { groupId: msg.groupId, error: errorMsg });
-      return;
-    }
-
-    this.processing = true;
-    const msg = this.messageQueue.shift()!;
-
-    try {
-      await this.invokeAgent(msg.groupId, msg.content);
-    } catch (err) {
-      console.error('Failed to invoke agent:', err);
-    } finally {
-      this.processing = false;
-      // Process next in queue
-      if (this.messageQueue.length > 0) {
-        this.processQueue();
-      }
+    if (stored.isTrigger) {
+      this.schedule(msg.groupId, { kind: 'invoke', content: msg.content });
     }
   }
 
-  private async invokeAgent(groupId: string, triggerContent: string): Promise<void> {
-    this.setState('thinking');
+  private async invokeAgent(groupId: string, triggerContent: string, worker: Worker): Promise<void> {
     this.router.setTyping(groupId, true);
     this.events.emit('typing', { groupId, typing: true });
 
@@ -706,7 +1459,7 @@ This file stores persistent context that the assistant remembers across conversa
         isFromMe: false,
         isTrigger: true,
       };
-      await saveMessage(stored);
+      await appendMessage(stored);
       this.events.emit('message', stored);
     }
 
@@ -718,13 +1471,13 @@ This file stores persistent context that the assistant remembers across conversa
       // No memory file yet — that's fine
     }
 
-    // Build conversation context
-    const messages = await buildConversationMessages(groupId, CONTEXT_WINDOW_SIZE);
-
     const systemPrompt = buildSystemPrompt(this.assistantName, memory);
 
-    // Send to agent worker
-    this.agentWorker.postMessage({
+    // Build conversation context from the newest messages that fit
+    const messages = await buildConversationMessages(groupId, this.contextBudget(systemPrompt));
+
+    // Send to the group's agent worker
+    worker.postMessage({
       type: 'invoke',
       payload: {
         groupId,
@@ -732,20 +1485,36 @@ This file stores persistent context that the assistant remembers across conversa
         systemPrompt,
         apiKey: this.apiKey,
         model: this.model,
-        maxTokens: this.maxTokens,
+        maxTokens: this.responseTokens(),
         provider: this.provider,
         ollamaUrl: this.ollamaUrl,
         openWebUIUrl: this.openWebUIUrl,
         openWebUIKey: this.openWebUIKey,
+        openAIUrl: this.openAIUrl,
+        openAIKey: this.openAIKey,
+        capabilities: this.getModelCapabilities(),
+        fallbacks: this.resolveFallbacks(),
+        toolPolicies: { ...this.toolPolicies.global, ...this.toolPolicies.groups[groupId] },
+        budget: this.resolveRunBudget(groupId, this.runtime(groupId).taskId !== null),
+        mcpTools: this.mcp.toolDefinitions(),
+        networkPolicy: this.networkPolicies.groups[groupId] ?? this.networkPolicies.global,
+        credentials: this.fetchCredentials,
+        relay: this.fetchRelay.enabled ? this.fetchRelay : undefined,
       },
     });
   }
 
-  private async handleWorkerMessage(msg: WorkerOutbound): Promise<void> {
+  private async handleWorkerMessage(msg: WorkerOutbound, worker: Worker): Promise<void> {
     switch (msg.type) {
       case 'response': {
-        const { groupId, text } = msg.payload;
-        await this.deliverResponse(groupId, text);
+        const { groupId, text, transcript } = msg.payload;
+        await this.deliverResponse(groupId, text, transcript);
+        this.finishRun(groupId, worker);
+        break;
+      }
+
+      case 'response-delta': {
+        this.events.emit('response-delta', msg.payload);
         break;
       }
 
@@ -762,6 +1531,15 @@ This file stores persistent context that the assistant remembers across conversa
       case 'error': {
         const { groupId, error } = msg.payload;
         await this.deliverResponse(groupId, `⚠️ Error: ${error}`);
+        this.finishRun(groupId, worker);
+        break;
+      }
+
+      case 'cancelled': {
+        const { groupId, partial } = msg.payload;
+        const text = partial ? `${partial}\n\n⏹️ _Stopped._` : '⏹️ Stopped.';
+        await this.deliverResponse(groupId, text);
+        this.finishRun(groupId, worker);
         break;
       }
 
@@ -772,6 +1550,34 @@ This file stores persistent context that the assistant remembers across conversa
         break;
       }
 
+      case 'tool-approval': {
+        const request = msg.payload;
+        this.pendingApprovals.set(request.requestId, { request, worker });
+        this.events.emit('tool-approval', request);
+        // Telegram chats can answer inline; every request also shows in the browser
+        if (request.groupId.startsWith('tg:')) {
+          this.telegram.requestApproval(request).catch((err) =>
+            console.error('Failed to send approval prompt to Telegram:', err),
+          );
+        }
+        break;
+      }
+
+      case 'mcp-call': {
+        const { requestId, tool, input } = msg.payload;
+        const output = await this.mcp.callTool(tool, input);
+        worker.postMessage({ type: 'mcp-result', payload: { requestId, output } });
+        break;
+      }
+
+      case 'failover': {
+        // Drop the text streamed by the provider that failed
+        const { groupId } = msg.payload;
+        this.events.emit('typing', { groupId, typing: false });
+        this.events.emit('typing', { groupId, typing: true });
+        break;
+      }
+
       case 'tool-activity': {
         this.events.emit('tool-activity', msg.payload);
         break;
@@ -784,10 +1590,26 @@ This file stores persistent context that the assistant remembers across conversa
 
       case 'compact-done': {
         await this.handleCompactDone(msg.payload.groupId, msg.payload.summary);
+        this.finishRun(msg.payload.groupId, worker);
         break;
       }
 
       case 'token-usage': {
+        const runtime = this.runtime(msg.payload.groupId);
+        const { groupId, provider, model, inputTokens, outputTokens, cacheReadTokens, cacheCreationTokens, subAgent } = msg.payload;
+        recordUsage({
+          groupId,
+          provider,
+          model,
+          taskId: runtime.taskId,
+          inputTokens,
+          outputTokens,
+          cacheReadTokens,
+          cacheCreationTokens,
+        }).catch((err) => console.error('Failed to record usage:', err));
+        // A sub-agent's calls cost tokens but don't fill this conversation's context
+        if (subAgent) break;
+        runtime.contextTokens = inputTokens + cacheReadTokens + cacheCreationTokens;
         this.events.emit('token-usage', msg.payload);
         break;
       }
@@ -795,28 +1617,46 @@ This file stores persistent context that the assistant remembers across conversa
   }
 
   private async handleCompactDone(groupId: string, summary: string): Promise<void> {
-    // Clear old messages
-    await clearGroupMessages(groupId);
+    const runtime = this.runtime(groupId);
+    const firstKept = runtime.compactFrom;
+    runtime.compactFrom = null;
 
-    // Save the summary as a system-style message from the assistant
+    // Never wipe the history without something to replace it with
+    if (!summary.trim()) {
+      await this.deliverResponse(
+        groupId,
+        '⚠️ Compaction failed: the provider returned no summary. Conversation history was kept.',
+      );
+      return;
+    }
+
+    // Save the summary as a system-style message from the assistant,
+    // ordered just before the turns that were kept
     const stored: StoredMessage = {
       id: ulid(),
       groupId,
       sender: this.assistantName,
       content: `📝 **Context Compacted**\n\n${summary}`,
-      timestamp: Date.now(),
+      timestamp: firstKept === null ? Date.now() : firstKept.timestamp - 1,
       channel: groupId.startsWith('tg:') ? 'telegram' : 'browser',
       isFromMe: true,
       isTrigger: false,
+      isSummary: true,
     };
-    await saveMessage(stored);
+    if (firstKept === null) {
+      await clearGroupMessages(groupId);
+      await appendMessage(stored);
+    } else {
+      // The summary starts the branch in place of the summarized messages;
+      // the most recent turns stay verbatim and now follow it
+      await compactBranch(groupId, firstKept.id, stored);
+    }
 
     this.events.emit('context-compacted', { groupId, summary });
     this.events.emit('typing', { groupId, typing: false });
-    this.setState('idle');
   }
 
-  private async deliverResponse(groupId: string, text: string): Promise<void> {
+  private async deliverResponse(groupId: string, text: string, transcript?: ConversationMessage[]): Promise<void> {
     // Save to DB
     const stored: StoredMessage = {
       id: ulid(),
@@ -828,7 +1668,10 @@ This file stores persistent context that the assistant remembers across conversa
       isFromMe: true,
       isTrigger: false,
     };
-    await saveMessage(stored);
+    const siblings = await appendMessage(stored);
+    if (transcript) {
+      await saveTranscript({ messageId: stored.id, groupId, timestamp: stored.timestamp, messages: transcript });
+    }
 
     try {
       // Route to channel
@@ -843,15 +1686,46 @@ This file stores persistent context that the assistant remembers across conversa
       console.error('Failed to send response to channel:', err);
     }
 
-    // Emit for UI
+    // Emit for UI; a regenerated reply also adds a branch to switch between
     this.events.emit('message', stored);
+    if (siblings.length > 1) this.events.emit('branch-changed', { groupId });
     this.events.emit('typing', { groupId, typing: false });
-
-    this.setState('idle');
     this.router.setTyping(groupId, false);
   }
 }
 
+// ---------------------------------------------------------------------------
+// Run budgets
+// ---------------------------------------------------------------------------
+
+function defaultRunBudgets(): RunBudgetSettings {
+  return { chat: { ...DEFAULT_RUN_BUDGET }, task: { ...DEFAULT_TASK_RUN_BUDGET }, groups: {} };
+}
+
+/** Keep positive whole-number limits from `budget`, falling back to `base`. */
+function sanitizeBudget<T extends Partial<RunBudget>>(budget: Partial<RunBudget>, base: T): T {
+  const out = { ...base };
+  for (const key of Object.keys(DEFAULT_RUN_BUDGET) as (keyof RunBudget)[]) {
+    const value = budget[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 1) out[key] = Math.floor(value) as T[keyof RunBudget];
+  }
+  return out;
+}
+
+function emptyNetworkPolicy(): NetworkPolicy {
+  return { allowHosts: [], denyHosts: [], methods: [] };
+}
+
+/** Normalise host patterns and methods, dropping blanks and duplicates. */
+function sanitizeNetworkPolicy(policy: Partial<NetworkPolicy>): NetworkPolicy {
+  const hosts = (list: string[] = []) => [...new Set(list.map(normalizeHostPattern).filter(Boolean))];
+  return {
+    allowHosts: hosts(policy.allowHosts),
+    denyHosts: hosts(policy.denyHosts),
+    methods: [...new Set((policy.methods ?? []).map((m) => m.trim().toUpperCase()).filter((m) => /^[A-Z]+$/.test(m)))],
+  };
+}
+
 // ---------------------------------------------------------------------------
 // System prompt builder
 // ---------------------------------------------------------------------------
@@ -863,11 +1737,16 @@ function buildSystemPrompt(assistantName: string, memory: string): string {
     'You have access to the following tools:',
     '- **bash**: Execute commands in a sandboxed Linux VM (Alpine). Use for scripts, text processing, package installation.',
     '- **javascript**: Execute JavaScript code. Lighter than bash — no VM boot needed. Use for calculations, data transforms.',
-    '- **read_file** / **write_file** / **list_files**: Manage files in the group workspace (persisted in browser storage).',
-    '- **fetch_url**: Make HTTP requests (subject to CORS).',
+    '- **read_file** / **write_file** / **list_files**: Manage files in the group workspace (persisted in browser storage). read_file can read a range of lines; list_files can list recursively with sizes and modification times.',
+    '- **delete_file** / **move_file** / **copy_file**: Delete, move, rename or copy files and directories. Use them instead of rm, mv and cp in bash.',
+    '- **edit_file**: Change part of a file by exact string replacement. Prefer it to rewriting whole files with write_file.',
+    '- **search_files**: Search every file in the workspace by regex or literal text, with include/exclude globs. Use it to find things instead of reading files one by one.',
+    '- **fetch_url**: Make HTTP requests (subject to CORS and the network policy). Credentials the user configured for a host are attached automatically; you never see them.',
     '- **read_memory**: Check current memory content before updating.',
     '- **update_memory**: Persist important context to memory.md — loaded on every conversation. Use mode="append" to add or mode="replace" to overwrite.',
     '- **create_task**: Schedule recurring tasks with cron expressions.',
+    '- **delegate**: Hand a self-contained subtask to a sub-agent with a fresh context; only its report comes back.',
+    '- **Custom tools**: Define a new tool for this chat with write_file: `tools/<name>.js` (`export default async function (input) { … }`, returning the result; it can use fetch, within the network policy, but no storage) and `tools/<name>.json` (`{"description": …, "input_schema": {"type": "object", …}}`, plus `"read_only": true` if it has no side effects). New tools are available from the next message.',
     '',
     'Guidelines:',
     '- Be concise and direct.',
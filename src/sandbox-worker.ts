@@ -0,0 +1,160 @@
+// ---------------------------------------------------------------------------
+// OpenWebClaw — JavaScript Sandbox Worker
+// ---------------------------------------------------------------------------
+//
+// Evaluates one snippet of the javascript tool in a worker of its own.
+// Before the code runs, everything that reaches outside the worker is
+// removed: network APIs, storage handles, nested workers and the worker's
+// own postMessage. Buffer allocations are counted and refused past a
+// per-buffer and a total limit, console output is captured, and the host
+// terminates the worker when the evaluation returns or its time is up.
+// Ordinary objects, arrays and strings are not counted: browsers give a
+// worker no way to measure or cap its own heap, so only the time limit
+// bounds them.
+
+import { JS_SANDBOX_MAX_ALLOCATION, JS_SANDBOX_MAX_OUTPUT, JS_SANDBOX_MAX_TOTAL_ALLOCATION } from './config.js';
+import { lockDownWorker } from './worker-lockdown.js';
+import type { SandboxRequest, SandboxResult } from './types.js';
+
+// Keep a private handle on the way back to the host before it is removed
+const send = self.postMessage.bind(self) as (result: SandboxResult) => void;
+const evaluate = eval;
+
+const TYPED_ARRAYS = [
+  'Int8Array',
+  'Uint8Array',
+  'Uint8ClampedArray',
+  'Int16Array',
+  'Uint16Array',
+  'Int32Array',
+  'Uint32Array',
+  'Float32Array',
+  'Float64Array',
+  'BigInt64Array',
+  'BigUint64Array',
+];
+
+// ---------------------------------------------------------------------------
+// Lockdown
+// ---------------------------------------------------------------------------
+
+/**
+ * Refuse buffer allocations above JS_SANDBOX_MAX_ALLOCATION, and any once
+ * JS_SANDBOX_MAX_TOTAL_ALLOCATION bytes have been handed out. Garbage is
+ * not credited back, so a loop of allocations runs out too.
+ */
+function guardAllocations(): void {
+  let allocated = 0;
+  const reserve = (bytes: number) => {
+    if (bytes > JS_SANDBOX_MAX_ALLOCATION) {
+      throw new RangeError(
+        `Allocation of ${bytes} bytes exceeds the sandbox limit of ${JS_SANDBOX_MAX_ALLOCATION} bytes`,
+      );
+    }
+    if (allocated + bytes > JS_SANDBOX_MAX_TOTAL_ALLOCATION) {
+      throw new RangeError(
+        `Allocation of ${bytes} bytes exceeds the sandbox's total of ${JS_SANDBOX_MAX_TOTAL_ALLOCATION} bytes per run`,
+      );
+    }
+    allocated += bytes;
+  };
+  const g = globalThis as any;
+  for (const name of ['ArrayBuffer', 'SharedArrayBuffer']) {
+    if (typeof g[name] !== 'function') continue;
+    g[name] = new Proxy(g[name], {
+      construct(target, args, newTarget) {
+        // Resizable buffers can grow to their maximum without another constructor call
+        const options = args[1] as { maxByteLength?: unknown } | undefined;
+        reserve(Math.max(Number(args[0]) || 0, Number(options?.maxByteLength) || 0));
+        return Reflect.construct(target, args, newTarget);
+      },
+    });
+  }
+  for (const name of TYPED_ARRAYS) {
+    if (typeof g[name] !== 'function') continue;
+    const size: number = g[name].BYTES_PER_ELEMENT;
+    g[name] = new Proxy(g[name], {
+      construct(target, args, newTarget) {
+        // A length, or an array-like to copy; views on an existing buffer allocate nothing
+        const source = args[0];
+        const length = typeof source === 'number' ? source
+          : source instanceof ArrayBuffer || (typeof SharedArrayBuffer === 'function' && source instanceof SharedArrayBuffer) ? 0
+          : Number((source as { length?: unknown } | null)?.length) || 0;
+        reserve(length * size);
+        return Reflect.construct(target, args, newTarget);
+      },
+    });
+  }
+}
+
+lockDownWorker();
+guardAllocations();
+
+// ---------------------------------------------------------------------------
+// Console capture
+// ---------------------------------------------------------------------------
+
+let logs = '';
+let truncated = false;
+
+function capture(prefix: string, args: unknown[]): void {
+  if (truncated) return;
+  const line = prefix + args.map((arg) => (typeof arg === 'string' ? arg : stringify(arg))).join(' ') + '\n';
+  if (logs.length + line.length > JS_SANDBOX_MAX_OUTPUT) {
+    logs += line.slice(0, JS_SANDBOX_MAX_OUTPUT - logs.length) + '\n...(console output truncated)\n';
+    truncated = true;
+    return;
+  }
+  logs += line;
+}
+
+const sandboxConsole = console as any;
+sandboxConsole.log = (...args: unknown[]) => capture('', args);
+sandboxConsole.info = (...args: unknown[]) => capture('', args);
+sandboxConsole.debug = (...args: unknown[]) => capture('', args);
+sandboxConsole.warn = (...args: unknown[]) => capture('[warn] ', args);
+sandboxConsole.error = (...args: unknown[]) => capture('[error] ', args);
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+/**
+ * Run the code as a script so the last expression is the result. Code using
+ * top-level `await` is a syntax error there, so it is retried as the body of
+ * an async function — which returns its result with `return`.
+ */
+async function run(code: string): Promise<unknown> {
+  let result: unknown;
+  try {
+    result = evaluate(`"use strict";\n${code}`);
+  } catch (err: unknown) {
+    if (!(err instanceof SyntaxError) || !/\bawait\b/.test(code)) throw err;
+    result = evaluate(`"use strict";\n(async () => {\n${code}\n})()`);
+  }
+  return await result;
+}
+
+self.onmessage = async (event: MessageEvent<SandboxRequest>) => {
+  self.onmessage = null;
+  try {
+    const result = await run(event.data.code);
+    send({ ok: true, result: stringify(result), logs });
+  } catch (err: unknown) {
+    const error = err instanceof Error ? `${err.name}: ${err.message}` : String(err);
+    send({ ok: false, error, logs });
+  }
+};
+
+function stringify(value: unknown): string {
+  if (value === undefined) return '(no return value)';
+  if (value === null) return 'null';
+  if (typeof value === 'object') {
+    try {
+      return JSON.stringify(value, null, 2);
+    } catch {
+      // Circular or otherwise unserialisable — fall through
+    }
+  }
+  return String(value);
+}
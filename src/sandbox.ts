@@ -0,0 +1,59 @@
+// ---------------------------------------------------------------------------
+// OpenWebClaw — JavaScript sandbox
+// ---------------------------------------------------------------------------
+//
+// The javascript tool evaluates model-written code. Each evaluation gets a
+// fresh sandbox worker with no network, storage or messaging access, and
+// the worker is terminated as soon as it answers, its time is up, or the
+// run is cancelled — so nothing survives from one evaluation to the next.
+
+import { JS_SANDBOX_MAX_OUTPUT } from './config.js';
+import type { SandboxRequest, SandboxResult } from './types.js';
+
+/**
+ * Evaluate `code` in a disposable sandbox worker and return its console
+ * output followed by the result. Failures come back as text.
+ */
+export function runJavaScript(code: string, timeoutSec: number, signal: AbortSignal): Promise<string> {
+  signal.throwIfAborted();
+
+  const worker = new Worker(new URL('./sandbox-worker.ts', import.meta.url), { type: 'module' });
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+      worker.terminate();
+    };
+    const onAbort = () => {
+      finish();
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      finish();
+      resolve(`JavaScript error: the code did not finish within ${timeoutSec}s and was stopped.`);
+    }, timeoutSec * 1000);
+
+    worker.onmessage = (event: MessageEvent<SandboxResult>) => {
+      finish();
+      resolve(formatResult(event.data));
+    };
+    worker.onerror = (event) => {
+      // Uncaught errors from stray callbacks, or the worker dying — e.g. out of memory
+      event.preventDefault();
+      finish();
+      resolve(`JavaScript error: ${event.message || 'the sandbox stopped unexpectedly (possibly out of memory)'}`);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    const request: SandboxRequest = { code };
+    worker.postMessage(request);
+  });
+}
+
+function formatResult(result: SandboxResult): string {
+  const outcome = result.ok ? result.result : `JavaScript error: ${result.error}`;
+  const text = result.logs ? `Console output:\n${result.logs}\n${result.ok ? 'Result: ' : ''}${outcome}` : outcome;
+  return text.length > JS_SANDBOX_MAX_OUTPUT
+    ? text.slice(0, JS_SANDBOX_MAX_OUTPUT) + '\n\n...(truncated)'
+    : text;
+}
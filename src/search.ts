@@ -0,0 +1,187 @@
+// ---------------------------------------------------------------------------
+// OpenWebClaw — Workspace search
+// ---------------------------------------------------------------------------
+//
+// search_files: every file under a directory of the group workspace is
+// matched line by line against a regex or literal pattern, filtered by glob
+// include/exclude lists. Output follows `grep -n` with context: matching
+// lines are `path:line:text`, context lines `path-line-text`, and separate
+// groups are divided by `--`.
+
+import { SEARCH_MAX_FILE_SIZE, SEARCH_MAX_LINE_LENGTH, SEARCH_MAX_RESULTS } from './config.js';
+import { listGroupEntries, readGroupFile } from './storage.js';
+import type { GroupEntry } from './storage.js';
+
+export interface SearchOptions {
+  pattern: string;
+  /** Treat the pattern as plain text instead of a regular expression */
+  literal?: boolean;
+  ignoreCase?: boolean;
+  /** Directory to search, relative to the workspace root */
+  path?: string;
+  include?: string[];
+  exclude?: string[];
+  /** Lines of context before and after each match */
+  context?: number;
+  maxResults?: number;
+}
+
+/**
+ * Search a group's workspace. Throws when the pattern or directory is
+ * invalid; an empty search is reported as text.
+ */
+export async function searchFiles(groupId: string, options: SearchOptions, signal?: AbortSignal): Promise<string> {
+  if (!options.pattern) throw new Error('"pattern" must not be empty.');
+  const source = options.literal ? options.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : options.pattern;
+  let matcher: RegExp;
+  try {
+    matcher = new RegExp(source, options.ignoreCase ? 'i' : '');
+  } catch (err: unknown) {
+    throw new Error(`${err instanceof Error ? err.message : String(err)}. Set literal to search for the text as written.`);
+  }
+
+  const include = (options.include ?? []).map(globToRegExp);
+  const exclude = (options.exclude ?? []).map(globToRegExp);
+  const context = Math.min(10, Math.max(0, Math.floor(options.context ?? 0)));
+  const maxResults = Math.max(1, Math.floor(options.maxResults ?? SEARCH_MAX_RESULTS));
+
+  let entries: GroupEntry[];
+  try {
+    entries = await listGroupEntries(groupId, options.path || '.', true);
+  } catch {
+    throw new Error(`directory not found: ${options.path}`);
+  }
+  const files = entries.flatMap((entry) => (entry.kind === 'file' ? [entry] : [])).filter(({ path }) =>
+    (include.length === 0 || include.some((glob) => globMatches(glob, path))) &&
+    !exclude.some((glob) => globMatches(glob, path)),
+  );
+
+  const output: string[] = [];
+  const skipped: string[] = [];
+  let matches = 0;
+  let matchedFiles = 0;
+  let truncated = false;
+
+  for (const file of files) {
+    signal?.throwIfAborted();
+    if (file.size > SEARCH_MAX_FILE_SIZE) {
+      skipped.push(file.path);
+      continue;
+    }
+    const content = await readGroupFile(groupId, file.path);
+    if (content.slice(0, 8000).includes('\u0000')) continue; // binary
+
+    const lines = content.split('\n');
+    const hits: number[] = [];
+    for (let i = 0; i < lines.length && matches + hits.length < maxResults; i++) {
+      if (matcher.test(lines[i])) hits.push(i);
+    }
+    if (hits.length === 0) continue;
+
+    matchedFiles++;
+    matches += hits.length;
+    if (context > 0 && output.length > 0) output.push('--');
+    output.push(...formatHits(file.path, lines, hits, context));
+    if (matches >= maxResults) {
+      truncated = true;
+      break;
+    }
+  }
+
+  if (matches === 0) {
+    const scope = files.length === 1 ? '1 file' : `${files.length} files`;
+    return `No matches for ${JSON.stringify(options.pattern)} in ${scope}.${skippedNote(skipped)}`;
+  }
+  const found = `${matches} ${matches === 1 ? 'match' : 'matches'} in ${matchedFiles} ${matchedFiles === 1 ? 'file' : 'files'}`;
+  const summary = truncated
+    ? `Stopped after ${found}; narrow the search with path or include, or raise max_results, to see the rest.`
+    : `${found}.`;
+  return `${output.join('\n')}\n\n${summary}${skippedNote(skipped)}`;
+}
+
+/** grep-style lines for one file, merging context that overlaps between hits */
+function formatHits(path: string, lines: string[], hits: number[], context: number): string[] {
+  const out: string[] = [];
+  const hitSet = new Set(hits);
+  let printedUpTo = -1;
+  for (const hit of hits) {
+    const start = Math.max(0, hit - context);
+    const end = Math.min(lines.length - 1, hit + context);
+    if (context > 0 && out.length > 0 && start > printedUpTo + 1) out.push('--');
+    for (let i = Math.max(start, printedUpTo + 1); i <= end; i++) {
+      out.push(`${path}${hitSet.has(i) ? ':' : '-'}${i + 1}${hitSet.has(i) ? ':' : '-'}${clip(lines[i])}`);
+    }
+    printedUpTo = Math.max(printedUpTo, end);
+  }
+  return out;
+}
+
+function clip(line: string): string {
+  line = line.replace(/\r$/, '');
+  return line.length > SEARCH_MAX_LINE_LENGTH ? line.slice(0, SEARCH_MAX_LINE_LENGTH) + '…' : line;
+}
+
+function skippedNote(skipped: string[]): string {
+  if (skipped.length === 0) return '';
+  const names = skipped.slice(0, 5).join(', ') + (skipped.length > 5 ? ', …' : '');
+  return `\nSkipped ${skipped.length} files over ${SEARCH_MAX_FILE_SIZE / 1_000_000} MB: ${names}`;
+}
+
+// ---------------------------------------------------------------------------
+// Globs
+// ---------------------------------------------------------------------------
+
+type Glob = { regex: RegExp; basename: boolean };
+
+/**
+ * Compile a glob: `*` and `?` stay within one path segment, `**` crosses
+ * them, and `{a,b}` and `[abc]` work as in the shell. A glob without a `/`
+ * is matched against each file and directory name, so `*.md` finds
+ * Markdown files anywhere.
+ */
+function globToRegExp(glob: string): Glob {
+  glob = glob.trim().replace(/^\.\//, '').replace(/\/$/, '/**');
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches any number of directories, including none
+        const slash = glob[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const close = glob.indexOf('}', i);
+      if (close === -1) {
+        source += '\\{';
+        continue;
+      }
+      const options = glob.slice(i + 1, close).split(',').map((part) => globToRegExp(part).regex.source.slice(1, -1));
+      source += `(?:${options.join('|')})`;
+      i = close;
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) {
+        source += '\\[';
+        continue;
+      }
+      const set = glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+      source += `[${set}]`;
+      i = close;
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+  return { regex: new RegExp(`^${source}$`), basename: !glob.includes('/') };
+}
+
+/** Globs without a `/` match any one segment, so `node_modules` excludes a whole directory */
+function globMatches(glob: Glob, path: string): boolean {
+  if (glob.regex.test(path)) return true;
+  return glob.basename && path.split('/').some((segment) => glob.regex.test(segment));
+}
@@ -18,8 +18,11 @@ import {
   readGroupFile,
   writeGroupFile,
   listGroupFiles,
-  deleteGroupFile,
   groupFileExists,
+  statGroupEntry,
+  deleteGroupEntry,
+  moveGroupEntry,
+  copyGroupEntry,
 } from './storage.js';
 
 export interface ShellResult {
@@ -36,6 +39,7 @@ export async function executeShell(
   groupId: string,
   env: Record<string, string> = {},
   timeoutSec = 30,
+  signal?: AbortSignal,
 ): Promise<ShellResult> {
   const ctx: ShellContext = {
     groupId,
@@ -43,6 +47,7 @@ export async function executeShell(
     env: { HOME: '/workspace', PATH: '/usr/bin', PWD: '/workspace', ...env },
     timeoutMs: timeoutSec * 1000,
     startedAt: Date.now(),
+    signal,
   };
 
   try {
@@ -66,6 +71,8 @@ interface ShellContext {
   env: Record<string, string>;
   timeoutMs: number;
   startedAt: number;
+  /** Aborted when the agent run is cancelled */
+  signal?: AbortSignal;
 }
 
 // ---------------------------------------------------------------------------
@@ -454,33 +461,47 @@ async function dispatch(
     }
 
     case 'cp': {
-      if (args.length < 2) return fail('cp: missing operands');
-      const src = resolvePath(args[0], ctx);
-      const dst = resolvePath(args[1], ctx);
-      const content = await safeRead(ctx.groupId, src);
-      if (content === null) return fail(`cp: ${args[0]}: No such file`);
-      await writeGroupFile(ctx.groupId, dst, content);
+      const { flags, operands } = parseFlags(args, [], ['r', 'R']);
+      if (operands.length < 2) return fail('cp: missing operands');
+      const src = resolvePath(operands[0], ctx);
+      const entry = await statGroupEntry(ctx.groupId, src);
+      if (!entry) return fail(`cp: ${operands[0]}: No such file`);
+      if (entry.kind === 'directory' && flags.r === undefined && flags.R === undefined) {
+        return fail(`cp: -r not specified; omitting directory '${operands[0]}'`);
+      }
+      try {
+        await copyGroupEntry(ctx.groupId, src, resolvePath(operands[1], ctx), true);
+      } catch (err: unknown) {
+        return fail(`cp: ${err instanceof Error ? err.message : String(err)}`);
+      }
       return ok('');
     }
 
     case 'mv': {
       if (args.length < 2) return fail('mv: missing operands');
-      const src = resolvePath(args[0], ctx);
-      const dst = resolvePath(args[1], ctx);
-      const content = await safeRead(ctx.groupId, src);
-      if (content === null) return fail(`mv: ${args[0]}: No such file`);
-      await writeGroupFile(ctx.groupId, dst, content);
-      await deleteGroupFile(ctx.groupId, src);
+      try {
+        await moveGroupEntry(ctx.groupId, resolvePath(args[0], ctx), resolvePath(args[1], ctx), true);
+      } catch (err: unknown) {
+        return fail(`mv: ${err instanceof Error ? err.message : String(err)}`);
+      }
       return ok('');
     }
 
     case 'rm': {
-      const { flags, operands } = parseFlags(args, [], ['r', 'f']);
+      const { flags, operands } = parseFlags(args, [], ['r', 'R', 'f']);
+      const recursive = flags.r !== undefined || flags.R !== undefined;
       for (const f of operands) {
-        try {
-          await deleteGroupFile(ctx.groupId, resolvePath(f, ctx));
-        } catch {
+        const path = resolvePath(f, ctx);
+        const entry = await statGroupEntry(ctx.groupId, path);
+        if (!entry) {
           if (flags.f === undefined) return fail(`rm: ${f}: No such file`);
+          continue;
+        }
+        if (entry.kind === 'directory' && !recursive) return fail(`rm: ${f}: is a directory`);
+        try {
+          await deleteGroupEntry(ctx.groupId, path, recursive);
+        } catch (err: unknown) {
+          return fail(`rm: ${err instanceof Error ? err.message : String(err)}`);
         }
       }
       return ok('');
@@ -518,7 +539,11 @@ async function dispatch(
 
     case 'sleep': {
       const ms = Math.min(parseFloat(args[0] ?? '0') * 1000, 5000);
-      await new Promise((r) => setTimeout(r, ms));
+      await new Promise<void>((r) => {
+        const timer = setTimeout(r, ms);
+        ctx.signal?.addEventListener('abort', () => { clearTimeout(timer); r(); }, { once: true });
+      });
+      checkTimeout(ctx);
       return ok('');
     }
 
@@ -670,6 +695,9 @@ const SUPPORTED_COMMANDS = new Set([
 // ---------------------------------------------------------------------------
 
 function checkTimeout(ctx: ShellContext): void {
+  if (ctx.signal?.aborted) {
+    throw new Error('[command cancelled]');
+  }
   if (Date.now() - ctx.startedAt > ctx.timeoutMs) {
     throw new Error('[command timed out]');
   }
@@ -47,6 +47,140 @@ function parsePath(filePath: string): { dirs: string[]; filename: string } {
   return { dirs: parts, filename };
 }
 
+/**
+ * Split a workspace path into segments, ignoring `.` and empty parts.
+ */
+function pathSegments(entryPath: string): string[] {
+  return entryPath.replace(/\\/g, '/').split('/').filter((p) => p && p !== '.');
+}
+
+type Located = {
+  /** Directory holding the entry; null for the workspace root */
+  parent: FileSystemDirectoryHandle | null;
+  name: string;
+  handle: FileSystemFileHandle | FileSystemDirectoryHandle;
+};
+
+/**
+ * Find the file or directory at a path, or null if there is none.
+ */
+async function locate(groupId: string, entryPath: string): Promise<Located | null> {
+  const segments = pathSegments(entryPath);
+  const groupDir = await getGroupDir(groupId);
+  if (segments.length === 0) return { parent: null, name: '', handle: groupDir };
+
+  const name = segments.pop()!;
+  try {
+    let parent = groupDir;
+    for (const seg of segments) {
+      parent = await parent.getDirectoryHandle(seg);
+    }
+    const handle = await parent.getFileHandle(name).catch(() => parent.getDirectoryHandle(name));
+    return { parent, name, handle };
+  } catch {
+    return null;
+  }
+}
+
+/** Where a move or copy lands, and the directory it replaces, if any */
+type Destination = { dir: FileSystemDirectoryHandle; name: string; path: string; replaces: boolean };
+
+/**
+ * Work out where a move or copy of `source` lands, and check that
+ * `overwrite` allows replacing what is there.
+ */
+async function prepareDestination(
+  groupId: string,
+  source: Located,
+  from: string,
+  to: string,
+  overwrite: boolean,
+): Promise<Destination> {
+  const segments = pathSegments(to);
+  let existing = await locate(groupId, to);
+  if (existing?.handle.kind === 'directory') {
+    segments.push(source.name);
+    existing = await locate(groupId, segments.join('/'));
+  }
+
+  const sourcePath = pathSegments(from).join('/');
+  const path = segments.join('/');
+  if (path === sourcePath) throw new Error(`${from} and ${to} are the same ${source.handle.kind}`);
+  if (source.handle.kind === 'directory' && path.startsWith(`${sourcePath}/`)) {
+    throw new Error(`Cannot put directory ${from} inside itself`);
+  }
+  if (existing) {
+    if (!overwrite) throw new Error(`Already exists: ${path}`);
+    if (existing.handle.kind !== source.handle.kind) {
+      throw new Error(`Cannot replace ${existing.handle.kind} ${path} with a ${source.handle.kind}`);
+    }
+    if (sourcePath.startsWith(`${path}/`)) throw new Error(`Cannot replace directory ${path}, which holds ${from}`);
+  }
+
+  const name = segments.pop()!;
+  const dir = await getNestedDir(await getGroupDir(groupId), ...segments);
+  return { dir, name, path, replaces: existing?.handle.kind === 'directory' };
+}
+
+/**
+ * Copy `handle` to its destination. A directory being replaced is only
+ * removed once the copy is complete beside it, so a copy that fails
+ * part way — out of quota, say — leaves the original in place.
+ */
+async function copyToDestination(
+  handle: FileSystemFileHandle | FileSystemDirectoryHandle,
+  target: Destination,
+): Promise<void> {
+  // Files are safe already: a writable only replaces the file when it closes
+  if (!target.replaces) {
+    await copyHandle(handle, target.dir, target.name);
+    return;
+  }
+
+  const partial = `.${target.name}.partial-${Date.now().toString(36)}`;
+  try {
+    await copyHandle(handle, target.dir, partial);
+  } catch (err) {
+    await target.dir.removeEntry(partial, { recursive: true }).catch(() => {});
+    throw err;
+  }
+  await target.dir.removeEntry(target.name, { recursive: true });
+
+  const copy = await target.dir.getDirectoryHandle(partial);
+  const movable = copy as FileSystemDirectoryHandle & { move?: (dir: FileSystemDirectoryHandle, name: string) => Promise<void> };
+  if (typeof movable.move === 'function') {
+    try {
+      await movable.move(target.dir, target.name);
+      return;
+    } catch {
+      // Fall back to copying
+    }
+  }
+  await copyHandle(copy, target.dir, target.name);
+  await target.dir.removeEntry(partial, { recursive: true });
+}
+
+/**
+ * Copy a file or directory tree into `dir` under `name`, byte for byte.
+ */
+async function copyHandle(
+  handle: FileSystemFileHandle | FileSystemDirectoryHandle,
+  dir: FileSystemDirectoryHandle,
+  name: string,
+): Promise<void> {
+  if (handle.kind === 'file') {
+    const target = await dir.getFileHandle(name, { create: true });
+    const writable = await target.createWritable();
+    await writable.write(await (handle as FileSystemFileHandle).getFile());
+    await writable.close();
+    return;
+  }
+  const target = await dir.getDirectoryHandle(name, { create: true });
+  for await (const [childName, child] of (handle as FileSystemDirectoryHandle).entries()) {
+    await copyHandle(child as FileSystemFileHandle | FileSystemDirectoryHandle, target, childName);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -118,6 +252,61 @@ export async function listGroupFiles(
   return entries.sort();
 }
 
+/** A file or directory in a group's workspace */
+export type GroupEntry =
+  | { kind: 'file'; path: string; size: number; modified: number }
+  | { kind: 'directory'; path: string };
+
+/**
+ * List a directory of a group's workspace with file sizes and modification
+ * times, optionally including everything below it. Paths are relative to
+ * the workspace root and directory paths end with `/`.
+ */
+export async function listGroupEntries(
+  groupId: string,
+  dirPath: string = '.',
+  recursive: boolean = false,
+): Promise<GroupEntry[]> {
+  const groupDir = await getGroupDir(groupId);
+  const parts = pathSegments(dirPath);
+
+  let dir = groupDir;
+  for (const seg of parts) {
+    dir = await dir.getDirectoryHandle(seg);
+  }
+
+  const entries: GroupEntry[] = [];
+  const walk = async (handle: FileSystemDirectoryHandle, prefix: string) => {
+    for await (const [name, entry] of handle.entries()) {
+      if (entry.kind === 'directory') {
+        entries.push({ kind: 'directory', path: `${prefix}${name}/` });
+        if (recursive) await walk(entry as FileSystemDirectoryHandle, `${prefix}${name}/`);
+      } else {
+        const file = await (entry as FileSystemFileHandle).getFile();
+        entries.push({ kind: 'file', path: `${prefix}${name}`, size: file.size, modified: file.lastModified });
+      }
+    }
+  };
+  await walk(dir, parts.length > 0 ? `${parts.join('/')}/` : '');
+  return entries.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+}
+
+/**
+ * Describe a file or directory in a group's workspace, or null if there is
+ * nothing at that path.
+ */
+export async function statGroupEntry(
+  groupId: string,
+  entryPath: string,
+): Promise<GroupEntry | null> {
+  const found = await locate(groupId, entryPath);
+  if (!found) return null;
+  const path = pathSegments(entryPath).join('/');
+  if (found.handle.kind === 'directory') return { kind: 'directory', path: path ? `${path}/` : '' };
+  const file = await (found.handle as FileSystemFileHandle).getFile();
+  return { kind: 'file', path, size: file.size, modified: file.lastModified };
+}
+
 /**
  * Delete a file from a group's workspace.
  */
@@ -136,6 +325,77 @@ export async function deleteGroupFile(
   await dir.removeEntry(filename);
 }
 
+/**
+ * Delete a file or directory from a group's workspace. A directory that
+ * still has contents is only removed when `recursive` is set.
+ */
+export async function deleteGroupEntry(
+  groupId: string,
+  entryPath: string,
+  recursive: boolean = false,
+): Promise<void> {
+  const found = await locate(groupId, entryPath);
+  if (!found) throw new Error(`No such file or directory: ${entryPath}`);
+  if (!found.parent) throw new Error('The workspace root cannot be deleted');
+  if (found.handle.kind === 'directory' && !recursive) {
+    for await (const _ of (found.handle as FileSystemDirectoryHandle).keys()) {
+      throw new Error(`Directory not empty: ${entryPath}`);
+    }
+  }
+  await found.parent.removeEntry(found.name, { recursive });
+}
+
+/**
+ * Move or rename a file or directory within a group's workspace. When `to`
+ * is an existing directory the entry is moved into it, as with `mv`; an
+ * existing file or directory at the destination is only replaced when
+ * `overwrite` is set. Returns the new path.
+ */
+export async function moveGroupEntry(
+  groupId: string,
+  from: string,
+  to: string,
+  overwrite: boolean = false,
+): Promise<string> {
+  const source = await locate(groupId, from);
+  if (!source) throw new Error(`No such file or directory: ${from}`);
+  if (!source.parent) throw new Error('The workspace root cannot be moved');
+  const target = await prepareDestination(groupId, source, from, to, overwrite);
+
+  // Browsers that can move OPFS files do it without copying the data
+  const movable = source.handle as FileSystemFileHandle & { move?: (dir: FileSystemDirectoryHandle, name: string) => Promise<void> };
+  if (source.handle.kind === 'file' && typeof movable.move === 'function') {
+    try {
+      await movable.move(target.dir, target.name);
+      return target.path;
+    } catch {
+      // Fall back to copying
+    }
+  }
+  await copyToDestination(source.handle, target);
+  await source.parent.removeEntry(source.name, { recursive: true });
+  return target.path;
+}
+
+/**
+ * Copy a file or directory, with everything in it, within a group's
+ * workspace. The destination is resolved as in moveGroupEntry. Returns the
+ * path of the copy.
+ */
+export async function copyGroupEntry(
+  groupId: string,
+  from: string,
+  to: string,
+  overwrite: boolean = false,
+): Promise<string> {
+  const source = await locate(groupId, from);
+  if (!source) throw new Error(`No such file or directory: ${from}`);
+  if (!source.parent) throw new Error('The workspace root cannot be copied');
+  const target = await prepareDestination(groupId, source, from, to, overwrite);
+  await copyToDestination(source.handle, target);
+  return target.path;
+}
+
 /**
  * Check if a file exists in a group's workspace.
  */
@@ -8,30 +8,46 @@ import type {
   OrchestratorState,
   TokenUsage,
   ThinkingLogEntry,
+  ToolApprovalRequest,
+  McpServerStatus,
 } from '../types.js';
 import type { Orchestrator } from '../orchestrator.js';
-import { DEFAULT_GROUP_ID, DEFAULT_MODEL, DEFAULT_PROVIDER, DEFAULT_OLLAMA_URL, DEFAULT_OPENWEBUI_URL } from '../config.js';
-import { getRecentMessages } from '../db.js';
+import { DEFAULT_COMPACT_THRESHOLD, DEFAULT_GROUP_ID, DEFAULT_MAX_CONCURRENT_RUNS, DEFAULT_MODEL, DEFAULT_PROVIDER, DEFAULT_OLLAMA_URL, DEFAULT_OPENWEBUI_URL, DEFAULT_OPENAI_URL, DEFAULT_RUN_BUDGET, DEFAULT_TASK_RUN_BUDGET, DEFAULT_FETCH_RELAY_URL } from '../config.js';
+import { getActiveBranch } from '../db.js';
+import { DEFAULT_CAPABILITIES } from '../models.js';
 
 interface OrchestratorStoreState {
   // --- reactive state ---
+  /** Messages on the active branch of the conversation on screen */
   messages: StoredMessage[];
+  /** Sibling IDs for messages on screen that have alternatives */
+  branches: Record<string, string[]>;
   isTyping: boolean;
+  streamingText: string;
   toolActivity: { tool: string; status: string } | null;
   activityLog: ThinkingLogEntry[];
-  state: OrchestratorState;
+  /** Run state per group — groups run independently of each other */
+  groupStates: Record<string, OrchestratorState>;
   tokenUsage: TokenUsage | null;
   error: string | null;
   activeGroupId: string;
   ready: boolean;
+  /** Tool calls from any group waiting for approval, oldest first */
+  pendingApprovals: ToolApprovalRequest[];
+  /** Registered MCP servers and their connection state */
+  mcpServers: McpServerStatus[];
 
   // --- actions ---
   sendMessage: (text: string) => void;
+  stop: () => void;
   newSession: () => Promise<void>;
   compactContext: () => Promise<void>;
   clearError: () => void;
   loadHistory: () => Promise<void>;
   editMessage: (messageId: string, text: string) => Promise<void>;
+  regenerate: (messageId: string) => Promise<void>;
+  switchBranch: (messageId: string) => Promise<void>;
+  resolveApproval: (requestId: string, approved: boolean) => void;
 }
 
 let orchestratorInstance: Orchestrator | null = null;
@@ -47,6 +63,7 @@ export let getOrchestrator: () => Orchestrator = () => {
     // but typed as any since we only call a few of them early.
     const stub: Partial<Orchestrator> = {
       submitMessage: () => { },
+      cancel: () => { },
       newSession: async () => { },
       compactContext: async () => { },
       getAssistantName: () => '',
@@ -55,6 +72,19 @@ export let getOrchestrator: () => Orchestrator = () => {
       getProvider: () => DEFAULT_PROVIDER,
       getOllamaUrl: () => DEFAULT_OLLAMA_URL,
       getOpenWebUIUrl: () => DEFAULT_OPENWEBUI_URL,
+      getOpenAIUrl: () => DEFAULT_OPENAI_URL,
+      getMaxConcurrentRuns: () => DEFAULT_MAX_CONCURRENT_RUNS,
+      getCompactThreshold: () => DEFAULT_COMPACT_THRESHOLD,
+      getFallbackChain: () => [],
+      getToolPolicies: () => ({ global: {}, groups: {} }),
+      getRunBudgets: () => ({ chat: DEFAULT_RUN_BUDGET, task: DEFAULT_TASK_RUN_BUDGET, groups: {} }),
+      getNetworkPolicies: () => ({ global: { allowHosts: [], denyHosts: [], methods: [] }, groups: {} }),
+      getFetchCredentials: () => [],
+      getFetchRelay: () => ({ enabled: false, url: DEFAULT_FETCH_RELAY_URL, secret: '' }),
+      getMcpServers: () => [],
+      getMcpToolDefinitions: () => [],
+      getModelCapabilities: () => DEFAULT_CAPABILITIES,
+      hasCustomModelCapabilities: () => false,
       fetchOllamaModels: async () => [],
     };
     return stub as Orchestrator;
@@ -70,14 +100,18 @@ export function setGetOrchestrator(fn: typeof getOrchestrator) {
 
 export const useOrchestratorStore = create<OrchestratorStoreState>((set, get) => ({
   messages: [],
+  branches: {},
   isTyping: false,
+  streamingText: '',
   toolActivity: null,
   activityLog: [],
-  state: 'idle',
+  groupStates: {},
   tokenUsage: null,
   error: null,
   activeGroupId: DEFAULT_GROUP_ID,
   ready: false,
+  pendingApprovals: [],
+  mcpServers: [],
 
   sendMessage: (text) => {
     try {
@@ -88,6 +122,15 @@ export const useOrchestratorStore = create<OrchestratorStoreState>((set, get) =>
     }
   },
 
+  stop: () => {
+    try {
+      const orch = getOrchestrator();
+      orch.cancel(get().activeGroupId);
+    } catch {
+      console.warn('stop called before Orchestrator ready');
+    }
+  },
+
   newSession: async () => {
     try {
       const orch = getOrchestrator();
@@ -110,8 +153,8 @@ export const useOrchestratorStore = create<OrchestratorStoreState>((set, get) =>
 
   loadHistory: async () => {
     try {
-      const msgs = await getRecentMessages(get().activeGroupId, 200);
-      set({ messages: msgs });
+      const { messages, siblings } = await getActiveBranch(get().activeGroupId);
+      set({ messages, branches: siblings });
     } catch (err) {
       console.warn('loadHistory error', err);
     }
@@ -125,6 +168,26 @@ export const useOrchestratorStore = create<OrchestratorStoreState>((set, get) =>
       set({ error: err.message || 'Failed to edit message' });
     }
   },
+
+  regenerate: async (messageId) => {
+    try {
+      await getOrchestrator().regenerateMessage(messageId);
+    } catch (err: any) {
+      set({ error: err.message || 'Failed to regenerate response' });
+    }
+  },
+
+  switchBranch: async (messageId) => {
+    try {
+      await getOrchestrator().switchBranch(messageId);
+    } catch (err: any) {
+      set({ error: err.message || 'Failed to switch branch' });
+    }
+  },
+
+  resolveApproval: (requestId, approved) => {
+    getOrchestrator().resolveToolApproval(requestId, approved);
+  },
 }));
 
 /**
@@ -137,46 +200,60 @@ export async function initOrchestratorStore(orch: Orchestrator): Promise<void> {
 
   // Subscribe to events
   orch.events.on('message', (msg) => {
-    store.setState((s) => ({ messages: [...s.messages, msg] }));
-  });
-
-  orch.events.on('message-updated', (msg) => {
     store.setState((s) => ({
-      messages: s.messages.map((m) => (m.id === msg.id ? msg : m)),
+      messages: [...s.messages, msg],
+      // The final assistant message replaces the streamed preview of its own chat
+      streamingText: msg.isFromMe && msg.groupId === s.activeGroupId ? '' : s.streamingText,
     }));
   });
 
-  orch.events.on('messages-deleted-after', ({ groupId, timestamp }) => {
-    store.setState((s) => ({
-      messages: s.messages.filter((m) => m.groupId !== groupId || m.timestamp <= timestamp),
-    }));
+  orch.events.on('response-delta', ({ groupId, text }) => {
+    store.setState((s) => (
+      groupId === s.activeGroupId ? { streamingText: s.streamingText + text } : {}
+    ));
   });
 
-  orch.events.on('typing', ({ typing }) => {
-    store.setState({ isTyping: typing });
+  // Edits, regenerations and switches change which messages are on screen
+  orch.events.on('branch-changed', ({ groupId }) => {
+    if (groupId === store.getState().activeGroupId) store.getState().loadHistory();
   });
 
-  orch.events.on('tool-activity', ({ tool, status }) => {
-    store.setState({
-      toolActivity: status === 'running' ? { tool, status } : null,
+  // Typing, tool activity and token usage describe the conversation on
+  // screen — other groups running in parallel must not leak into it.
+  orch.events.on('typing', ({ groupId, typing }) => {
+    store.setState((s) => {
+      if (groupId !== s.activeGroupId) return {};
+      return typing ? { isTyping: true } : { isTyping: false, streamingText: '' };
+    });
+  });
+
+  orch.events.on('tool-activity', ({ groupId, tool, status }) => {
+    store.setState((s) => {
+      if (groupId !== s.activeGroupId) return {};
+      return {
+        toolActivity: status === 'running' ? { tool, status } : null,
+        // Text streamed before a tool call is intermediate — it stays in the
+        // activity log but shouldn't linger as the answer preview.
+        ...(status === 'running' ? { streamingText: '' } : {}),
+      };
     });
   });
 
   orch.events.on('thinking-log', (entry) => {
     store.setState((s) => {
-      // Reset log when a new invocation starts
+      // Reset the group's log when a new invocation starts
       if (entry.kind === 'info' && entry.label === 'Starting') {
-        return { activityLog: [entry] };
+        return { activityLog: [...s.activityLog.filter((e) => e.groupId !== entry.groupId), entry] };
       }
       return { activityLog: [...s.activityLog, entry] };
     });
   });
 
-  orch.events.on('state-change', (state) => {
-    store.setState({ state });
-    if (state === 'idle') {
-      store.setState({ toolActivity: null });
-    }
+  orch.events.on('state-change', ({ groupId, state }) => {
+    store.setState((s) => ({
+      groupStates: { ...s.groupStates, [groupId]: state },
+      ...(state === 'idle' && groupId === s.activeGroupId ? { toolActivity: null } : {}),
+    }));
   });
 
   orch.events.on('error', ({ error }) => {
@@ -186,10 +263,12 @@ export async function initOrchestratorStore(orch: Orchestrator): Promise<void> {
   orch.events.on('session-reset', () => {
     store.setState({
       messages: [],
+      branches: {},
       activityLog: [],
       tokenUsage: null,
       toolActivity: null,
       isTyping: false,
+      streamingText: '',
     });
   });
 
@@ -199,11 +278,26 @@ export async function initOrchestratorStore(orch: Orchestrator): Promise<void> {
   });
 
   orch.events.on('token-usage', (usage) => {
-    store.setState({ tokenUsage: usage });
+    store.setState((s) => (usage.groupId === s.activeGroupId ? { tokenUsage: usage } : {}));
+  });
+
+  // Approvals are shown whatever chat is on screen — a paused run waits on them
+  orch.events.on('tool-approval', (request) => {
+    store.setState((s) => ({ pendingApprovals: [...s.pendingApprovals, request] }));
+  });
+
+  orch.events.on('tool-approval-resolved', ({ requestId }) => {
+    store.setState((s) => ({
+      pendingApprovals: s.pendingApprovals.filter((r) => r.requestId !== requestId),
+    }));
+  });
+
+  orch.events.on('mcp-changed', () => {
+    store.setState({ mcpServers: orch.getMcpServers() });
   });
 
   orch.events.on('ready', () => {
-    store.setState({ ready: true });
+    store.setState({ ready: true, mcpServers: orch.getMcpServers() });
   });
 
   // Load initial history
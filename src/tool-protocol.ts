@@ -0,0 +1,268 @@
+// ---------------------------------------------------------------------------
+// OpenWebClaw — Text tool-call protocol
+// ---------------------------------------------------------------------------
+//
+// Fallback for models without native tool calling, and for models that
+// answer a `tools` request with tool calls written into their text. The tool
+// schema is described in the system prompt; tool calls are parsed back out of
+// the response text and their results returned as text.
+//
+// Understood formats:
+//   <tool_call>{"name": "...", "arguments": {...}}</tool_call>   (taught in the prompt)
+//   <function=name>{...}</function> and <function=name><parameter=key>…</parameter></function>
+//   <invoke name="..."><parameter name="key">…</parameter></invoke>
+//   ```tool_call / ```json fences holding {"name": ..., "arguments": ...} for a known tool
+
+import { TOOL_DEFINITIONS } from './tools.js';
+import type { ToolDefinition } from './types.js';
+
+/** A tool call found in model output. Calls with `error` could not be parsed. */
+export interface TextToolCall {
+  name: string;
+  input: Record<string, unknown>;
+  error?: string;
+}
+
+export type ParsedArguments = { input: Record<string, unknown> } | { error: string };
+
+/**
+ * System prompt section that teaches the text protocol.
+ */
+export function buildToolProtocolPrompt(tools: ToolDefinition[] = TOOL_DEFINITIONS): string {
+  const catalog = tools
+    .map((tool) => `### ${tool.name}\n${tool.description}\nParameters: ${JSON.stringify(tool.input_schema)}`)
+    .join('\n\n');
+  return [
+    '## Tools',
+    '',
+    'You can call tools. To call one, write a block like this:',
+    '',
+    '<tool_call>',
+    '{"name": "tool_name", "arguments": {"parameter": "value"}}',
+    '</tool_call>',
+    '',
+    'Rules:',
+    '- The block must contain a single JSON object with "name" and "arguments". Arguments must be valid JSON matching the parameters below.',
+    '- Write one block per call. Several blocks in one reply run in order.',
+    '- Stop after your tool calls. The results come back in <tool_result> blocks in the next message.',
+    '- When you have everything you need, answer normally without a tool call.',
+    '',
+    catalog,
+  ].join('\n');
+}
+
+/** Render a tool call the way the prompt teaches it. */
+export function formatToolCall(name: string, input: Record<string, unknown>): string {
+  return `<tool_call>\n${JSON.stringify({ name, arguments: input })}\n</tool_call>`;
+}
+
+/** Render a tool result for the next user message. */
+export function formatToolResult(name: string | null, content: string): string {
+  return name ? `<tool_result name="${name}">\n${content}\n</tool_result>` : `<tool_result>\n${content}\n</tool_result>`;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+interface Match {
+  start: number;
+  end: number;
+  call: TextToolCall;
+}
+
+const TOOL_CALL_TAG = /<tool_call>([\s\S]*?)(?:<\/tool_call>|$)/g;
+const FUNCTION_TAG = /<function=([\w.-]+)>([\s\S]*?)(?:<\/function>|$)/g;
+const INVOKE_TAG = /<invoke\s+name="([^"]+)"\s*>([\s\S]*?)(?:<\/invoke>|$)/g;
+const FENCED_CALL = /```(?:tool_call|tool_code|json)?\s*\n(\{[\s\S]*?\})\s*\n?```/g;
+/** Wrapper tags some models put around their calls; dropped once empty */
+const EMPTY_WRAPPER = /<(minimax:tool_call|function_calls|tool_calls)>\s*<\/\1>/g;
+
+/**
+ * Find tool calls written into a model's text. Returns the text with the
+ * calls removed, and the calls in the order they appear.
+ */
+export function parseToolCallText(text: string, tools: ToolDefinition[] = TOOL_DEFINITIONS): { text: string; calls: TextToolCall[] } {
+  const matches: Match[] = [];
+
+  for (const m of text.matchAll(TOOL_CALL_TAG)) {
+    matches.push({ start: m.index!, end: m.index! + m[0].length, call: parseJsonCall(m[1]) });
+  }
+  for (const m of text.matchAll(FUNCTION_TAG)) {
+    matches.push({ start: m.index!, end: m.index! + m[0].length, call: parseTaggedCall(m[1], m[2], /<parameter=([\w.-]+)>([\s\S]*?)<\/parameter>/g, tools) });
+  }
+  for (const m of text.matchAll(INVOKE_TAG)) {
+    matches.push({ start: m.index!, end: m.index! + m[0].length, call: parseTaggedCall(m[1], m[2], /<parameter\s+name="([^"]+)"\s*>([\s\S]*?)<\/parameter>/g, tools) });
+  }
+  for (const m of text.matchAll(FENCED_CALL)) {
+    const call = parseJsonCall(m[1]);
+    // Only fences that clearly call one of our tools — plain JSON in an answer is not a call
+    if (tools.some((t) => t.name === call.name)) matches.push({ start: m.index!, end: m.index! + m[0].length, call });
+  }
+
+  matches.sort((a, b) => a.start - b.start);
+
+  let remaining = '';
+  let cursor = 0;
+  const calls: TextToolCall[] = [];
+  for (const match of matches) {
+    // A format can show up inside another one's block; keep the outer match
+    if (match.start < cursor) continue;
+    remaining += text.slice(cursor, match.start);
+    cursor = match.end;
+    calls.push(match.call);
+  }
+  remaining += text.slice(cursor);
+
+  return {
+    text: remaining.replace(EMPTY_WRAPPER, '').replace(/\n{3,}/g, '\n\n').trim(),
+    calls,
+  };
+}
+
+/** `{"name": ..., "arguments": ...}`, tolerating the usual aliases and damage. */
+function parseJsonCall(body: string): TextToolCall {
+  const parsed = parseToolArguments(body);
+  if ('error' in parsed) {
+    const name = /"name"\s*:\s*"([^"]+)"/.exec(body)?.[1] ?? 'unknown';
+    return { name, input: {}, error: parsed.error };
+  }
+  const { name, arguments: args, parameters, input, args: shortArgs } = parsed.input;
+  if (typeof name !== 'string' || !name) {
+    return { name: 'unknown', input: {}, error: 'missing "name"' };
+  }
+  const call = parseToolArguments(args ?? parameters ?? input ?? shortArgs);
+  return 'error' in call ? { name, input: {}, error: call.error } : { name, input: call.input };
+}
+
+/** XML-style calls with one tag per parameter, or a JSON body. */
+function parseTaggedCall(name: string, body: string, parameterTag: RegExp, tools: ToolDefinition[]): TextToolCall {
+  const params = [...body.matchAll(parameterTag)];
+  if (params.length === 0) {
+    const call = parseToolArguments(body.trim());
+    return 'error' in call ? { name, input: {}, error: call.error } : { name, input: call.input };
+  }
+  const properties = tools.find((t) => t.name === name)?.input_schema.properties ?? {};
+  const input: Record<string, unknown> = {};
+  for (const [, key, raw] of params) {
+    const value = raw.replace(/^\n/, '').replace(/\n$/, '');
+    const type = (properties[key] as { type?: string } | undefined)?.type;
+    input[key] = type === 'string' ? value : parseScalar(value);
+  }
+  return { name, input };
+}
+
+/** Numbers, booleans and JSON values written as parameter text. */
+function parseScalar(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Argument parsing with repair
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse tool-call arguments, which providers hand over as an object or a
+ * JSON string. Damaged JSON is repaired where the intent is unambiguous;
+ * otherwise the parse error is returned so the model can resend the call.
+ */
+export function parseToolArguments(raw: unknown): ParsedArguments {
+  if (raw === undefined || raw === null || raw === '') return { input: {} };
+
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch (err) {
+      try {
+        value = JSON.parse(repairJson(raw));
+      } catch {
+        return { error: err instanceof Error ? err.message : String(err) };
+      }
+    }
+    // Some models encode the arguments twice
+    if (typeof value === 'string' && value !== raw) return parseToolArguments(value);
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'arguments must be a JSON object' };
+  }
+  return { input: value as Record<string, unknown> };
+}
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+const PYTHON_LITERALS: Record<string, string> = { True: 'true', False: 'false', None: 'null' };
+
+/**
+ * Best-effort fix for the JSON mistakes models make: code fences, text
+ * around the object, single quotes, unquoted keys, Python literals, raw
+ * newlines in strings, trailing commas and output cut off mid-object.
+ */
+export function repairJson(raw: string): string {
+  let s = raw.trim().replace(/^```\w*\s*/, '').replace(/\s*```$/, '');
+  const start = s.search(/[{[]/);
+  if (start > 0) s = s.slice(start);
+
+  let out = '';
+  let quote: string | null = null;
+  const closers: string[] = [];
+
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i];
+
+    if (quote) {
+      if (ch === '\\') {
+        const next = s[i + 1] ?? '';
+        out += next === "'" ? "'" : ch + next;
+        i++;
+      } else if (ch === quote) {
+        out += '"';
+        quote = null;
+      } else if (ch === '"') {
+        out += '\\"';
+      } else if (ch === '\n') {
+        out += '\\n';
+      } else if (ch === '\r') {
+        out += '\\r';
+      } else if (ch === '\t') {
+        out += '\\t';
+      } else {
+        out += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+      out += '"';
+    } else if (ch === '{' || ch === '[') {
+      closers.push(ch === '{' ? '}' : ']');
+      out += ch;
+    } else if (ch === '}' || ch === ']') {
+      out = out.replace(/,\s*$/, '') + ch;
+      closers.pop();
+      // Ignore anything after the outermost value
+      if (closers.length === 0) break;
+    } else {
+      IDENTIFIER.lastIndex = i;
+      const word = IDENTIFIER.exec(s)?.[0];
+      if (word) {
+        const isKey = /^\s*:/.test(s.slice(i + word.length, i + word.length + 16));
+        out += isKey ? JSON.stringify(word) : PYTHON_LITERALS[word] ?? word;
+        i += word.length - 1;
+      } else {
+        out += ch;
+      }
+    }
+  }
+
+  // Close whatever a truncated response left open
+  if (quote) out += '"';
+  out = out.replace(/[,:]\s*$/, '');
+  while (closers.length > 0) out += closers.pop();
+  return out;
+}
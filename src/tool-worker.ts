@@ -0,0 +1,92 @@
+// ---------------------------------------------------------------------------
+// OpenWebClaw — Tool Worker
+// ---------------------------------------------------------------------------
+//
+// Runs a single call of a user-defined tool in a worker of its own, away
+// from the agent worker's state. The worker is locked down like the
+// javascript sandbox before the tool's module is imported from a blob URL
+// and its default export called with the input. The tool keeps a `fetch`,
+// but it is a message to the agent worker, which applies the network
+// policy. The agent worker terminates this worker once the call returns or
+// times out.
+
+import { lockDownWorker } from './worker-lockdown.js';
+import type { ToolFetchRequest, ToolFetchResult, ToolWorkerRequest, ToolWorkerResult } from './types.js';
+
+// Keep a private handle on the way back to the host before it is removed
+const send = self.postMessage.bind(self) as (message: ToolWorkerResult | ToolFetchRequest) => void;
+
+const pendingFetches = new Map<number, { resolve: (res: Response) => void; reject: (err: unknown) => void }>();
+let nextFetchId = 1;
+
+/** `fetch` for the tool: the agent worker makes the request if the network policy allows it */
+async function hostFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  const request = input instanceof Request ? input : null;
+  init.signal?.throwIfAborted();
+  if (request?.body || (init.body !== undefined && init.body !== null && typeof init.body !== 'string' && !(init.body instanceof URLSearchParams))) {
+    throw new TypeError('fetch in custom tools only supports string request bodies');
+  }
+
+  const id = nextFetchId++;
+  const response = new Promise<Response>((resolve, reject) => pendingFetches.set(id, { resolve, reject }));
+  send({
+    type: 'fetch',
+    id,
+    url: new URL(request ? request.url : String(input), self.location.href).href,
+    method: (init.method ?? request?.method ?? 'GET').toUpperCase(),
+    headers: Object.fromEntries(new Headers(init.headers ?? request?.headers)),
+    body: init.body == null ? undefined : String(init.body),
+  });
+  return response;
+}
+
+function settleFetch(result: ToolFetchResult): void {
+  const pending = pendingFetches.get(result.id);
+  if (!pending) return;
+  pendingFetches.delete(result.id);
+  if (result.ok) {
+    // Responses with these statuses may not have a body, even an empty one
+    const body = [101, 204, 205, 304].includes(result.status) ? null : result.body;
+    pending.resolve(new Response(body, { status: result.status, statusText: result.statusText, headers: result.headers }));
+  } else {
+    pending.reject(new TypeError(`fetch failed: ${result.error}`));
+  }
+}
+
+lockDownWorker();
+Object.defineProperty(self, 'fetch', { value: hostFetch, writable: false, configurable: false });
+
+let called = false;
+
+self.onmessage = async (event: MessageEvent<ToolWorkerRequest | ToolFetchResult>) => {
+  if ('type' in event.data) {
+    settleFetch(event.data);
+    return;
+  }
+  if (called) return;
+  called = true;
+
+  const { code, input } = event.data;
+  const url = URL.createObjectURL(new Blob([code], { type: 'text/javascript' }));
+  try {
+    const module = await import(/* @vite-ignore */ url);
+    if (typeof module.default !== 'function') {
+      throw new Error('The tool module must `export default` a function');
+    }
+    send({ type: 'result', ok: true, output: stringify(await module.default(input)) });
+  } catch (err: unknown) {
+    send({ type: 'result', ok: false, error: err instanceof Error ? err.message : String(err) });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+function stringify(value: unknown): string {
+  if (value === undefined) return '(no return value)';
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch {
+    return String(value);
+  }
+}
@@ -35,7 +35,8 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
     name: 'read_file',
     description:
       'Read the contents of a file from the group workspace. ' +
-      'Returns the full text content of the file.',
+      'Returns the full text content of the file, or a range of lines with offset and limit. ' +
+      'For large files, read a range at a time.',
     input_schema: {
       type: 'object',
       properties: {
@@ -43,10 +44,64 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
           type: 'string',
           description: 'File path relative to the group workspace root',
         },
+        offset: {
+          type: 'number',
+          description: 'Line number to start reading from (1-based, default: 1)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of lines to read (default: to the end of the file)',
+        },
+        line_numbers: {
+          type: 'boolean',
+          description:
+            'Prefix each line with its number and a tab (default: true when offset or limit is given). ' +
+            'The prefixes are not part of the file — leave them out of edit_file strings.',
+        },
       },
       required: ['path'],
     },
   },
+  {
+    name: 'edit_file',
+    description:
+      'Edit a file in the group workspace by exact string replacement, instead of rewriting it with write_file. ' +
+      'Each edit replaces old_string with new_string; old_string must match the file exactly, including ' +
+      'whitespace and indentation, and match only once unless replace_all is set. ' +
+      'Several edits are applied in order, and if any of them fails, none are applied.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'File path relative to the group workspace root',
+        },
+        edits: {
+          type: 'array',
+          description: 'Replacements to apply, in order',
+          items: {
+            type: 'object',
+            properties: {
+              old_string: {
+                type: 'string',
+                description: 'The exact text to replace, with enough context to be unique',
+              },
+              new_string: {
+                type: 'string',
+                description: 'The text to put in its place',
+              },
+              replace_all: {
+                type: 'boolean',
+                description: 'Replace every match instead of requiring a unique one (default: false)',
+              },
+            },
+            required: ['old_string', 'new_string'],
+          },
+        },
+      },
+      required: ['path', 'edits'],
+    },
+  },
   {
     name: 'write_file',
     description:
@@ -72,7 +127,9 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
     name: 'list_files',
     description:
       'List files and directories in the group workspace. ' +
-      'Directory names end with /. Returns sorted entries.',
+      'Directory names end with /. Returns sorted entries. ' +
+      'Set recursive to include everything in subdirectories; recursive listings show ' +
+      'each file\'s size and modification time.',
     input_schema: {
       type: 'object',
       properties: {
@@ -80,7 +137,135 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
           type: 'string',
           description: 'Directory path relative to workspace root (default: root)',
         },
+        recursive: {
+          type: 'boolean',
+          description: 'List subdirectories and their contents too (default: false)',
+        },
+        details: {
+          type: 'boolean',
+          description: 'Show sizes and modification times (default: true when recursive)',
+        },
+      },
+    },
+  },
+  {
+    name: 'delete_file',
+    description:
+      'Delete a file or directory from the group workspace. ' +
+      'A directory that is not empty is only deleted, with everything in it, when recursive is set. ' +
+      'This cannot be undone.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'File or directory path relative to the group workspace root',
+        },
+        recursive: {
+          type: 'boolean',
+          description: 'Delete a directory together with its contents (default: false)',
+        },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'move_file',
+    description:
+      'Move or rename a file or directory in the group workspace. ' +
+      'If the destination is an existing directory, the entry is moved into it. ' +
+      'An existing file at the destination is only replaced when overwrite is set.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        from: {
+          type: 'string',
+          description: 'Current path relative to the group workspace root',
+        },
+        to: {
+          type: 'string',
+          description: 'New path, or an existing directory to move into',
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Replace whatever is at the destination (default: false)',
+        },
+      },
+      required: ['from', 'to'],
+    },
+  },
+  {
+    name: 'copy_file',
+    description:
+      'Copy a file, or a directory with everything in it, within the group workspace. ' +
+      'If the destination is an existing directory, the copy is placed inside it. ' +
+      'An existing file at the destination is only replaced when overwrite is set.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        from: {
+          type: 'string',
+          description: 'Path of the file or directory to copy',
+        },
+        to: {
+          type: 'string',
+          description: 'Path of the copy, or an existing directory to copy into',
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Replace whatever is at the destination (default: false)',
+        },
       },
+      required: ['from', 'to'],
+    },
+  },
+  {
+    name: 'search_files',
+    description:
+      'Search the contents of every file in the group workspace, including subdirectories, ' +
+      'for a regular expression or literal text. ' +
+      'Returns matches as path:line:text, with context lines as path-line-text and groups separated by --. ' +
+      'Use include/exclude globs to limit which files are searched (e.g. "*.md", "notes/**"). ' +
+      'Prefer this to listing and reading files one by one when looking for something.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        pattern: {
+          type: 'string',
+          description: 'JavaScript regular expression, or plain text when literal is true',
+        },
+        literal: {
+          type: 'boolean',
+          description: 'Match the pattern as plain text instead of a regex (default: false)',
+        },
+        ignore_case: {
+          type: 'boolean',
+          description: 'Case-insensitive matching (default: false)',
+        },
+        path: {
+          type: 'string',
+          description: 'Directory to search, relative to workspace root (default: root)',
+        },
+        include: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only search files matching one of these globs. Globs without / match file or directory names anywhere',
+        },
+        exclude: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Skip files matching any of these globs',
+        },
+        context: {
+          type: 'number',
+          description: 'Lines of context to show before and after each match (default: 0, max: 10)',
+        },
+        max_results: {
+          type: 'number',
+          description: 'Stop after this many matching lines (default: 100)',
+        },
+      },
+      required: ['pattern'],
     },
   },
   {
@@ -88,7 +273,13 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
     description:
       'Fetch a URL via HTTP and return the response body. ' +
       'Subject to browser CORS restrictions — works with most public APIs. ' +
-      'Response is truncated to 100KB.',
+      'When a fetch relay is configured, requests the browser blocks are retried through it automatically ' +
+      '(marked "via relay" in the status line). ' +
+      'Requests may be limited to certain hosts and methods by the network policy. ' +
+      'Credentials the user stored for a host are added automatically; do not ask for them. ' +
+      'HTML pages are returned as their title, metadata and main content in Markdown, ' +
+      'with navigation and other boilerplate removed and link URLs kept. ' +
+      'Responses are truncated to 20,000 characters.',
     input_schema: {
       type: 'object',
       properties: {
@@ -108,6 +299,13 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
           type: 'string',
           description: 'Request body (for POST/PUT/PATCH)',
         },
+        format: {
+          type: 'string',
+          enum: ['markdown', 'html', 'links'],
+          description:
+            'How to return HTML pages: "markdown" (default) for the main content, ' +
+            '"html" for the raw page, "links" for the list of links on the page',
+        },
       },
       required: ['url'],
     },
@@ -169,19 +367,56 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
   {
     name: 'javascript',
     description:
-      'Execute JavaScript code in a sandboxed context and return the result. ' +
+      'Execute JavaScript code in a fresh, disposable sandbox and return the result. ' +
       'Lighter than bash — no VM boot required. Use for calculations, ' +
       'data transformations, JSON processing, etc. ' +
-      'Has access to standard JS built-ins but no DOM or network.',
+      'Has access to standard JS built-ins but no DOM, network or workspace files, ' +
+      'and nothing persists between calls. console output is captured and returned. ' +
+      'Buffers and typed arrays are limited to 256 MB each and 512 MB per run; ' +
+      'other memory use is only bounded by the timeout.',
     input_schema: {
       type: 'object',
       properties: {
         code: {
           type: 'string',
-          description: 'JavaScript code to execute. The return value of the last expression is captured.',
+          description:
+            'JavaScript code to execute. The value of the last expression is captured. ' +
+            'Code using top-level await runs as an async function body — use `return` for the result.',
+        },
+        timeout: {
+          type: 'number',
+          description: 'Timeout in seconds (default: 10, max: 60)',
         },
       },
       required: ['code'],
     },
   },
+  {
+    name: 'delegate',
+    description:
+      'Hand a self-contained subtask to a sub-agent. It starts with a fresh ' +
+      'context — it sees only the task and instructions you give it, not this ' +
+      'conversation — works with its own tool loop, and returns a final report. ' +
+      'Use it for research or multi-step work whose intermediate steps would ' +
+      'clutter this conversation. Several delegate calls in one turn run in parallel.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        task: {
+          type: 'string',
+          description: 'What the sub-agent should do and what its report should contain. Include every detail it needs.',
+        },
+        instructions: {
+          type: 'string',
+          description: 'Optional extra system instructions, e.g. a role or output format',
+        },
+        tools: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Names of the tools the sub-agent may use (default: all of yours)',
+        },
+      },
+      required: ['task'],
+    },
+  },
 ];
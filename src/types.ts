@@ -2,6 +2,8 @@
 // OpenWebClaw — Shared types
 // ---------------------------------------------------------------------------
 
+import type { Provider } from './config.js';
+
 /** Inbound message from any channel */
 export interface InboundMessage {
   id: string;
@@ -16,6 +18,22 @@ export interface InboundMessage {
 export interface StoredMessage extends InboundMessage {
   isFromMe: boolean;
   isTrigger: boolean;
+  /** Rolling summary that stands in for compacted history */
+  isSummary?: boolean;
+  /**
+   * Message this one follows; null at the start of the conversation. Edits
+   * and regenerations share a parent with the message they replace. Missing
+   * on messages saved before branching, which follow the previous message.
+   */
+  parentId?: string | null;
+}
+
+/** The branch of a conversation on screen */
+export interface ConversationBranch {
+  /** Messages from the start of the conversation to the branch's end, oldest first */
+  messages: StoredMessage[];
+  /** For messages with alternatives: all sibling IDs, oldest first, including the message */
+  siblings: Record<string, string[]>;
 }
 
 /** Scheduled task */
@@ -32,22 +50,173 @@ export interface Task {
 /** Session state per group */
 export interface Session {
   groupId: string;
-  messages: ConversationMessage[];
+  /** Last message of the active branch */
+  leafId: string | null;
   updatedAt: number;
 }
 
+/** Tool-use steps behind an assistant reply, replayed on later turns */
+export interface Transcript {
+  /** ID of the assistant message the steps led to */
+  messageId: string;
+  groupId: string;
+  /** Same timestamp as the assistant message */
+  timestamp: number;
+  /** Alternating assistant tool_use / user tool_result messages */
+  messages: ConversationMessage[];
+}
+
 /** A message in the Claude API conversation format */
 export interface ConversationMessage {
   role: 'user' | 'assistant';
   content: string | ContentBlock[];
 }
 
+/** What a model supports, as resolved by the model registry */
+export interface ModelCapabilities {
+  /** Context window in tokens */
+  contextWindow: number;
+  /** Largest response the model can produce, in tokens */
+  maxOutputTokens: number;
+  /** Native tool/function calling */
+  tools: boolean;
+  /** Image input */
+  vision: boolean;
+  /** USD per million input tokens */
+  inputPrice: number;
+  /** USD per million output tokens */
+  outputPrice: number;
+}
+
 /** Content block for tool use conversations */
 export type ContentBlock =
   | { type: 'text'; text: string }
   | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
   | { type: 'tool_result'; tool_use_id: string; content: string };
 
+/** Limits on a single agent run */
+export interface RunBudget {
+  /** Model calls (tool-use loop iterations) */
+  maxIterations: number;
+  /** Prompt and response tokens across all model calls */
+  maxTokens: number;
+  /** Wall-clock time */
+  maxSeconds: number;
+  /** Tool calls */
+  maxToolCalls: number;
+}
+
+/** Default budgets for chats and scheduled tasks, plus per-group overrides */
+export interface RunBudgetSettings {
+  chat: RunBudget;
+  task: RunBudget;
+  groups: Record<string, Partial<RunBudget>>;
+}
+
+/** What happens when the agent calls a tool */
+export type ToolPolicy = 'auto' | 'ask' | 'deny';
+
+/** Tool policies: defaults for every chat plus per-group overrides */
+export interface ToolPolicySettings {
+  global: Record<string, ToolPolicy>;
+  groups: Record<string, Record<string, ToolPolicy>>;
+}
+
+/**
+ * Where fetch_url may send requests. Hosts are exact names
+ * (`api.github.com`), subdomain wildcards (`*.github.com`) or `*`.
+ */
+export interface NetworkPolicy {
+  /** Only these hosts are reachable; empty allows every host not denied */
+  allowHosts: string[];
+  /** Never reachable, even when allowed */
+  denyHosts: string[];
+  /** Only these HTTP methods may be used; empty allows every method */
+  methods: string[];
+}
+
+/** Network policies: the default for every chat plus per-group replacements */
+export interface NetworkPolicySettings {
+  global: NetworkPolicy;
+  groups: Record<string, NetworkPolicy>;
+}
+
+/** Headers fetch_url adds to HTTPS requests for a host; the model never sees them */
+export interface DomainCredential {
+  id: string;
+  /** Host pattern, as in NetworkPolicy */
+  host: string;
+  headers: Record<string, string>;
+}
+
+/** The server-side relay fetch_url retries through when the browser blocks a request */
+export interface FetchRelayConfig {
+  enabled: boolean;
+  /** Relay route, absolute or relative to this page, e.g. `/api/relay` */
+  url: string;
+  /** Shared secret sent as `X-Relay-Secret` */
+  secret: string;
+}
+
+/** A tool call paused until the user approves or denies it */
+export interface ToolApprovalRequest {
+  requestId: string;
+  groupId: string;
+  tool: string;
+  input: Record<string, unknown>;
+}
+
+/** An MCP server registered in Settings; its auth headers are stored separately, encrypted */
+export interface McpServerConfig {
+  id: string;
+  /** Display name; also namespaces its tools as `<name>__<tool>` */
+  name: string;
+  url: string;
+  /** Streamable HTTP, or the older HTTP+SSE transport */
+  transport: 'http' | 'sse';
+  enabled: boolean;
+}
+
+/** A tool offered by an MCP server, under its own name */
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema: ToolDefinition['input_schema'];
+  annotations?: { readOnlyHint?: boolean };
+}
+
+export interface McpPrompt {
+  name: string;
+  description?: string;
+  arguments?: { name: string; description?: string; required?: boolean }[];
+}
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/** An MCP server with its connection state and what it offers */
+export interface McpServerStatus {
+  config: McpServerConfig;
+  state: 'disabled' | 'connecting' | 'connected' | 'error';
+  error?: string;
+  tools: McpTool[];
+  prompts: McpPrompt[];
+  resources: McpResource[];
+}
+
+/** A call to an MCP tool, forwarded from the worker to the main thread */
+export interface McpCallRequest {
+  requestId: string;
+  groupId: string;
+  /** Namespaced tool name, as the model saw it */
+  tool: string;
+  input: Record<string, unknown>;
+}
+
 /** Config entry */
 export interface ConfigEntry {
   key: string;
@@ -70,6 +239,8 @@ export interface Channel {
 export type WorkerInbound =
   | { type: 'invoke'; payload: InvokePayload }
   | { type: 'cancel'; payload: { groupId: string } }
+  | { type: 'tool-decision'; payload: { requestId: string; approved: boolean } }
+  | { type: 'mcp-result'; payload: { requestId: string; output: string } }
   | { type: 'compact'; payload: CompactPayload };
 
 export interface CompactPayload {
@@ -79,10 +250,12 @@ export interface CompactPayload {
   apiKey: string;
   model: string;
   maxTokens: number;
-  provider: 'anthropic' | 'ollama' | 'openwebui';
+  provider: Provider;
   ollamaUrl?: string;
   openWebUIUrl?: string;
   openWebUIKey?: string;
+  openAIUrl?: string;
+  openAIKey?: string;
 }
 
 export interface InvokePayload {
@@ -92,21 +265,93 @@ export interface InvokePayload {
   apiKey: string;
   model: string;
   maxTokens: number;
-  provider: 'anthropic' | 'ollama' | 'openwebui';
+  provider: Provider;
   ollamaUrl?: string;
   openWebUIUrl?: string;
   openWebUIKey?: string;
+  openAIUrl?: string;
+  openAIKey?: string;
+  capabilities: ModelCapabilities;
+  /** Tried in order when the primary provider keeps failing */
+  fallbacks?: FallbackAttempt[];
+  /** Effective policy per tool for this group; unlisted tools run automatically */
+  toolPolicies?: Record<string, ToolPolicy>;
+  /** Limits for this run */
+  budget: RunBudget;
+  /** Tools of the connected MCP servers, under their namespaced names */
+  mcpTools?: ToolDefinition[];
+  /** Where fetch_url may send requests in this group */
+  networkPolicy?: NetworkPolicy;
+  /** Headers fetch_url attaches per host, decrypted */
+  credentials?: DomainCredential[];
+  /** Relay for requests the browser blocks; only set when enabled */
+  relay?: FetchRelayConfig;
+}
+
+/** A provider and model in the fallback chain, as configured */
+export interface FallbackTarget {
+  provider: Provider;
+  model: string;
+}
+
+/** A fallback target resolved with the model's limits */
+export interface FallbackAttempt extends FallbackTarget {
+  maxTokens: number;
+  capabilities: ModelCapabilities;
 }
 
+/** A user-defined tool call, sent to a tool worker */
+export interface ToolWorkerRequest {
+  /** The tool's ES module source */
+  code: string;
+  input: Record<string, unknown>;
+}
+
+/** The outcome of a tool worker's call */
+export type ToolWorkerResult = { type: 'result'; ok: true; output: string } | { type: 'result'; ok: false; error: string };
+
+/**
+ * A custom tool's `fetch`, sent to the agent worker: the tool worker has no
+ * network access of its own, so requests go through the network policy there.
+ */
+export interface ToolFetchRequest {
+  type: 'fetch';
+  id: number;
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/** The agent worker's answer to a ToolFetchRequest */
+export type ToolFetchResult =
+  | { type: 'fetch-result'; id: number; ok: true; status: number; statusText: string; headers: Record<string, string>; body: string }
+  | { type: 'fetch-result'; id: number; ok: false; error: string };
+
+/** A javascript tool evaluation, sent to a sandbox worker */
+export interface SandboxRequest {
+  code: string;
+}
+
+/** The outcome of a sandbox evaluation, with the console output it produced */
+export type SandboxResult =
+  | { ok: true; result: string; logs: string }
+  | { ok: false; error: string; logs: string };
+
 /** Messages sent from Agent Worker → main thread */
 export type WorkerOutbound =
-  | { type: 'response'; payload: { groupId: string; text: string } }
+  | { type: 'response'; payload: { groupId: string; text: string; transcript?: ConversationMessage[] } }
+  | { type: 'response-delta'; payload: { groupId: string; text: string } }
   | { type: 'error'; payload: { groupId: string; error: string } }
+  | { type: 'cancelled'; payload: { groupId: string; partial: string } }
   | { type: 'typing'; payload: { groupId: string } }
   | { type: 'tool-activity'; payload: { groupId: string; tool: string; status: string } }
   | { type: 'thinking-log'; payload: ThinkingLogEntry }
   | { type: 'compact-done'; payload: { groupId: string; summary: string } }
   | { type: 'token-usage'; payload: TokenUsage }
+  | { type: 'tool-approval'; payload: ToolApprovalRequest }
+  | { type: 'mcp-call'; payload: McpCallRequest }
+  | { type: 'failover'; payload: { groupId: string; provider: Provider; model: string } }
   | { type: 'task-created'; payload: { task: Task } };
 
 /** Token usage info from the API */
@@ -117,6 +362,32 @@ export interface TokenUsage {
   cacheReadTokens: number;
   cacheCreationTokens: number;
   contextLimit: number;
+  /** Provider and model that served the call */
+  provider: Provider;
+  model: string;
+  /** Made by a sub-agent; counts toward usage but not the conversation's context */
+  subAgent?: boolean;
+}
+
+/**
+ * Token usage accumulated for one day, group, provider, model and
+ * scheduled task (null for regular chat turns).
+ */
+export interface UsageRecord {
+  /** `${day}|${groupId}|${provider}|${model}|${taskId}` */
+  id: string;
+  /** Local calendar day, YYYY-MM-DD */
+  day: string;
+  groupId: string;
+  provider: Provider;
+  model: string;
+  taskId: string | null;
+  /** Number of API calls */
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
 }
 
 /** A single entry in the thinking activity log */
@@ -126,6 +397,10 @@ export interface ThinkingLogEntry {
   timestamp: number;
   label: string;
   detail?: string;
+  /** Ids of the sub-agents this entry was logged in, outermost first; absent for the main agent */
+  agentPath?: string[];
+  /** Unified diff of a file change, shown in the chat */
+  diff?: string;
 }
 
 /** Tool definition for Claude API */
@@ -137,6 +412,8 @@ export interface ToolDefinition {
     properties: Record<string, unknown>;
     required?: string[];
   };
+  /** MCP and custom tools declared free of side effects; only these may run in parallel */
+  readOnly?: boolean;
 }
 
 /** Orchestrator state machine */
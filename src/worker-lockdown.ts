@@ -0,0 +1,59 @@
+// ---------------------------------------------------------------------------
+// OpenWebClaw — Worker lockdown
+// ---------------------------------------------------------------------------
+//
+// Strips a worker of everything that reaches outside it — network APIs,
+// storage handles, nested workers and its own postMessage — before it runs
+// model- or user-written code. Used by the javascript sandbox and the
+// custom tool worker; both are also served with a CSP that blocks network
+// access and imports from elsewhere, in case anything is left reachable.
+// Workers that need to talk to their host must keep a handle on
+// postMessage before calling lockDownWorker().
+
+/** Globals that reach the network, storage or other contexts */
+const BLOCKED_GLOBALS = [
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'WebSocketStream',
+  'EventSource',
+  'WebTransport',
+  'importScripts',
+  'indexedDB',
+  'IDBFactory',
+  'caches',
+  'CacheStorage',
+  'BroadcastChannel',
+  'Worker',
+  'SharedWorker',
+  'MessageChannel',
+  'postMessage',
+  'close',
+  'FileSystemHandle',
+  'FileSystemFileHandle',
+  'FileSystemDirectoryHandle',
+  'FileSystemSyncAccessHandle',
+  'StorageManager',
+];
+
+/** Navigator members that reach storage or the network */
+const BLOCKED_NAVIGATOR = ['storage', 'locks', 'serviceWorker', 'sendBeacon', 'connection'];
+
+/** Remove the blocked globals and navigator members from this worker. */
+export function lockDownWorker(): void {
+  removeEverywhere(self, BLOCKED_GLOBALS);
+  removeEverywhere(navigator, BLOCKED_NAVIGATOR);
+}
+
+/** Delete a property from an object and every prototype it inherits from */
+function removeEverywhere(target: object, names: string[]): void {
+  for (let obj: any = target; obj && obj !== Object.prototype; obj = Object.getPrototypeOf(obj)) {
+    for (const name of names) {
+      try {
+        delete obj[name];
+      } catch {
+        // Non-configurable — nothing more can be done
+      }
+    }
+  }
+}
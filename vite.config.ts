@@ -1,8 +1,84 @@
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, type Connect, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/vite';
 import { VitePWA } from 'vite-plugin-pwa';
 
+/** Request headers not passed on to the relayed site */
+const RELAY_DROPPED_HEADERS = ['host', 'origin', 'referer', 'cookie', 'connection', 'x-relay-secret', 'content-length'];
+
+/** Response headers not passed back: Node's fetch has already decoded the body */
+const RELAY_DROPPED_RESPONSE_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding', 'connection', 'set-cookie'];
+
+/** Upstream responses reported to the agent instead of passed on */
+const RELAY_REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+function relayHostAllowed(host: string, patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    pattern === '*' || (pattern.startsWith('*.') ? host.endsWith(pattern.slice(1)) : host === pattern));
+}
+
+/**
+ * Fetch relay for the dev and preview servers, mirroring the one in
+ * nginx.conf: `/api/relay/<scheme>/<host>/<path>` is fetched server-side,
+ * for hosts on the allowlist and requests carrying the shared secret.
+ * Redirects come back as a 204 with `X-Relay-Status` and `X-Relay-Location`
+ * for the agent to follow itself.
+ */
+function fetchRelay(secret: string, hosts: string[]): Plugin {
+  const handler: Connect.NextHandleFunction = async (req, res) => {
+    const match = /^\/(https?)\/([a-zA-Z0-9.-]+(?::\d+)?)(\/.*)$/.exec(req.url ?? '');
+    const reply = (status: number, text: string) => {
+      res.statusCode = status;
+      res.setHeader('Content-Type', 'text/plain');
+      res.end(text);
+    };
+    if (!match) return reply(400, 'relay: expected /api/relay/<http|https>/<host>/<path>');
+    if (req.headers['x-relay-secret'] !== secret) return reply(403, 'relay: missing or wrong X-Relay-Secret');
+    const [, scheme, host, path] = match;
+    if (!relayHostAllowed(host.replace(/:\d+$/, '').toLowerCase(), hosts)) {
+      return reply(403, `relay: ${host} is not on the relay allowlist`);
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (typeof value === 'string' && !RELAY_DROPPED_HEADERS.includes(name)) headers[name] = value;
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    try {
+      const upstream = await fetch(`${scheme}://${host}${path}`, {
+        method: req.method,
+        headers,
+        body: chunks.length > 0 ? Buffer.concat(chunks) : undefined,
+        redirect: 'manual',
+      });
+      if (RELAY_REDIRECT_STATUSES.includes(upstream.status)) {
+        res.statusCode = 204;
+        res.setHeader('X-Relay-Status', String(upstream.status));
+        res.setHeader('X-Relay-Location', upstream.headers.get('location') ?? '');
+        return res.end();
+      }
+      res.statusCode = upstream.status;
+      upstream.headers.forEach((value, name) => {
+        if (!RELAY_DROPPED_RESPONSE_HEADERS.includes(name)) res.setHeader(name, value);
+      });
+      res.end(Buffer.from(await upstream.arrayBuffer()));
+    } catch (err) {
+      reply(502, `relay: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return {
+    name: 'fetch-relay',
+    configureServer(server) {
+      server.middlewares.use('/api/relay', handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use('/api/relay', handler);
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
   // Load env files based on mode
@@ -13,6 +89,12 @@ export default defineConfig(({ mode }) => {
   const ollamaTarget = env.VITE_OLLAMA_URL || process.env.OLLAMA_URL || '';
   const openwebuiTarget = env.VITE_OPENWEBUI_URL || process.env.OPENWEBUI_URL || '';
 
+  // Fetch relay (opt-in): needs a shared secret; only hosts on the allowlist are relayed.
+  // Not VITE_-prefixed so the secret never ends up in the client bundle.
+  const relayEnv = loadEnv(mode, process.cwd(), 'FETCH_RELAY_');
+  const relaySecret = relayEnv.FETCH_RELAY_SECRET || '';
+  const relayHosts = (relayEnv.FETCH_RELAY_HOSTS || '').toLowerCase().split(/[\s,]+/).filter(Boolean);
+
   // Determine if running in Docker (check for common Docker indicators)
   const isDocker = process.env.DOCKER_ENV === 'true' || process.env.CONTAINER_ENV === 'docker';
 
@@ -62,6 +144,21 @@ export default defineConfig(({ mode }) => {
     plugins: [
       react(),
       tailwindcss(),
+      ...(relaySecret ? [fetchRelay(relaySecret, relayHosts)] : []),
+      {
+        // Same lockdown for the javascript sandbox and custom tool workers as nginx.conf applies in production
+        name: 'worker-csp',
+        configureServer(server) {
+          server.middlewares.use((req, res, next) => {
+            if (req.url?.includes('sandbox-worker')) {
+              res.setHeader('Content-Security-Policy', "default-src 'none'; script-src 'self' 'unsafe-eval'");
+            } else if (req.url?.includes('tool-worker')) {
+              res.setHeader('Content-Security-Policy', "default-src 'none'; script-src 'self' blob:; worker-src 'none'");
+            }
+            next();
+          });
+        },
+      },
       VitePWA({
         registerType: 'autoUpdate',
         devOptions: {